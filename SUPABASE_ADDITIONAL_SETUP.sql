@@ -41,3 +41,42 @@ FROM company_reports
 WHERE status = 'completed'
 GROUP BY DATE(created_at)
 ORDER BY report_date DESC;
+
+-- Bulk "basic company data" index (loaded with `npm run ingest-company-data -- <csv>`)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS company_index (
+    company_number TEXT PRIMARY KEY,
+    company_name TEXT NOT NULL,
+    normalized_name TEXT NOT NULL,
+    company_status TEXT,
+    company_category TEXT,
+    country_of_origin TEXT,
+    incorporation_date DATE,
+    dissolution_date DATE,
+    care_of TEXT,
+    po_box TEXT,
+    address_line_1 TEXT,
+    address_line_2 TEXT,
+    post_town TEXT, -- upper case, searched by exact match
+    county TEXT,
+    country TEXT,
+    postcode TEXT,
+    sic_codes TEXT[] NOT NULL DEFAULT '{}',
+    sic_descriptions TEXT[] NOT NULL DEFAULT '{}',
+    accounts_category TEXT,
+    accounts_next_due DATE,
+    accounts_last_made_up DATE,
+    confirmation_statement_next_due DATE,
+    confirmation_statement_last_made_up DATE,
+    previous_names TEXT[] NOT NULL DEFAULT '{}',
+    source_file TEXT,
+    ingested_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS company_index_normalized_name_idx ON company_index (normalized_name);
+CREATE INDEX IF NOT EXISTS company_index_name_trgm_idx ON company_index USING GIN (normalized_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS company_index_status_idx ON company_index (company_status);
+CREATE INDEX IF NOT EXISTS company_index_sic_codes_idx ON company_index USING GIN (sic_codes);
+CREATE INDEX IF NOT EXISTS company_index_postcode_idx ON company_index (postcode text_pattern_ops);
+CREATE INDEX IF NOT EXISTS company_index_accounts_next_due_idx ON company_index (accounts_next_due);
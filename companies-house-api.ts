@@ -0,0 +1,754 @@
+import 'dotenv/config';
+import { normalizeCompanyNumber, companyNumberFromName } from './company-number.js';
+import { getConfig } from './config.js';
+import { normalizeResultDates } from './dates.js';
+import { Deadline, DeadlineExceededError, SCRAPE_TIMEOUT } from './deadline.js';
+import { attachProvenance, summarizeProvenance, SourceProvenance } from './provenance.js';
+import { SectionTracker, classifySectionError } from './sections.js';
+import {
+  ScraperUtils,
+  FilingDocumentProcessor,
+  AmbiguousCompanyError,
+  ScrapeOptions,
+  ScrapingResult,
+  CompanySearchCandidate,
+  FilingData,
+  OfficerData,
+  PeopleData,
+  PSCData,
+  PSCStatement,
+  PSCSection,
+  ChargeData,
+  ChargeDocument,
+  ChargesSection,
+  InsolvencyCase,
+  InsolvencySection
+} from './scraper.js';
+
+// Companies House public data API adapter. Fills the same ScrapingResult as CompaniesHouseScraper,
+// formatted the way the website displays it (dates, roles, statuses), so QualityAssessor and the
+// summarizer can't tell the two sources apart. Point COMPANIES_HOUSE_API_URL at a local stand-in to test.
+
+const WEBSITE_BASE_URL = 'https://find-and-update.company-information.service.gov.uk';
+
+// Page sizes match the website so maxPages means the same amount of history for both sources
+const FILINGS_PER_PAGE = 25;
+const OFFICERS_PER_PAGE = 35;
+const CHARGES_PER_PAGE = 100;
+
+const SHORT_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const LONG_MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const COMPANY_STATUS_LABELS: Record<string, string> = {
+  'active': 'Active',
+  'dissolved': 'Dissolved',
+  'liquidation': 'Liquidation',
+  'receivership': 'Receiver Action',
+  'administration': 'In Administration',
+  'voluntary-arrangement': 'Voluntary Arrangement',
+  'converted-closed': 'Converted / Closed',
+  'insolvency-proceedings': 'Insolvency Proceedings',
+  'registered': 'Registered',
+  'removed': 'Removed',
+  'closed': 'Closed',
+  'open': 'Open'
+};
+
+const COMPANY_TYPE_LABELS: Record<string, string> = {
+  'ltd': 'Private limited Company',
+  'plc': 'Public limited Company',
+  'llp': 'Limited Liability Partnership',
+  'private-unlimited': 'Private unlimited company',
+  'private-limited-guarant-nsc': 'PRI/LBG/NSC (Private, limited by guarantee, no share capital)',
+  'private-limited-guarant-nsc-limited-exemption': "PRI/LBG/NSC (Private, Limited by guarantee, no share capital, use of 'Limited' exemption)",
+  'limited-partnership': 'Limited Partnership',
+  'scottish-partnership': 'Scottish qualifying partnership',
+  'charitable-incorporated-organisation': 'Charitable incorporated organisation',
+  'oversea-company': 'Overseas entity'
+};
+
+// Most common filing descriptions; anything else falls back to a readable version of the enum key
+const FILING_DESCRIPTIONS: Record<string, string> = {
+  'accounts-with-accounts-type-full': 'Full accounts made up to {made_up_date}',
+  'accounts-with-accounts-type-small': 'Accounts for a small company made up to {made_up_date}',
+  'accounts-with-accounts-type-micro-entity': 'Micro company accounts made up to {made_up_date}',
+  'accounts-with-accounts-type-dormant': 'Accounts for a dormant company made up to {made_up_date}',
+  'accounts-with-accounts-type-total-exemption-full': 'Total exemption full accounts made up to {made_up_date}',
+  'accounts-with-accounts-type-total-exemption-small': 'Total exemption small company accounts made up to {made_up_date}',
+  'accounts-with-accounts-type-unaudited-abridged': 'Unaudited abridged accounts made up to {made_up_date}',
+  'accounts-with-accounts-type-group': 'Group of companies\' accounts made up to {made_up_date}',
+  'confirmation-statement-with-no-updates': 'Confirmation statement made on {made_up_date} with no updates',
+  'confirmation-statement-with-updates': 'Confirmation statement made on {made_up_date} with updates',
+  'annual-return-company-with-made-up-date-full-list-shareholders': 'Annual return made up to {made_up_date} with full list of shareholders',
+  'appoint-person-director-company-with-name-date': 'Appointment of {officer_name} as a director on {appointment_date}',
+  'appoint-person-secretary-company-with-name-date': 'Appointment of {officer_name} as a secretary on {appointment_date}',
+  'appoint-corporate-director-company-with-name-date': 'Appointment of {officer_name} as a director on {appointment_date}',
+  'termination-director-company-with-name-termination-date': 'Termination of appointment of {officer_name} as a director on {termination_date}',
+  'termination-secretary-company-with-name-termination-date': 'Termination of appointment of {officer_name} as a secretary on {termination_date}',
+  'change-person-director-company-with-change-date': 'Director\'s details changed for {officer_name} on {change_date}',
+  'change-registered-office-address-company-with-date-old-address-new-address': 'Registered office address changed from {old_address} to {new_address} on {change_date}',
+  'notification-of-a-person-with-significant-control': 'Notification of {psc_name} as a person with significant control on {notification_date}',
+  'cessation-of-a-person-with-significant-control': 'Cessation of {psc_name} as a person with significant control on {cessation_date}',
+  'mortgage-create-with-deed-with-charge-number-charge-creation-date': 'Registration of charge {charge_number}, created on {charge_creation_date}',
+  'mortgage-satisfy-charge-full': 'Satisfaction of charge {charge_number} in full',
+  'mortgage-satisfy-charge-part': 'Satisfaction of charge {charge_number} in part',
+  'incorporation-company': 'Incorporation',
+  'capital-allotment-shares': 'Statement of capital following an allotment of shares on {date}',
+  'gazette-notice-compulsory': 'First Gazette notice for compulsory strike-off',
+  'gazette-dissolved-compulsory': 'Final Gazette dissolved via compulsory strike-off'
+};
+
+// Natures of control as the website words them
+const NATURE_OF_CONTROL_LABELS: Record<string, string> = {
+  'ownership-of-shares-25-to-50-percent': 'Ownership of shares – More than 25% but not more than 50%',
+  'ownership-of-shares-50-to-75-percent': 'Ownership of shares – More than 50% but less than 75%',
+  'ownership-of-shares-75-to-100-percent': 'Ownership of shares – 75% or more',
+  'voting-rights-25-to-50-percent': 'Ownership of voting rights - More than 25% but not more than 50%',
+  'voting-rights-50-to-75-percent': 'Ownership of voting rights - More than 50% but less than 75%',
+  'voting-rights-75-to-100-percent': 'Ownership of voting rights - 75% or more',
+  'right-to-appoint-and-remove-directors': 'Right to appoint or remove directors',
+  'significant-influence-or-control': 'Has significant influence or control'
+};
+
+const PSC_STATEMENT_LABELS: Record<string, string> = {
+  'no-individual-or-entity-with-signficant-control': 'The company knows or has reasonable cause to believe that there is no registrable person or registrable relevant legal entity in relation to the company',
+  'psc-exists-but-not-identified': 'The company knows or has reasonable cause to believe that there is a registrable person in relation to the company but it has not identified the registrable person',
+  'steps-to-find-psc-not-yet-completed': 'The company has not yet completed taking reasonable steps to find out if there is anyone who is a registrable person or a registrable relevant legal entity in relation to the company'
+};
+
+const CHARGE_STATUS_LABELS: Record<string, string> = {
+  'outstanding': 'Outstanding',
+  'part-satisfied': 'Part satisfied',
+  'fully-satisfied': 'Satisfied',
+  'satisfied': 'Satisfied'
+};
+
+export interface CompaniesHouseApiOptions {
+  baseUrl: string;
+  apiKey: string;
+  timeoutMs: number;
+}
+
+export class CompaniesHouseApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'CompaniesHouseApiError';
+    this.status = status;
+  }
+}
+
+export class CompaniesHouseApiClient {
+  private options: CompaniesHouseApiOptions;
+
+  constructor(options: Partial<CompaniesHouseApiOptions> = {}) {
+    this.options = {
+      baseUrl: (options.baseUrl || process.env.COMPANIES_HOUSE_API_URL || 'https://api.company-information.service.gov.uk').replace(/\/$/, ''),
+      apiKey: options.apiKey ?? process.env.COMPANIES_HOUSE_API_KEY ?? '',
+      timeoutMs: options.timeoutMs ?? 30000
+    };
+  }
+
+  isConfigured(): boolean {
+    return this.options.apiKey.length > 0;
+  }
+
+  resourceUrl(path: string, query: Record<string, string | number | undefined> = {}): URL {
+    const url = new URL(`${this.options.baseUrl}${path}`);
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') url.searchParams.set(key, String(value));
+    });
+    return url;
+  }
+
+  // Returns null for 404 - the API uses it for "no charges", "no PSCs", "no insolvency" as well as unknown companies
+  async get<T = any>(path: string, query: Record<string, string | number | undefined> = {}): Promise<T | null> {
+    const url = this.resourceUrl(path, query);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      // The API key is the basic auth username with an empty password
+      const response = await fetch(url.toString(), {
+        headers: {
+          'Authorization': `Basic ${Buffer.from(`${this.options.apiKey}:`).toString('base64')}`,
+          'Accept': 'application/json'
+        },
+        signal: controller.signal
+      });
+
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new CompaniesHouseApiError(`Companies House API returned HTTP ${response.status} for ${path}`, response.status);
+      }
+      return await response.json() as T;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export class CompaniesHouseApiSource {
+  private client: CompaniesHouseApiClient;
+  // Armed by scrapeCompany; the client's own timeout still caps each request
+  private deadline = new Deadline();
+
+  constructor(client: CompaniesHouseApiClient = new CompaniesHouseApiClient()) {
+    this.client = client;
+  }
+
+  isConfigured(): boolean {
+    return this.client.isConfigured();
+  }
+
+  private get<T = any>(path: string, query: Record<string, string | number | undefined> = {}): Promise<T | null> {
+    return this.deadline.race(`API request ${path}`, () => this.client.get<T>(path, query));
+  }
+
+  // A later page that the time budget cuts off ends the loop with the pages already read (undefined)
+  private async getPage<T = any>(path: string, query: Record<string, string | number | undefined>, pageIndex: number): Promise<T | null | undefined> {
+    try {
+      return await this.get<T>(path, query);
+    } catch (error) {
+      if (pageIndex > 0 && error instanceof DeadlineExceededError) return undefined;
+      throw error;
+    }
+  }
+
+  private source(path: string, query: Record<string, string | number | undefined> = {}, pageNumber?: number): SourceProvenance {
+    const source: SourceProvenance = {
+      sourceUrl: this.client.resourceUrl(path, query).toString(),
+      method: 'api',
+      strategy: 'Companies House API',
+      extractedAt: new Date().toISOString()
+    };
+    if (pageNumber !== undefined) source.pageNumber = pageNumber;
+    return source;
+  }
+
+  // Display formats used by the website: "5 Mar 2024" in filing history, "5 March 2024" elsewhere
+  static formatDate(isoDate: string | undefined, style: 'short' | 'long' = 'long'): string | undefined {
+    const match = isoDate?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (!match) return isoDate || undefined;
+    const months = style === 'short' ? SHORT_MONTHS : LONG_MONTHS;
+    return `${parseInt(match[3])} ${months[parseInt(match[2]) - 1]} ${match[1]}`;
+  }
+
+  static humanize(value: string | undefined): string {
+    if (!value) return '';
+    const text = value.replace(/-/g, ' ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  static formatRole(role: string | undefined): string {
+    return (role || '')
+      .split('-')
+      .map(word => word === 'llp' ? 'LLP' : word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
+  static formatAddress(address: any): string | undefined {
+    if (!address) return undefined;
+    // The website prints premises and the first address line together ("1 High Street")
+    const firstLine = [address.premises, address.address_line_1].filter(Boolean).join(' ');
+    const parts = [
+      address.care_of, address.po_box, firstLine, address.address_line_2,
+      address.locality, address.region, address.postal_code, address.country
+    ].filter(part => part && String(part).trim());
+    return parts.length > 0 ? parts.join(', ') : undefined;
+  }
+
+  static describeFiling(item: any): string {
+    const values = item.description_values || {};
+    if (item.description === 'legacy' || !item.description) {
+      return values.description || item.type || 'Filing';
+    }
+
+    const template = FILING_DESCRIPTIONS[item.description];
+    if (!template) {
+      const extra = values.made_up_date ? ` made up to ${this.formatDate(values.made_up_date)}` : '';
+      return `${this.humanize(item.description)}${extra}`;
+    }
+
+    return template.replace(/\{(\w+)\}/g, (_, key) => {
+      const value = values[key];
+      return /^\d{4}-\d{2}-\d{2}$/.test(value || '') ? this.formatDate(value)! : (value ?? '');
+    }).replace(/\s+/g, ' ').trim();
+  }
+
+  async searchCandidates(query: string, limit: number = 20): Promise<CompanySearchCandidate[]> {
+    const data = await this.get('/search/companies', { q: query, items_per_page: limit });
+    const normalizedQuery = ScraperUtils.normalizeCompanyName(query);
+
+    const candidates = (data?.items || []).map((item: any, index: number) => ({
+      rank: index + 1,
+      companyName: item.title,
+      companyNumber: item.company_number,
+      status: CompaniesHouseApiSource.formatCompanyStatus(item.company_status),
+      incorporationDate: CompaniesHouseApiSource.formatDate(item.date_of_creation),
+      dissolutionDate: CompaniesHouseApiSource.formatDate(item.date_of_cessation),
+      address: item.address_snippet,
+      url: `${WEBSITE_BASE_URL}/company/${item.company_number}`,
+      exactMatch: ScraperUtils.normalizeCompanyName(item.title || '') === normalizedQuery,
+      originalIndex: index
+    }));
+
+    // Same ranking as the website search: exact name matches first, then active companies
+    return candidates
+      .sort((a, b) =>
+        Number(b.exactMatch) - Number(a.exactMatch) ||
+        Number(/^active$/i.test(b.status)) - Number(/^active$/i.test(a.status)) ||
+        a.originalIndex - b.originalIndex
+      )
+      .map(({ originalIndex, ...candidate }, index) => ({ ...candidate, rank: index + 1 }));
+  }
+
+  private static formatCompanyStatus(status: string | undefined): string {
+    return COMPANY_STATUS_LABELS[status || ''] || this.humanize(status);
+  }
+
+  private async resolveCompanyNumber(companyName: string, options: ScrapeOptions): Promise<string> {
+    const knownNumber = normalizeCompanyNumber(options.companyNumber || '') || companyNumberFromName(companyName);
+    if (knownNumber) return knownNumber;
+
+    const candidates = await this.searchCandidates(companyName);
+    if (candidates.length === 0) {
+      throw new CompaniesHouseApiError(`No companies found matching "${companyName}"`, 404);
+    }
+
+    if (options.failOnAmbiguous) {
+      const exactMatches = candidates.filter(candidate => candidate.exactMatch);
+      if (exactMatches.length === 1) return exactMatches[0].companyNumber;
+      if (candidates.length === 1) return candidates[0].companyNumber;
+      throw new AmbiguousCompanyError(companyName, candidates);
+    }
+
+    return candidates[0].companyNumber;
+  }
+
+  async getOverview(companyNumber: string): Promise<any> {
+    const profilePath = `/company/${companyNumber}`;
+    const profile = await this.get(profilePath);
+    if (!profile) {
+      throw new CompaniesHouseApiError(`Company ${companyNumber} not found`, 404);
+    }
+
+    return {
+      companyName: profile.company_name,
+      companyNumber: profile.company_number,
+      status: CompaniesHouseApiSource.formatCompanyStatus(profile.company_status),
+      incorporationDate: CompaniesHouseApiSource.formatDate(profile.date_of_creation),
+      companyType: COMPANY_TYPE_LABELS[profile.type] || CompaniesHouseApiSource.humanize(profile.type),
+      registeredAddress: CompaniesHouseApiSource.formatAddress(profile.registered_office_address),
+      // Not part of the website overview - kept so the insolvency check needs no extra request
+      hasInsolvencyHistory: !!profile.has_insolvency_history,
+      provenance: this.source(profilePath)
+    };
+  }
+
+  async getFilingHistory(companyNumber: string, maxPages: number, options: ScrapeOptions): Promise<ScrapingResult['filing'] | null> {
+    const categories = options.filingCategories?.length ? options.filingCategories : undefined;
+    const previous = options.previousFiling;
+    const sameCategories = [...(previous?.categories || [])].sort().join(',') === [...(categories || [])].sort().join(',');
+    const knownKeys = previous?.filings?.length && sameCategories
+      ? new Set(previous.filings.flatMap(filing => ScraperUtils.filingKeys(filing)))
+      : null;
+
+    let filings: FilingData[] = [];
+    let pagesScraped = 0;
+    let reachedKnownFiling = false;
+
+    for (let page = 0; page < maxPages; page++) {
+      const path = `/company/${companyNumber}/filing-history`;
+      const query = {
+        items_per_page: FILINGS_PER_PAGE,
+        start_index: page * FILINGS_PER_PAGE,
+        category: categories?.join(',')
+      };
+      const data = await this.getPage(path, query, page);
+      if (data === undefined) break;
+      pagesScraped++;
+
+      const items: any[] = data?.items || [];
+      const pageFilings = attachProvenance(items.map(item => this.buildFiling(companyNumber, item)), this.source(path, query, page + 1));
+
+      const firstKnownIndex = knownKeys
+        ? pageFilings.findIndex(filing => ScraperUtils.filingKeys(filing).some(key => knownKeys.has(key)))
+        : -1;
+      if (firstKnownIndex !== -1) {
+        filings = [...filings, ...pageFilings.slice(0, firstKnownIndex)];
+        reachedKnownFiling = true;
+        break;
+      }
+
+      filings = [...filings, ...pageFilings];
+      if (items.length < FILINGS_PER_PAGE || filings.length >= (data?.total_count ?? 0)) break;
+    }
+
+    let incremental;
+    if (knownKeys) {
+      const newFilings = filings.length;
+      const newKeys = new Set(filings.flatMap(filing => ScraperUtils.filingKeys(filing)));
+      filings = [...filings, ...previous!.filings.filter(filing => !ScraperUtils.filingKeys(filing).some(key => newKeys.has(key)))];
+      incremental = {
+        previousReportId: previous!.reportId,
+        previousExtractionTimestamp: previous!.extractionTimestamp,
+        previousFilingCount: previous!.filings.length,
+        newFilings,
+        reachedKnownFiling
+      };
+    }
+
+    if (filings.length === 0) return null;
+
+    return {
+      filings,
+      totalFilings: filings.length,
+      pagesScraped,
+      statistics: ScraperUtils.calculateFilingStatistics(filings),
+      dateRange: ScraperUtils.calculateDateRange(filings),
+      categories,
+      incremental
+    };
+  }
+
+  // Same links as the website's filing history row: the PDF, plus the iXBRL download for
+  // electronically filed accounts (paper accounts are scanned, so they only have the PDF)
+  private buildFiling(companyNumber: string, item: any): FilingData {
+    const description = CompaniesHouseApiSource.describeFiling(item);
+    const documentUrl = `${WEBSITE_BASE_URL}/company/${companyNumber}/filing-history/${item.transaction_id}/document`;
+    const documentLinks: FilingData['documentLinks'] = [];
+    if (item.links?.document_metadata && item.transaction_id) {
+      documentLinks.push({
+        linkText: 'View PDF',
+        linkType: 'PDF',
+        url: `${documentUrl}?format=pdf&download=0`,
+        pageCount: item.pages ? String(item.pages) : ''
+      });
+      if (item.category === 'accounts' && !item.paper_filed) {
+        documentLinks.push({
+          linkText: 'Download iXBRL',
+          linkType: 'iXBRL',
+          url: `${documentUrl}?format=xhtml&download=1`,
+          pageCount: ''
+        });
+      }
+    }
+
+    return {
+      date: CompaniesHouseApiSource.formatDate(item.date, 'short') || '',
+      description,
+      type: item.type || ScraperUtils.categorizeFilingType(description),
+      status: 'Filed',
+      documentLinks
+    };
+  }
+
+  async getPeople(companyNumber: string, maxPages: number): Promise<PeopleData | null> {
+    const officers: OfficerData[] = [];
+    let pagesScraped = 0;
+
+    for (let page = 0; page < maxPages; page++) {
+      const path = `/company/${companyNumber}/officers`;
+      const query = {
+        items_per_page: OFFICERS_PER_PAGE,
+        start_index: page * OFFICERS_PER_PAGE
+      };
+      const data = await this.getPage(path, query, page);
+      if (data === undefined) break;
+      pagesScraped++;
+
+      const items: any[] = data?.items || [];
+      const source = this.source(path, query, page + 1);
+      items.forEach(item => {
+        const profilePath = item.links?.officer?.appointments;
+        officers.push({
+          name: item.name,
+          role: CompaniesHouseApiSource.formatRole(item.officer_role),
+          appointmentDate: CompaniesHouseApiSource.formatDate(item.appointed_on),
+          resignationDate: CompaniesHouseApiSource.formatDate(item.resigned_on),
+          nationality: item.nationality,
+          occupation: item.occupation,
+          address: CompaniesHouseApiSource.formatAddress(item.address),
+          dateOfBirth: item.date_of_birth?.year
+            ? `${item.date_of_birth.month ? `${LONG_MONTHS[item.date_of_birth.month - 1]} ` : ''}${item.date_of_birth.year}`
+            : undefined,
+          links: profilePath ? [{ linkText: item.name, url: `${WEBSITE_BASE_URL}${profilePath}`, linkType: 'profile' }] : [],
+          provenance: { ...source }
+        });
+      });
+
+      if (items.length < OFFICERS_PER_PAGE || officers.length >= (data?.total_results ?? 0)) break;
+    }
+
+    return officers.length > 0 ? ScraperUtils.buildPeopleData(officers, pagesScraped) : null;
+  }
+
+  async getPSC(companyNumber: string): Promise<PSCSection | null> {
+    const pscPath = `/company/${companyNumber}/persons-with-significant-control`;
+    const statementsPath = `/company/${companyNumber}/persons-with-significant-control-statements`;
+    const [pscData, statementData] = await Promise.all([
+      this.get(pscPath, { items_per_page: 100 }),
+      this.get(statementsPath, { items_per_page: 100 })
+    ]);
+
+    const persons: PSCData[] = (pscData?.items || []).map((item: any) => {
+      const kind: PSCData['kind'] = /^individual/.test(item.kind) ? 'individual'
+        : /^corporate-entity/.test(item.kind) ? 'corporate-entity'
+        : /^legal-person/.test(item.kind) ? 'legal-person'
+        : /^super-secure/.test(item.kind) ? 'super-secure'
+        : 'unknown';
+
+      return {
+        kind,
+        name: item.name || (kind === 'super-secure' ? 'Super secure person' : ''),
+        naturesOfControl: (item.natures_of_control || []).map((nature: string) => NATURE_OF_CONTROL_LABELS[nature] || CompaniesHouseApiSource.humanize(nature)),
+        notifiedOn: CompaniesHouseApiSource.formatDate(item.notified_on),
+        ceasedOn: CompaniesHouseApiSource.formatDate(item.ceased_on),
+        dateOfBirth: item.date_of_birth?.year
+          ? `${item.date_of_birth.month ? `${LONG_MONTHS[item.date_of_birth.month - 1]} ` : ''}${item.date_of_birth.year}`
+          : undefined,
+        nationality: item.nationality,
+        countryOfResidence: item.country_of_residence,
+        address: CompaniesHouseApiSource.formatAddress(item.address),
+        legalForm: item.identification?.legal_form,
+        governingLaw: item.identification?.legal_authority,
+        placeRegistered: item.identification?.place_registered,
+        registrationNumber: item.identification?.registration_number
+      };
+    });
+
+    const statements: PSCStatement[] = (statementData?.items || []).map((item: any) => ({
+      statement: PSC_STATEMENT_LABELS[item.statement] || CompaniesHouseApiSource.humanize(item.statement),
+      notifiedOn: CompaniesHouseApiSource.formatDate(item.notified_on),
+      withdrawnOn: CompaniesHouseApiSource.formatDate(item.ceased_on)
+    }));
+
+    if (persons.length === 0 && statements.length === 0) return null;
+    attachProvenance(persons, this.source(pscPath, { items_per_page: 100 }));
+    attachProvenance(statements, this.source(statementsPath, { items_per_page: 100 }));
+
+    return {
+      persons,
+      statements,
+      totalPersons: persons.length,
+      activePersons: persons.filter(person => !person.ceasedOn).length,
+      ceasedPersons: persons.filter(person => person.ceasedOn).length
+    };
+  }
+
+  async getCharges(companyNumber: string): Promise<ChargesSection> {
+    const chargesPath = `/company/${companyNumber}/charges`;
+    const items: any[] = [];
+    // Provenance per item, pointing at the page it came from
+    const sources: SourceProvenance[] = [];
+    let pagesScraped = 0;
+
+    for (let page = 0; ; page++) {
+      const query = { items_per_page: CHARGES_PER_PAGE, start_index: page * CHARGES_PER_PAGE };
+      const data = await this.getPage(chargesPath, query, page);
+      if (data === undefined) break;
+      pagesScraped++;
+
+      const pageItems: any[] = data?.items || [];
+      items.push(...pageItems);
+      sources.push(...pageItems.map(() => this.source(chargesPath, query, page + 1)));
+      if (pageItems.length < CHARGES_PER_PAGE || items.length >= (data?.total_count ?? 0)) break;
+    }
+
+    const charges: ChargeData[] = items.map((item: any) => {
+      const status: ChargeData['status'] = item.status === 'outstanding' ? 'outstanding'
+        : item.status === 'part-satisfied' ? 'part-satisfied'
+        : /satisfied/.test(item.status || '') ? 'satisfied'
+        : 'unknown';
+
+      const documents: ChargeDocument[] = (item.transactions || [])
+        .filter((transaction: any) => transaction.links?.filing)
+        .map((transaction: any) => ({
+          filingType: /^create/.test(transaction.filing_type) ? 'MR01'
+            : /acquisition/.test(transaction.filing_type) ? 'MR02'
+            : /satisf/.test(transaction.filing_type) ? 'MR04'
+            : /release|cease/.test(transaction.filing_type) ? 'MR05'
+            : 'Other',
+          description: CompaniesHouseApiSource.humanize(transaction.filing_type),
+          date: CompaniesHouseApiSource.formatDate(transaction.delivered_on),
+          url: `${WEBSITE_BASE_URL}${transaction.links.filing}/document?format=pdf&download=0`
+        }));
+
+      return {
+        chargeCode: item.charge_code,
+        title: item.charge_code
+          ? `Charge code ${item.charge_code.replace(/(\d{4})(?=\d)/g, '$1 ')}`
+          : (item.classification?.description || `Charge ${item.charge_number ?? ''}`.trim()),
+        status,
+        statusText: CHARGE_STATUS_LABELS[item.status] || CompaniesHouseApiSource.humanize(item.status),
+        createdOn: CompaniesHouseApiSource.formatDate(item.created_on),
+        deliveredOn: CompaniesHouseApiSource.formatDate(item.delivered_on),
+        satisfiedOn: CompaniesHouseApiSource.formatDate(item.satisfied_on),
+        personsEntitled: (item.persons_entitled || []).map((person: any) => person.name).filter(Boolean),
+        shortParticulars: item.particulars?.description,
+        containsFixedCharge: item.particulars?.contains_fixed_charge,
+        containsFloatingCharge: item.particulars?.contains_floating_charge,
+        floatingChargeCoversAll: item.particulars?.floating_charge_covers_all,
+        containsNegativePledge: item.particulars?.contains_negative_pledge,
+        detailUrl: item.links?.self ? `${WEBSITE_BASE_URL}${item.links.self}` : undefined,
+        documents
+      };
+    });
+
+    charges.forEach((charge, index) => attachProvenance([charge], sources[index]));
+
+    return {
+      charges,
+      totalCharges: charges.length,
+      outstanding: charges.filter(charge => charge.status === 'outstanding').length,
+      satisfied: charges.filter(charge => charge.status === 'satisfied').length,
+      partSatisfied: charges.filter(charge => charge.status === 'part-satisfied').length,
+      pagesScraped,
+      detailPagesVisited: 0
+    };
+  }
+
+  async getInsolvency(companyNumber: string, overview: any): Promise<InsolvencySection | null> {
+    const statusIndicatesInsolvency = /liquidation|administration|receiver|receivership|insolvency|voluntary arrangement/i.test(overview?.status || '');
+
+    if (!overview?.hasInsolvencyHistory) {
+      return { hasInsolvencyHistory: false, insolvencyFlag: statusIndicatesInsolvency, cases: [], totalCases: 0, caseTypes: [] };
+    }
+
+    const insolvencyPath = `/company/${companyNumber}/insolvency`;
+    const data = await this.get(insolvencyPath);
+    const cases: InsolvencyCase[] = (data?.cases || []).map((item: any) => ({
+      caseNumber: item.number ? String(item.number) : undefined,
+      caseType: CompaniesHouseApiSource.humanize(item.type),
+      dates: (item.dates || []).map((entry: any) => ({
+        label: CompaniesHouseApiSource.humanize(entry.type),
+        date: CompaniesHouseApiSource.formatDate(entry.date) || ''
+      })),
+      practitioners: (item.practitioners || []).map((practitioner: any) => ({
+        name: practitioner.name,
+        address: CompaniesHouseApiSource.formatAddress(practitioner.address),
+        role: CompaniesHouseApiSource.humanize(practitioner.role),
+        appointedOn: CompaniesHouseApiSource.formatDate(practitioner.appointed_on),
+        ceasedToActOn: CompaniesHouseApiSource.formatDate(practitioner.ceased_to_act_on)
+      }))
+    }));
+
+    // Mirrors the scraper: history flagged but no readable cases is a failure, not "none"
+    if (cases.length === 0) return null;
+    attachProvenance(cases, this.source(insolvencyPath));
+
+    return {
+      hasInsolvencyHistory: true,
+      insolvencyFlag: true,
+      cases,
+      totalCases: cases.length,
+      caseTypes: [...new Set(cases.map(c => c.caseType).filter(Boolean))]
+    };
+  }
+
+  // Each section fails independently, like the scraper, but a missing profile fails the whole
+  // extraction so the caller can fall back to the website. The time budget works as in the
+  // scraper: sections start only while there is time left and keep the pages read in time.
+  async scrapeCompany(companyName: string, maxFilingPages: number = 10, maxPeoplePages: number = 5, options: ScrapeOptions = {}): Promise<ScrapingResult> {
+    const startTime = Date.now();
+    const result: ScrapingResult = {
+      query: companyName,
+      extractionTimestamp: new Date().toISOString(),
+      qualityScore: 0,
+      dataIssues: [],
+      dataSource: 'api'
+    };
+
+    this.deadline.start(options.timeoutMs ?? (options.config || getConfig()).extraction.timeoutMs);
+    const completedSections: string[] = [];
+    const skippedSections: string[] = [];
+    let interruptedSection: string | undefined;
+
+    const companyNumber = await this.resolveCompanyNumber(companyName, options);
+    console.log(`Fetching ${companyNumber} from the Companies House API...`);
+
+    const overview = await this.getOverview(companyNumber);
+    const { hasInsolvencyHistory, ...websiteOverview } = overview;
+    result.overview = websiteOverview;
+
+    // Same section names as the website scraper, so statuses compare across data sources
+    const sections = new SectionTracker();
+    sections.record('overview', { status: 'ok' });
+
+    const section = async <T>(name: string, load: () => Promise<T>, isEmpty: (value: T) => boolean = () => false): Promise<T | null> => {
+      if (this.deadline.expired) {
+        skippedSections.push(name);
+        sections.skip(name, SCRAPE_TIMEOUT, 'Time budget ran out before this section started');
+        return null;
+      }
+      try {
+        const value = await load();
+        if (this.deadline.expired) {
+          interruptedSection = name;
+          sections.record(name, value === null || value === undefined
+            ? { status: 'failed', code: SCRAPE_TIMEOUT, message: 'Time budget ran out before anything was read' }
+            : { status: 'ok', code: SCRAPE_TIMEOUT, message: 'Cut short by the time budget - holds only what was read in time' });
+        } else {
+          completedSections.push(name);
+          sections.record(name, { status: value === null || value === undefined || isEmpty(value) ? 'empty' : 'ok' });
+        }
+        return value;
+      } catch (error) {
+        console.error(`${name} extraction failed:`, error.message);
+        if (error instanceof DeadlineExceededError) interruptedSection = name;
+        sections.fail(name, error, classifySectionError(error, error instanceof CompaniesHouseApiError ? 'API_ERROR' : 'EXTRACTION_FAILED'));
+        return null;
+      }
+    };
+
+    result.filing = await section('filing history', () => this.getFilingHistory(companyNumber, maxFilingPages, options));
+    if (result.filing?.incremental && !result.filing.incremental.reachedKnownFiling) {
+      result.dataIssues.push(`Incremental refresh did not reach a previously stored filing within ${result.filing.pagesScraped} pages - the merged history may have a gap`);
+    }
+    result.people = await section('people', () => this.getPeople(companyNumber, maxPeoplePages));
+    result.psc = await section('persons with significant control', () => this.getPSC(companyNumber));
+    result.charges = await section('charges', () => this.getCharges(companyNumber), charges => charges.totalCharges === 0);
+    result.insolvency = await section('insolvency', () => this.getInsolvency(companyNumber, overview), insolvency => !insolvency.hasInsolvencyHistory);
+
+    if (options.enrichOfficerAppointments) {
+      console.log("Officer appointment histories are only collected by the website scraper - skipping");
+      sections.skip('officer appointments', 'NOT_SUPPORTED', 'Appointment histories are only collected by the website scraper');
+    } else {
+      sections.skip('officer appointments', 'NOT_REQUESTED', 'includeOfficerAppointments was not set');
+    }
+
+    if (!options.downloadDocuments && !options.extractDocumentText && !options.extractFinancials) {
+      sections.skip('documents', 'NOT_REQUESTED', 'No document download, text or financials extraction was requested');
+    } else if (!result.filing) {
+      sections.skip('documents', 'PREREQUISITE_MISSING', 'No filing history to take documents from');
+    } else {
+      await section('documents', async () => {
+        await this.deadline.race('document processing', () => FilingDocumentProcessor.process(result, options, this.deadline));
+        return true;
+      });
+    }
+
+    if (this.deadline.expired) {
+      result.timeout = {
+        budgetMs: this.deadline.budgetMs,
+        elapsedMs: this.deadline.elapsedMs,
+        operation: this.deadline.operation || interruptedSection || 'scrape',
+        completedSections,
+        interruptedSection,
+        skippedSections
+      };
+      const skipped = skippedSections.length > 0 ? `; skipped: ${skippedSections.join(', ')}` : '';
+      result.dataIssues.unshift(`${SCRAPE_TIMEOUT}: time budget of ${Math.round(this.deadline.budgetMs / 1000)}s ran out during ${result.timeout.operation}${interruptedSection ? ` (${interruptedSection} is incomplete)` : ''}${skipped}`);
+    }
+    result.sections = sections.summary();
+    result.dataIssues.push(...normalizeResultDates(result));
+    result.provenance = summarizeProvenance(result);
+
+    result.qualityScore = ScraperUtils.calculateQualityScore(result);
+    console.log(`API extraction completed in ${Date.now() - startTime}ms with quality score: ${result.qualityScore}/100`);
+    return result;
+  }
+}
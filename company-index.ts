@@ -0,0 +1,190 @@
+import { createReadStream } from 'fs';
+import { basename } from 'path';
+import { createInterface } from 'readline';
+import { databaseService, IndexedCompany } from './database.js';
+import { normalizeCompanyNumber, normalizeCompanyName } from './company-number.js';
+
+// Ingestion of the Companies House bulk "basic company data" product
+// (http://download.companieshouse.gov.uk/en_output.html) into the company_index table.
+// The download is a zip of one or more CSV files - unzip first and ingest each CSV.
+// Lines are streamed, so the ~2.5GB full file never has to fit in memory.
+
+export interface CompanyIndexIngestOptions {
+  batchSize?: number;
+  maxRows?: number;
+  onProgress?: (summary: CompanyIndexIngestSummary) => void;
+}
+
+export interface CompanyIndexIngestSummary {
+  sourceFile: string;
+  rowsRead: number;
+  rowsWritten: number;
+  rowsSkipped: number;
+  batchesFailed: number;
+  durationMs: number;
+}
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+// Splits one CSV record (RFC 4180 quoting, "" escapes) into fields
+export function splitCsvRecord(record: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+    if (quoted) {
+      if (char === '"' && record[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+// Bulk data dates are DD/MM/YYYY
+export function parseBulkDate(value: string | undefined): string | undefined {
+  const match = (value || '').trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!match) return undefined;
+  return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+}
+
+// Maps one CSV row (keyed by trimmed header) to a company_index row; null when the row has no usable number
+export function toIndexedCompany(row: Record<string, string>, sourceFile?: string): IndexedCompany | null {
+  const value = (column: string) => (row[column] || '').trim() || undefined;
+
+  const companyNumber = normalizeCompanyNumber(value('CompanyNumber') || '');
+  const companyName = value('CompanyName');
+  if (!companyNumber || !companyName) return null;
+
+  // "62012 - Business and domestic software development"; "None Supplied" when empty
+  const sicEntries = [1, 2, 3, 4]
+    .map(index => value(`SICCode.SicText_${index}`))
+    .filter((entry): entry is string => !!entry && /^\d{4,5}\b/.test(entry));
+
+  const previousNames = Array.from({ length: 10 }, (_, index) => value(`PreviousName_${index + 1}.CompanyName`))
+    .filter((name): name is string => !!name);
+
+  return {
+    company_number: companyNumber,
+    company_name: companyName,
+    normalized_name: normalizeCompanyName(companyName),
+    company_status: value('CompanyStatus'),
+    company_category: value('CompanyCategory'),
+    country_of_origin: value('CountryOfOrigin'),
+    incorporation_date: parseBulkDate(value('IncorporationDate')),
+    dissolution_date: parseBulkDate(value('DissolutionDate')),
+    care_of: value('RegAddress.CareOf'),
+    po_box: value('RegAddress.POBox'),
+    address_line_1: value('RegAddress.AddressLine1'),
+    address_line_2: value('RegAddress.AddressLine2'),
+    post_town: value('RegAddress.PostTown')?.toUpperCase(),
+    county: value('RegAddress.County'),
+    country: value('RegAddress.Country'),
+    postcode: value('RegAddress.PostCode')?.toUpperCase(),
+    sic_codes: sicEntries.map(entry => entry.match(/^\d{4,5}/)![0].padStart(5, '0')),
+    sic_descriptions: sicEntries,
+    accounts_category: value('Accounts.AccountCategory'),
+    accounts_next_due: parseBulkDate(value('Accounts.NextDueDate')),
+    accounts_last_made_up: parseBulkDate(value('Accounts.LastMadeUpDate')),
+    confirmation_statement_next_due: parseBulkDate(value('ConfStmtNextDueDate')),
+    confirmation_statement_last_made_up: parseBulkDate(value('ConfStmtLastMadeUpDate')),
+    previous_names: previousNames,
+    source_file: sourceFile,
+    ingested_at: new Date().toISOString()
+  };
+}
+
+export async function ingestBasicCompanyData(filePath: string, options: CompanyIndexIngestOptions = {}): Promise<CompanyIndexIngestSummary> {
+  if (!databaseService.isAvailable()) {
+    throw new Error('Database service not available - set the Supabase credentials before ingesting');
+  }
+
+  const startTime = Date.now();
+  const batchSize = Math.max(1, options.batchSize || DEFAULT_BATCH_SIZE);
+  const summary: CompanyIndexIngestSummary = {
+    sourceFile: basename(filePath),
+    rowsRead: 0,
+    rowsWritten: 0,
+    rowsSkipped: 0,
+    batchesFailed: 0,
+    durationMs: 0
+  };
+
+  // Keyed by number: a batch must not upsert the same row twice
+  let batch = new Map<string, IndexedCompany>();
+  const flush = async () => {
+    if (batch.size === 0) return;
+    const rows = Array.from(batch.values());
+    batch = new Map();
+
+    const written = await databaseService.upsertIndexedCompanies(rows);
+    if (written === 0) summary.batchesFailed++;
+    summary.rowsWritten += written;
+    options.onProgress?.({ ...summary, durationMs: Date.now() - startTime });
+  };
+
+  const lines = createInterface({ input: createReadStream(filePath, { encoding: 'utf8' }), crlfDelay: Infinity });
+  let headers: string[] | null = null;
+  let pending = '';
+
+  try {
+    for await (const line of lines) {
+      // Quoted fields may span lines - keep reading until the quotes balance
+      pending = pending ? `${pending}\n${line}` : line;
+      if ((pending.match(/"/g) || []).length % 2 !== 0) continue;
+
+      const record = pending.replace(/^\uFEFF/, '');
+      pending = '';
+      if (!record.trim()) continue;
+
+      const fields = splitCsvRecord(record);
+      if (!headers) {
+        // Some header names carry a leading space (" RegAddress.AddressLine2")
+        headers = fields.map(header => header.trim());
+        continue;
+      }
+
+      summary.rowsRead++;
+      const row: Record<string, string> = {};
+      headers.forEach((header, index) => { row[header] = fields[index] ?? ''; });
+
+      const company = toIndexedCompany(row, summary.sourceFile);
+      if (company) {
+        batch.set(company.company_number, company);
+      } else {
+        summary.rowsSkipped++;
+      }
+
+      if (batch.size >= batchSize) await flush();
+      if (options.maxRows && summary.rowsRead >= options.maxRows) break;
+    }
+
+    await flush();
+  } finally {
+    lines.close();
+  }
+
+  if (!headers) {
+    throw new Error(`No CSV header found in ${filePath}`);
+  }
+
+  summary.durationMs = Date.now() - startTime;
+  console.log(`Ingested ${summary.rowsWritten}/${summary.rowsRead} companies from ${summary.sourceFile} in ${summary.durationMs}ms (${summary.rowsSkipped} skipped, ${summary.batchesFailed} failed batches)`);
+  return summary;
+}
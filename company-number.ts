@@ -0,0 +1,55 @@
+// Companies House registration number and company name helpers.
+// Numbers are 8 characters: either 8 digits (England & Wales) or a 2-letter prefix + 6 digits.
+export const COMPANY_NUMBER_PREFIXES = ['SC', 'NI', 'OC', 'SO', 'FC', 'LP'] as const;
+
+const COMPANY_NUMBER_PATTERN = new RegExp(`^(?:(${COMPANY_NUMBER_PREFIXES.join('|')})(\\d{1,6})|(\\d{1,8}))$`);
+
+/**
+ * Normalize user input to the canonical 8-character company number,
+ * e.g. "sc 12345" -> "SC012345", "1234567" -> "01234567".
+ * Returns null when the input does not look like a company number.
+ */
+export function normalizeCompanyNumber(input: string): string | null {
+  if (!input || typeof input !== 'string') return null;
+
+  const compact = input.replace(/\s+/g, '').toUpperCase();
+  const match = compact.match(COMPANY_NUMBER_PATTERN);
+  if (!match) return null;
+
+  if (match[1]) {
+    return `${match[1]}${match[2].padStart(6, '0')}`;
+  }
+  return match[3].padStart(8, '0');
+}
+
+export function isCompanyNumber(input: string): boolean {
+  return normalizeCompanyNumber(input) !== null;
+}
+
+const FULL_COMPANY_NUMBER_PATTERN = new RegExp(`^(?:(?:${COMPANY_NUMBER_PREFIXES.join('|')})\\d{6}|\\d{8})$`);
+
+/**
+ * The company number in free text that may also be a company name. Only the full 8-character
+ * form counts ("01234567", "SC123456"), so a name such as "3" or "1999" still goes to search.
+ */
+export function companyNumberFromName(input: string): string | null {
+  if (!input || typeof input !== 'string') return null;
+  const compact = input.replace(/\s+/g, '').toUpperCase();
+  return FULL_COMPANY_NUMBER_PATTERN.test(compact) ? compact : null;
+}
+
+/**
+ * Canonical form of a company name for exact-match comparisons,
+ * e.g. "The Widget Company Limited" -> "WIDGET COMPANY LTD".
+ */
+export function normalizeCompanyName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .replace(/\bPUBLIC LIMITED COMPANY\b/g, 'PLC')
+    .replace(/\bLIMITED\b/g, 'LTD')
+    .replace(/\bTHE\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
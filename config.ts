@@ -1,4 +1,6 @@
 import 'dotenv/config';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
 
 export interface ScrapingConfig {
   // Stagehand Configuration
@@ -6,13 +8,14 @@ export interface ScrapingConfig {
     env: 'LOCAL' | 'BROWSERBASE';
     modelName: string;
     enableCaching: boolean;
-    verbose: number;
+    // Stagehand log level
+    verbose: 0 | 1 | 2;
     domSettleTimeoutMs: number;
     selfHealing: boolean;
     apiKey?: string;
     projectId?: string;
   };
-  
+
   // Extraction Configuration
   extraction: {
     maxRetries: number;
@@ -22,7 +25,7 @@ export interface ScrapingConfig {
     enableRiskAssessment: boolean;
     strictValidation: boolean;
   };
-  
+
   // LLM Configuration
   llm: {
     provider: 'anthropic' | 'openai';
@@ -32,7 +35,7 @@ export interface ScrapingConfig {
     temperature: number;
     timeout: number;
   };
-  
+
   // Quality Thresholds
   quality: {
     minimumScoreForSummary: number;
@@ -41,37 +44,54 @@ export interface ScrapingConfig {
   };
 }
 
+// Shape of the config file and of per-request overrides
+export type ConfigOverrides = { [Section in keyof ScrapingConfig]?: Partial<ScrapingConfig[Section]> };
+
+type ConfigSection = keyof ScrapingConfig;
+type ConfigValue = string | number | boolean | null | undefined;
+
+export class ConfigError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid configuration: ${errors.join('; ')}`);
+    this.name = 'ConfigError';
+    this.errors = errors;
+  }
+}
+
 // Default configuration
 export const defaultConfig: ScrapingConfig = {
   stagehand: {
-    env: process.env.BROWSERBASE_API_KEY ? 'BROWSERBASE' : 'LOCAL',
+    env: 'LOCAL',
     modelName: 'claude-3-5-sonnet-20241022',
     enableCaching: true,
     verbose: 1,
-    domSettleTimeoutMs: 5000,
-    selfHealing: true,
-    apiKey: process.env.BROWSERBASE_API_KEY,
-    projectId: process.env.BROWSERBASE_PROJECT_ID
+    // Remote browsers need longer for the DOM to settle
+    domSettleTimeoutMs: 10000,
+    selfHealing: true
   },
-  
+
   extraction: {
     maxRetries: 3,
     retryDelay: 2000,
-    timeoutMs: 60000,
+    // End-to-end budget for one scrape - sections still running when it ends are cut short
+    timeoutMs: 300000,
     maxFilingsToExtract: 20,
     enableRiskAssessment: true,
     strictValidation: true
   },
-  
+
   llm: {
     provider: 'anthropic',
     model: 'claude-3-5-sonnet-20241022',
-    apiKey: process.env.ANTHROPIC_API_KEY!,
-    maxTokens: 3000,
-    temperature: 0.3,
-    timeout: 30000
+    apiKey: '',
+    // Business intelligence reports are long; low temperature keeps them factual
+    maxTokens: 8000,
+    temperature: 0.1,
+    timeout: 120000
   },
-  
+
   quality: {
     minimumScoreForSummary: 40,
     warningThreshold: 60,
@@ -79,17 +99,249 @@ export const defaultConfig: ScrapingConfig = {
   }
 };
 
+// Environment variables layered over the config file
+const ENV_VARIABLES: Array<{ name: string; section: ConfigSection; key: string; type: 'string' | 'number' | 'boolean' }> = [
+  { name: 'BROWSERBASE_API_KEY', section: 'stagehand', key: 'apiKey', type: 'string' },
+  { name: 'BROWSERBASE_PROJECT_ID', section: 'stagehand', key: 'projectId', type: 'string' },
+  { name: 'STAGEHAND_MODEL_NAME', section: 'stagehand', key: 'modelName', type: 'string' },
+  { name: 'STAGEHAND_VERBOSE', section: 'stagehand', key: 'verbose', type: 'number' },
+  { name: 'STAGEHAND_ENABLE_CACHING', section: 'stagehand', key: 'enableCaching', type: 'boolean' },
+  { name: 'DOM_SETTLE_TIMEOUT_MS', section: 'stagehand', key: 'domSettleTimeoutMs', type: 'number' },
+  { name: 'SCRAPE_MAX_RETRIES', section: 'extraction', key: 'maxRetries', type: 'number' },
+  { name: 'SCRAPE_RETRY_DELAY_MS', section: 'extraction', key: 'retryDelay', type: 'number' },
+  { name: 'SCRAPE_TIMEOUT_MS', section: 'extraction', key: 'timeoutMs', type: 'number' },
+  { name: 'ANTHROPIC_API_KEY', section: 'llm', key: 'apiKey', type: 'string' },
+  { name: 'SUMMARY_MODEL', section: 'llm', key: 'model', type: 'string' },
+  { name: 'SUMMARY_MAX_TOKENS', section: 'llm', key: 'maxTokens', type: 'number' },
+  { name: 'SUMMARY_TEMPERATURE', section: 'llm', key: 'temperature', type: 'number' },
+  { name: 'SUMMARY_TIMEOUT_MS', section: 'llm', key: 'timeout', type: 'number' },
+  { name: 'MIN_QUALITY_SCORE_FOR_SUMMARY', section: 'quality', key: 'minimumScoreForSummary', type: 'number' }
+];
+
+// Only settings that are safe to change for a single report - no credentials or browser environment
+export const REQUEST_OVERRIDABLE: Record<string, string[]> = {
+  stagehand: ['modelName', 'domSettleTimeoutMs'],
+  extraction: ['timeoutMs'],
+  llm: ['model', 'maxTokens', 'temperature'],
+  quality: ['minimumScoreForSummary']
+};
+
+const SECRETS: Array<[ConfigSection, string]> = [
+  ['stagehand', 'apiKey'],
+  ['stagehand', 'projectId'],
+  ['llm', 'apiKey']
+];
+
+export interface ConfigSources {
+  // Config file that was applied, if any
+  file: string | null;
+  // Environment variables that set a value
+  env: string[];
+}
+
+const isConfigSection = (name: string): name is ConfigSection => Object.hasOwn(defaultConfig, name);
+
+// Settings addressed by name (config file, environment, request overrides, secrets); callers check
+// the key and value type against defaultConfig before writing
+function readSetting(config: ScrapingConfig, section: ConfigSection, key: string): ConfigValue {
+  return (config[section] as Record<string, ConfigValue>)[key];
+}
+
+function writeSetting(config: ScrapingConfig, section: ConfigSection, key: string, value: ConfigValue): void {
+  (config[section] as Record<string, ConfigValue>)[key] = value;
+}
+
+const cloneConfig = (config: ScrapingConfig): ScrapingConfig => ({
+  stagehand: { ...config.stagehand },
+  extraction: { ...config.extraction },
+  llm: { ...config.llm },
+  quality: { ...config.quality }
+});
+
+// Copies known keys of matching type onto the config; anything else is reported as an error
+function applyOverrides(config: ScrapingConfig, overrides: any, source: string, allowed?: Record<string, string[]>): string[] {
+  const errors: string[] = [];
+  if (overrides === undefined || overrides === null) return errors;
+  if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return [`${source}: expected an object of config sections`];
+  }
+
+  Object.entries(overrides).forEach(([section, values]) => {
+    if (!isConfigSection(section) || (allowed && !allowed[section])) {
+      errors.push(`${source}: ${section} cannot be set here`);
+      return;
+    }
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      errors.push(`${source}: ${section} must be an object`);
+      return;
+    }
+
+    Object.entries(values).forEach(([key, value]) => {
+      const path = `${section}.${key}`;
+      const expectedType = typeof readSetting(defaultConfig, section, key);
+      const optionalString = SECRETS.some(([secretSection, secretKey]) => secretSection === section && secretKey === key);
+      if (!(key in defaultConfig[section]) && !optionalString) {
+        errors.push(`${source}: unknown setting ${path}`);
+      } else if (allowed && !allowed[section].includes(key)) {
+        errors.push(`${source}: ${path} cannot be set here`);
+      } else if (typeof value !== (optionalString ? 'string' : expectedType)) {
+        errors.push(`${source}: ${path} must be a ${optionalString ? 'string' : expectedType}`);
+      } else {
+        writeSetting(config, section, key, value as ConfigValue);
+      }
+    });
+  });
+
+  return errors;
+}
+
+function readConfigFile(path: string): any {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError([`config file ${path}: ${error.message}`]);
+  }
+}
+
+function applyEnvironment(config: ScrapingConfig, env: NodeJS.ProcessEnv, applied: string[]): string[] {
+  const errors: string[] = [];
+
+  ENV_VARIABLES.forEach(({ name, section, key, type }) => {
+    const raw = env[name];
+    if (raw === undefined || raw === '') return;
+
+    let value: string | number | boolean = raw;
+    if (type === 'number') {
+      value = parseFloat(raw);
+      if (!Number.isFinite(value)) {
+        errors.push(`${name} must be a number`);
+        return;
+      }
+    } else if (type === 'boolean') {
+      value = raw === 'true';
+    }
+    writeSetting(config, section, key, value);
+    applied.push(name);
+  });
+
+  // Remote browsers need both BrowserBase credentials
+  if (config.stagehand.apiKey && config.stagehand.projectId) {
+    config.stagehand.env = 'BROWSERBASE';
+  }
+
+  // Development vs Production settings
+  if (env.NODE_ENV === 'development') {
+    if (!env.STAGEHAND_VERBOSE) config.stagehand.verbose = 2;
+    config.extraction.strictValidation = false;
+  }
+
+  return errors;
+}
+
+export function validateConfig(config: ScrapingConfig): string[] {
+  const errors: string[] = [];
+  const inRange = (path: string, value: number, min: number, max: number, integer = true) => {
+    if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      errors.push(`${path} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}`);
+    }
+  };
+
+  if (!['LOCAL', 'BROWSERBASE'].includes(config.stagehand.env)) {
+    errors.push("stagehand.env must be 'LOCAL' or 'BROWSERBASE'");
+  }
+  if (config.stagehand.env === 'BROWSERBASE' && (!config.stagehand.apiKey || !config.stagehand.projectId)) {
+    errors.push('stagehand.env BROWSERBASE needs both BROWSERBASE_API_KEY and BROWSERBASE_PROJECT_ID');
+  }
+  if (!config.stagehand.modelName.trim()) errors.push('stagehand.modelName must not be empty');
+  if (![0, 1, 2].includes(config.stagehand.verbose)) errors.push('stagehand.verbose must be 0, 1 or 2');
+  inRange('stagehand.domSettleTimeoutMs', config.stagehand.domSettleTimeoutMs, 0, 120000);
+
+  inRange('extraction.maxRetries', config.extraction.maxRetries, 1, 10);
+  inRange('extraction.retryDelay', config.extraction.retryDelay, 0, 60000);
+  // Same range the API accepts for timeoutMs
+  inRange('extraction.timeoutMs', config.extraction.timeoutMs, 10000, 1800000);
+  inRange('extraction.maxFilingsToExtract', config.extraction.maxFilingsToExtract, 1, 10000);
+
+  // The summarizer only talks to the Anthropic Messages API
+  if (config.llm.provider !== 'anthropic') errors.push("llm.provider must be 'anthropic'");
+  if (!config.llm.model.trim()) errors.push('llm.model must not be empty');
+  inRange('llm.maxTokens', config.llm.maxTokens, 1, 64000);
+  inRange('llm.temperature', config.llm.temperature, 0, 1, false);
+  inRange('llm.timeout', config.llm.timeout, 1000, 600000);
+
+  inRange('quality.minimumScoreForSummary', config.quality.minimumScoreForSummary, 0, 100);
+  inRange('quality.warningThreshold', config.quality.warningThreshold, 0, 100);
+  inRange('quality.criticalThreshold', config.quality.criticalThreshold, 0, 100);
+  if (config.quality.criticalThreshold > config.quality.minimumScoreForSummary || config.quality.minimumScoreForSummary > config.quality.warningThreshold) {
+    errors.push('quality thresholds must satisfy criticalThreshold <= minimumScoreForSummary <= warningThreshold');
+  }
+
+  return errors;
+}
+
+// Defaults, then the config file (SCRAPER_CONFIG_FILE or ./scraper.config.json), then environment variables
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): { config: ScrapingConfig; sources: ConfigSources } {
+  const config = cloneConfig(defaultConfig);
+  const sources: ConfigSources = { file: null, env: [] };
+  const errors: string[] = [];
+
+  const filePath = env.SCRAPER_CONFIG_FILE ? resolve(env.SCRAPER_CONFIG_FILE) : resolve('scraper.config.json');
+  if (env.SCRAPER_CONFIG_FILE && !existsSync(filePath)) {
+    errors.push(`SCRAPER_CONFIG_FILE ${filePath} does not exist`);
+  } else if (existsSync(filePath)) {
+    errors.push(...applyOverrides(config, readConfigFile(filePath), `config file ${filePath}`));
+    sources.file = filePath;
+  }
+
+  errors.push(...applyEnvironment(config, env, sources.env));
+  errors.push(...validateConfig(config));
+
+  if (errors.length > 0) throw new ConfigError(errors);
+  return { config, sources };
+}
+
+let loaded: { config: ScrapingConfig; sources: ConfigSources } | null = null;
+
+// Process-wide effective config; read once, throws ConfigError when invalid
+export function getConfig(): ScrapingConfig {
+  if (!loaded) loaded = loadConfig();
+  return cloneConfig(loaded.config);
+}
+
+export function getConfigSources(): ConfigSources {
+  if (!loaded) loaded = loadConfig();
+  return { file: loaded.sources.file, env: [...loaded.sources.env] };
+}
+
+// The effective config with per-request overrides on top, limited to REQUEST_OVERRIDABLE
+export function resolveConfig(overrides?: ConfigOverrides): ScrapingConfig {
+  const config = getConfig();
+  const errors = applyOverrides(config, overrides, 'config', REQUEST_OVERRIDABLE);
+  errors.push(...validateConfig(config));
+  if (errors.length > 0) throw new ConfigError(errors);
+  return config;
+}
+
+// Safe to return from the API: credentials show only whether they are set
+export function redactConfig(config: ScrapingConfig): ScrapingConfig {
+  const redacted = cloneConfig(config);
+  SECRETS.forEach(([section, key]) => {
+    writeSetting(redacted, section, key, readSetting(redacted, section, key) ? '[redacted]' : null);
+  });
+  return redacted;
+}
+
 // Environment validation
 export function validateEnvironment(): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
-  
+
   // Check required environment variables
   if (!process.env.ANTHROPIC_API_KEY) {
     errors.push('ANTHROPIC_API_KEY is required');
   }
-  
+
   // Check Browserbase configuration if using remote
-  if (defaultConfig.stagehand.env === 'BROWSERBASE') {
+  if (process.env.BROWSERBASE_API_KEY || process.env.BROWSERBASE_PROJECT_ID) {
     if (!process.env.BROWSERBASE_API_KEY) {
       errors.push('BROWSERBASE_API_KEY is required when using BROWSERBASE environment');
     }
@@ -97,54 +349,18 @@ export function validateEnvironment(): { valid: boolean; errors: string[] } {
       errors.push('BROWSERBASE_PROJECT_ID is required when using BROWSERBASE environment');
     }
   }
-  
+
   // Validate API key format
   if (process.env.ANTHROPIC_API_KEY && !process.env.ANTHROPIC_API_KEY.startsWith('sk-ant-')) {
     errors.push('ANTHROPIC_API_KEY appears to be invalid (should start with sk-ant-)');
   }
-  
+
   return {
     valid: errors.length === 0,
     errors
   };
 }
 
-// Get environment-specific configuration
-export function getConfig(): ScrapingConfig {
-  const env = validateEnvironment();
-  
-  if (!env.valid) {
-    console.error('Environment validation failed:');
-    env.errors.forEach(error => console.error(`  - ${error}`));
-    process.exit(1);
-  }
-  
-  // Override defaults with environment variables where appropriate
-  const config = { ...defaultConfig };
-  
-  // Performance tuning based on environment
-  if (config.stagehand.env === 'LOCAL') {
-    // Local settings - more conservative
-    config.stagehand.domSettleTimeoutMs = 3000;
-    config.extraction.timeoutMs = 45000;
-  } else {
-    // Browserbase settings - can be more aggressive
-    config.stagehand.domSettleTimeoutMs = 5000;
-    config.extraction.timeoutMs = 60000;
-  }
-  
-  // Development vs Production settings
-  if (process.env.NODE_ENV === 'development') {
-    config.stagehand.verbose = 2;
-    config.extraction.strictValidation = false;
-  } else if (process.env.NODE_ENV === 'production') {
-    config.stagehand.verbose = 1;
-    config.extraction.strictValidation = true;
-  }
-  
-  return config;
-}
-
 // Logging configuration
 export const logConfig = {
   level: process.env.LOG_LEVEL || 'info',
@@ -153,4 +369,5 @@ export const logConfig = {
   enableRequestLogging: process.env.ENABLE_REQUEST_LOGGING !== 'false'
 };
 
-export default getConfig();
\ No newline at end of file
+// Built-in defaults only - getConfig() validates and can throw, so it is not run on import
+export default defaultConfig;
@@ -1,6 +1,7 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import 'dotenv/config';
+import { normalizeCompanyNumber, normalizeCompanyName, companyNumberFromName } from './company-number.js';
 
 // Database types matching our schema
 export interface CompanyReport {
@@ -51,6 +52,52 @@ export interface GetReportsRequest {
   dateTo?: string;
 }
 
+// Row of the company_index table, loaded from the Companies House bulk "basic company data" CSV
+export interface IndexedCompany {
+  company_number: string;
+  company_name: string;
+  normalized_name: string;
+  company_status?: string;
+  company_category?: string;
+  country_of_origin?: string;
+  incorporation_date?: string;
+  dissolution_date?: string;
+  care_of?: string;
+  po_box?: string;
+  address_line_1?: string;
+  address_line_2?: string;
+  post_town?: string;
+  county?: string;
+  country?: string;
+  postcode?: string;
+  sic_codes: string[];
+  sic_descriptions: string[];
+  accounts_category?: string;
+  accounts_next_due?: string;
+  accounts_last_made_up?: string;
+  confirmation_statement_next_due?: string;
+  confirmation_statement_last_made_up?: string;
+  previous_names: string[];
+  source_file?: string;
+  ingested_at?: string;
+}
+
+export interface CompanyIndexQuery {
+  name?: string;
+  status?: string;
+  sicCode?: string;
+  postcode?: string;
+  postTown?: string;
+  accountsDueBefore?: string;
+  accountsDueAfter?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// User input in a LIKE pattern matches literally: % and _ are escaped, and * is dropped because
+// PostgREST reads it as %
+const escapeLikePattern = (value: string) => value.replace(/\*/g, '').replace(/[\\%_]/g, '\\$&');
+
 class DatabaseService {
   private supabase: SupabaseClient;
   private isEnabled: boolean;
@@ -127,8 +174,8 @@ class DatabaseService {
     if (!this.isEnabled) return null;
 
     try {
-      // Check if it's a company number (8 digits) or company name
-      const isCompanyNumber = /^\d{8}$/.test(companyIdentifier);
+      // Check if it's a company number (8 digits or prefixed, e.g. SC123456) or company name
+      const companyNumber = companyNumberFromName(companyIdentifier);
       
       let query = this.supabase
         .from('company_reports')
@@ -137,8 +184,12 @@ class DatabaseService {
         .order('extraction_timestamp', { ascending: false })
         .limit(1);
 
-      if (isCompanyNumber) {
-        query = query.eq('company_number', companyIdentifier);
+      // Names that resolve to exactly one company in the bulk index are looked up by number instead
+      const indexedCompany = companyNumber ? null : await this.resolveIndexedCompanyName(companyIdentifier);
+      const lookupNumber = companyNumber || indexedCompany?.company_number;
+
+      if (lookupNumber) {
+        query = query.eq('company_number', lookupNumber);
       } else {
         // Search by company name (case insensitive)
         query = query.ilike('company_name', `%${companyIdentifier}%`);
@@ -378,6 +429,166 @@ class DatabaseService {
       return [];
     }
   }
+
+  /**
+   * Strategy telemetry stored with recent reports - only the telemetry part of raw_data is fetched
+   */
+  async getStrategyTelemetry(request: { dateFrom?: string; dateTo?: string; limit?: number }): Promise<Array<{ id: string; company_number: string; extraction_timestamp: string; telemetry: any }>> {
+    if (!this.isEnabled) return [];
+
+    try {
+      let query = this.supabase
+        .from('company_reports')
+        .select('id, company_number, extraction_timestamp, telemetry:raw_data->telemetry')
+        .eq('status', 'completed')
+        .order('extraction_timestamp', { ascending: false })
+        .limit(request.limit || 200);
+
+      if (request.dateFrom) {
+        query = query.gte('extraction_timestamp', request.dateFrom);
+      }
+
+      if (request.dateTo) {
+        query = query.lte('extraction_timestamp', request.dateTo);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data as any[]) || [];
+    } catch (error) {
+      console.error('Error fetching strategy telemetry:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Insert or refresh bulk company index rows (keyed by company number)
+   */
+  async upsertIndexedCompanies(companies: IndexedCompany[]): Promise<number> {
+    if (!this.isEnabled || companies.length === 0) return 0;
+
+    try {
+      const { error } = await this.supabase
+        .from('company_index')
+        .upsert(companies, { onConflict: 'company_number' });
+
+      if (error) throw error;
+      return companies.length;
+    } catch (error) {
+      console.error('Error upserting company index rows:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Look up a single company in the bulk index by number
+   */
+  async getIndexedCompany(companyNumber: string): Promise<IndexedCompany | null> {
+    if (!this.isEnabled) return null;
+
+    const normalizedNumber = normalizeCompanyNumber(companyNumber);
+    if (!normalizedNumber) return null;
+
+    try {
+      const { data, error } = await this.supabase
+        .from('company_index')
+        .select('*')
+        .eq('company_number', normalizedNumber)
+        .limit(1);
+
+      if (error) throw error;
+      return data && data.length > 0 ? data[0] : null;
+    } catch (error) {
+      console.error('Error fetching indexed company:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve a company name to a single indexed company. Only exact (normalized) name matches count;
+   * when several companies share the name the single active one wins, otherwise the name is ambiguous.
+   */
+  async resolveIndexedCompanyName(companyName: string): Promise<IndexedCompany | null> {
+    if (!this.isEnabled) return null;
+
+    const normalizedName = normalizeCompanyName(companyName);
+    if (!normalizedName) return null;
+
+    try {
+      const { data, error } = await this.supabase
+        .from('company_index')
+        .select('*')
+        .eq('normalized_name', normalizedName)
+        .limit(10);
+
+      if (error) throw error;
+      if (!data || data.length === 0) return null;
+      if (data.length === 1) return data[0];
+
+      const active = data.filter(company => company.company_status === 'Active');
+      return active.length === 1 ? active[0] : null;
+    } catch (error) {
+      console.error('Error resolving company name from index:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Screen the bulk company index by name, status, SIC code, address and accounts due dates
+   */
+  async searchCompanyIndex(request: CompanyIndexQuery): Promise<IndexedCompany[]> {
+    if (!this.isEnabled) return [];
+
+    try {
+      let query = this.supabase
+        .from('company_index')
+        .select('*')
+        .order('company_name', { ascending: true });
+
+      if (request.name) {
+        query = query.ilike('normalized_name', `%${normalizeCompanyName(request.name)}%`);
+      }
+
+      // Case-insensitive but exact - the bulk data mixes "Active" and "Active - Proposal to Strike off"
+      if (request.status) {
+        query = query.ilike('company_status', escapeLikePattern(request.status));
+      }
+
+      if (request.sicCode) {
+        query = query.contains('sic_codes', [request.sicCode]);
+      }
+
+      if (request.postcode) {
+        query = query.like('postcode', `${escapeLikePattern(request.postcode.toUpperCase())}%`);
+      }
+
+      // Post towns are stored upper case at ingest
+      if (request.postTown) {
+        query = query.eq('post_town', request.postTown.trim().toUpperCase());
+      }
+
+      if (request.accountsDueBefore) {
+        query = query.lte('accounts_next_due', request.accountsDueBefore);
+      }
+
+      if (request.accountsDueAfter) {
+        query = query.gte('accounts_next_due', request.accountsDueAfter);
+      }
+
+      const limit = request.limit || 50;
+      const offset = request.offset || 0;
+      query = query.range(offset, offset + limit - 1);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error searching company index:', error);
+      return [];
+    }
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,168 @@
+import { ScrapingResult } from './scraper.js';
+
+// Date normalization for scraped values. Companies House shows dates as "5 Mar 2024" (filing history),
+// "5 March 2024" (elsewhere) and month-only dates of birth ("December 1975"); the API uses ISO.
+// Originals are never rewritten - the ISO form is stored next to them in `normalizedDates`.
+
+export type DatePrecision = 'day' | 'month' | 'year';
+
+export interface NormalizedDate {
+  original: string;
+  // ISO 8601 at the precision of the source: "2024-03-05", "1975-12" or "1975"; null when unparseable
+  iso: string | null;
+  precision?: DatePrecision;
+}
+
+export type NormalizedDates = Record<string, NormalizedDate>;
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Full names and the abbreviations that appear in scraped text ("Sept" as well as "Sep"), month number from 1
+const MONTHS = new Map<string, number>([
+  ...MONTH_NAMES.map((name, index) => [name, index + 1] as [string, number]),
+  ...MONTH_NAMES.map((name, index) => [name.slice(0, 3), index + 1] as [string, number]),
+  ['sept', 9]
+]);
+
+// Leading words that appear in scraped cells, e.g. "Appointed on 1 January 2020" or "Born December 1975"
+const DATE_PREFIX = /^(?:(?:appointed|resigned|notified|ceased|created|delivered|satisfied|withdrawn|incorporated|dissolved|born|filed)(?:\s+on)?|on|date of birth:?)\s+/i;
+
+const pad = (value: number | string) => String(value).padStart(2, '0');
+
+// 0 for anything that is not a month name, e.g. "Marketing"
+function monthNumber(name: string): number {
+  return MONTHS.get(name.toLowerCase()) ?? 0;
+}
+
+function isValidDay(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+export function parseDate(value: string | undefined | null): { iso: string; precision: DatePrecision } | null {
+  const text = (value || '').replace(/\s+/g, ' ').trim().replace(DATE_PREFIX, '');
+  if (!text) return null;
+
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (match) {
+    return isValidDay(+match[1], +match[2], +match[3]) ? { iso: `${match[1]}-${match[2]}-${match[3]}`, precision: 'day' } : null;
+  }
+
+  match = text.match(/^(\d{4})-(\d{2})$/);
+  if (match) {
+    return +match[2] >= 1 && +match[2] <= 12 ? { iso: text, precision: 'month' } : null;
+  }
+
+  match = text.match(/^(\d{1,2})(?:st|nd|rd|th)? ([A-Za-z]+)\.?,? (\d{4})$/);
+  if (match) {
+    const month = monthNumber(match[2]);
+    if (month === 0 || !isValidDay(+match[3], month, +match[1])) return null;
+    return { iso: `${match[3]}-${pad(month)}-${pad(match[1])}`, precision: 'day' };
+  }
+
+  // UK numeric order (day first)
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) {
+    if (!isValidDay(+match[3], +match[2], +match[1])) return null;
+    return { iso: `${match[3]}-${pad(match[2])}-${pad(match[1])}`, precision: 'day' };
+  }
+
+  match = text.match(/^([A-Za-z]+)\.? (\d{4})$/);
+  if (match) {
+    const month = monthNumber(match[1]);
+    return month > 0 ? { iso: `${match[2]}-${pad(month)}`, precision: 'month' } : null;
+  }
+
+  match = text.match(/^(\d{4})$/);
+  if (match) return { iso: text, precision: 'year' };
+
+  return null;
+}
+
+export function normalizeDate(value: string): NormalizedDate {
+  const parsed = parseDate(value);
+  return parsed ? { original: value, ...parsed } : { original: value, iso: null };
+}
+
+// Milliseconds for comparisons; partial dates compare as the start of their month/year. NaN when unparseable.
+export function dateToTime(value: string | undefined | null): number {
+  const parsed = parseDate(value);
+  if (!parsed) return NaN;
+  const [year, month = '01', day = '01'] = parsed.iso.split('-');
+  return Date.UTC(+year, +month - 1, +day);
+}
+
+// Prefer the stored ISO value, fall back to parsing the original (older stored reports have no normalizedDates)
+export function recordDateToTime(record: { normalizedDates?: NormalizedDates } | undefined, field: string, original?: string): number {
+  const iso = record?.normalizedDates?.[field]?.iso;
+  return dateToTime(iso || original);
+}
+
+// Adds normalizedDates for the given fields and returns "path: value" for anything unparseable
+function normalizeRecordDates<T extends { normalizedDates?: NormalizedDates }>(record: T | undefined, fields: (keyof T & string)[], path: string): string[] {
+  if (!record) return [];
+
+  const unparseable: string[] = [];
+  const normalized: NormalizedDates = {};
+
+  fields.forEach(field => {
+    const value = record[field];
+    if (typeof value !== 'string' || !value.trim()) return;
+    normalized[field] = normalizeDate(value);
+    if (!normalized[field].iso) unparseable.push(`${path}.${field} "${value}"`);
+  });
+
+  if (Object.keys(normalized).length > 0) {
+    record.normalizedDates = normalized;
+  }
+  return unparseable;
+}
+
+// Normalizes every date field in a result in place. Returns one data issue per section with unparseable dates.
+export function normalizeResultDates(result: ScrapingResult): string[] {
+  const sections: Record<string, string[]> = {};
+  const collect = (section: string, values: string[]) => {
+    if (values.length > 0) sections[section] = [...(sections[section] || []), ...values];
+  };
+
+  collect('overview', normalizeRecordDates(result.overview, ['incorporationDate'], 'overview'));
+
+  result.filing?.filings?.forEach((filing, index) => {
+    collect('filing history', normalizeRecordDates(filing, ['date'], `filings[${index}]`));
+  });
+
+  result.people?.officers?.forEach((officer, index) => {
+    collect('officers', normalizeRecordDates(officer, ['appointmentDate', 'resignationDate', 'dateOfBirth'], `officers[${index}]`));
+    officer.appointmentHistory?.appointments.forEach((appointment, appointmentIndex) => {
+      collect('officers', normalizeRecordDates(appointment, ['appointedOn', 'resignedOn'], `officers[${index}].appointments[${appointmentIndex}]`));
+    });
+  });
+
+  result.psc?.persons?.forEach((person, index) => {
+    collect('PSC', normalizeRecordDates(person, ['notifiedOn', 'ceasedOn', 'dateOfBirth'], `psc.persons[${index}]`));
+  });
+  result.psc?.statements?.forEach((statement, index) => {
+    collect('PSC', normalizeRecordDates(statement, ['notifiedOn', 'withdrawnOn'], `psc.statements[${index}]`));
+  });
+
+  result.charges?.charges?.forEach((charge, index) => {
+    collect('charges', normalizeRecordDates(charge, ['createdOn', 'deliveredOn', 'satisfiedOn'], `charges[${index}]`));
+    charge.documents?.forEach((document, documentIndex) => {
+      collect('charges', normalizeRecordDates(document, ['date'], `charges[${index}].documents[${documentIndex}]`));
+    });
+  });
+
+  result.insolvency?.cases?.forEach((insolvencyCase, index) => {
+    insolvencyCase.dates.forEach((entry, dateIndex) => {
+      collect('insolvency', normalizeRecordDates(entry, ['date'], `insolvency.cases[${index}].dates[${dateIndex}]`));
+    });
+    insolvencyCase.practitioners.forEach((practitioner, practitionerIndex) => {
+      collect('insolvency', normalizeRecordDates(practitioner, ['appointedOn', 'ceasedToActOn'], `insolvency.cases[${index}].practitioners[${practitionerIndex}]`));
+    });
+  });
+
+  return Object.entries(sections).map(([section, values]) => {
+    const examples = values.slice(0, 5).join(', ');
+    return `${values.length} unparseable date${values.length === 1 ? '' : 's'} in ${section}: ${examples}${values.length > 5 ? ', ...' : ''}`;
+  });
+}
@@ -0,0 +1,91 @@
+// End-to-end time budget for one scrape. The scraper creates one Deadline and hands the same
+// instance to every extractor, like the strategy telemetry; start() arms it per scrape.
+
+export const SCRAPE_TIMEOUT = 'SCRAPE_TIMEOUT';
+
+export class DeadlineExceededError extends Error {
+  operation: string;
+  budgetMs: number;
+
+  constructor(operation: string, budgetMs: number) {
+    super(`${SCRAPE_TIMEOUT}: time budget of ${Math.round(budgetMs / 1000)}s exhausted during ${operation}`);
+    this.name = 'DeadlineExceededError';
+    this.operation = operation;
+    this.budgetMs = budgetMs;
+  }
+}
+
+export interface ScrapeTimeout {
+  budgetMs: number;
+  elapsedMs: number;
+  // What was running when the budget ran out
+  operation: string;
+  completedSections: string[];
+  // Started but cut short - holds only what was read before the deadline
+  interruptedSection?: string;
+  skippedSections: string[];
+}
+
+export class Deadline {
+  private startedAt = Date.now();
+  private budget = Infinity;
+  private expiredDuring: string | null = null;
+
+  start(budgetMs: number): void {
+    this.startedAt = Date.now();
+    this.budget = budgetMs > 0 ? budgetMs : Infinity;
+    this.expiredDuring = null;
+  }
+
+  get budgetMs(): number {
+    return this.budget;
+  }
+
+  get elapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  remainingMs(): number {
+    return Math.max(0, this.budget - this.elapsedMs);
+  }
+
+  get expired(): boolean {
+    return this.remainingMs() === 0;
+  }
+
+  // The operation that first hit the deadline, for the timeout issue
+  get operation(): string | null {
+    return this.expiredDuring;
+  }
+
+  check(operation: string): void {
+    if (this.expired) throw this.exceeded(operation);
+  }
+
+  // Settles with the work or rejects when the budget runs out, whichever is first. The work itself
+  // is not cancelled (Stagehand has no cancellation) - it ends when the browser is closed.
+  async race<T>(operation: string, work: () => Promise<T>): Promise<T> {
+    this.check(operation);
+    if (this.budget === Infinity) return work();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(this.exceeded(operation)), this.remainingMs());
+    });
+    try {
+      return await Promise.race([work(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Waits at most until the deadline
+  async sleep(ms: number): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, Math.min(ms, this.remainingMs())));
+  }
+
+  private exceeded(operation: string): DeadlineExceededError {
+    if (!this.expiredDuring) this.expiredDuring = operation;
+    return new DeadlineExceededError(operation, this.budget);
+  }
+}
@@ -0,0 +1,292 @@
+import { promises as fs } from 'fs';
+import { createHash, randomBytes } from 'crypto';
+import path from 'path';
+import 'dotenv/config';
+import { Deadline } from './deadline.js';
+
+// Minimal shape of a filing document link - matches DocumentLink in scraper.ts
+export interface FetchableDocumentLink {
+  linkText: string;
+  linkType: string;
+  url: string;
+  pageCount?: string;
+  sha256?: string;
+  sizeBytes?: number;
+  mimeType?: string;
+  fetchedAt?: string;
+  fetchError?: string;
+}
+
+export interface StoredBlob {
+  data: Buffer;
+  mimeType: string;
+  sizeBytes: number;
+  storedAt: string;
+}
+
+export interface BlobMetadata {
+  sha256: string;
+  mimeType: string;
+  sizeBytes: number;
+  storedAt: string;
+  sourceUrl?: string;
+}
+
+// Content-addressed storage: blobs are keyed by their SHA-256 hash.
+// Implement this interface to store documents somewhere other than local disk (S3, Supabase storage...).
+export interface BlobStore {
+  readonly name: string;
+  has(sha256: string): Promise<boolean>;
+  put(sha256: string, data: Buffer, metadata: BlobMetadata): Promise<void>;
+  get(sha256: string): Promise<StoredBlob | null>;
+}
+
+export interface DocumentSelection {
+  linkTypes?: string[];       // e.g. ['PDF', 'iXBRL']
+  filingTypes?: string[];     // form code, category or description words, e.g. ['AA', 'Accounts', 'Charge Registration']
+  maxDocuments?: number;
+}
+
+export interface DocumentFetcherOptions {
+  concurrency: number;
+  maxBytes: number;
+  timeoutMs: number;
+}
+
+export interface DocumentFetchSummary {
+  store: string;
+  requested: number;
+  downloaded: number;
+  alreadyStored: number;
+  failed: number;
+  totalBytes: number;
+}
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+const COMPANIES_HOUSE_BASE_URL = 'https://find-and-update.company-information.service.gov.uk';
+
+export class LocalBlobStore implements BlobStore {
+  readonly name = 'local';
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  private blobPath(sha256: string): string {
+    if (!SHA256_PATTERN.test(sha256)) {
+      throw new Error(`Invalid SHA-256 hash: ${sha256}`);
+    }
+    // Fan out by hash prefix so no directory gets too large
+    return path.join(this.rootDir, sha256.slice(0, 2), sha256.slice(2, 4), sha256);
+  }
+
+  async has(sha256: string): Promise<boolean> {
+    try {
+      await fs.access(this.blobPath(sha256));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async put(sha256: string, data: Buffer, metadata: BlobMetadata): Promise<void> {
+    const blobPath = this.blobPath(sha256);
+    await fs.mkdir(path.dirname(blobPath), { recursive: true });
+
+    // Write to a unique temporary file first so a crash never leaves a truncated blob under its hash.
+    // Concurrent writes of the same content are harmless - the last rename wins with identical bytes.
+    const tempPath = `${blobPath}.${randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, blobPath);
+    await fs.writeFile(`${blobPath}.json`, JSON.stringify(metadata, null, 2));
+  }
+
+  async get(sha256: string): Promise<StoredBlob | null> {
+    try {
+      const blobPath = this.blobPath(sha256);
+      const data = await fs.readFile(blobPath);
+      let metadata: Partial<BlobMetadata> = {};
+      try {
+        metadata = JSON.parse(await fs.readFile(`${blobPath}.json`, 'utf-8'));
+      } catch {
+        // Metadata is advisory - the blob itself is the evidence
+      }
+      return {
+        data,
+        mimeType: metadata.mimeType || detectMimeType(data),
+        sizeBytes: data.length,
+        storedAt: metadata.storedAt || ''
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+export function detectMimeType(data: Buffer, contentType?: string | null): string {
+  const declared = contentType?.split(';')[0].trim().toLowerCase();
+  if (declared && declared !== 'application/octet-stream' && declared !== 'binary/octet-stream') {
+    return declared;
+  }
+
+  const head = data.subarray(0, 512).toString('latin1');
+  if (head.startsWith('%PDF')) return 'application/pdf';
+  if (/^\s*(<\?xml|<html)/i.test(head) && /xmlns:ix=|ix:header|<ix:/i.test(data.subarray(0, 65536).toString('utf-8'))) {
+    return 'application/xhtml+xml';
+  }
+  if (/^\s*<\?xml/i.test(head)) return 'application/xml';
+  if (/^\s*<(!doctype html|html)/i.test(head)) return 'text/html';
+  return 'application/octet-stream';
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The website's type column holds form codes (AA, CS01) while callers usually ask for a category
+// ("Accounts"), so a filing type matches the form code exactly or whole words of the category or description
+function matchesFilingType(filing: { type: string; description?: string }, filingType: string, category: string): boolean {
+  const wanted = filingType.trim().toLowerCase();
+  if (!wanted) return false;
+  if ((filing.type || '').trim().toLowerCase() === wanted) return true;
+  const words = new RegExp(`\\b${escapeRegExp(wanted).replace(/\s+/g, '\\s+')}\\b`, 'i');
+  return words.test(category) || words.test(filing.description || '');
+}
+
+// categorize maps a description to a category such as "Company Accounts" (ScraperUtils.categorizeFilingType)
+export function selectDocuments<T extends { type: string; description?: string; documentLinks: FetchableDocumentLink[] }>(
+  filings: T[],
+  selection: DocumentSelection = {},
+  categorize: (description: string) => string = () => ''
+): FetchableDocumentLink[] {
+  const linkTypes = (selection.linkTypes || ['PDF', 'iXBRL']).map(type => type.toLowerCase());
+  const filingTypes = selection.filingTypes;
+
+  const selected = filings
+    .filter(filing => !filingTypes || filingTypes.some(type => matchesFilingType(filing, type, categorize(filing.description || ''))))
+    .flatMap(filing => filing.documentLinks || [])
+    .filter(link => link.url && linkTypes.includes(link.linkType.toLowerCase()));
+
+  return selected.slice(0, selection.maxDocuments ?? 50);
+}
+
+export class DocumentFetcher {
+  private store: BlobStore;
+  private options: DocumentFetcherOptions;
+
+  constructor(store: BlobStore, options: Partial<DocumentFetcherOptions> = {}) {
+    this.store = store;
+    this.options = {
+      concurrency: options.concurrency ?? 3,
+      maxBytes: options.maxBytes ?? 25 * 1024 * 1024,
+      timeoutMs: options.timeoutMs ?? 60000
+    };
+  }
+
+  getStore(): BlobStore {
+    return this.store;
+  }
+
+  // Downloads each link, stores it by hash and records hash, size and MIME type on the link itself.
+  // Workers stop taking links when the deadline expires and leave unfinished links untouched.
+  async fetchAll(links: FetchableDocumentLink[], deadline: Deadline = new Deadline()): Promise<DocumentFetchSummary> {
+    const summary: DocumentFetchSummary = {
+      store: this.store.name,
+      requested: links.length,
+      downloaded: 0,
+      alreadyStored: 0,
+      failed: 0,
+      totalBytes: 0
+    };
+
+    console.log(`Fetching ${links.length} documents (concurrency ${this.options.concurrency}, max ${this.options.maxBytes} bytes each)...`);
+
+    let nextIndex = 0;
+    const worker = async () => {
+      while (nextIndex < links.length && !deadline.expired) {
+        const link = links[nextIndex++];
+        try {
+          const stored = await this.fetchOne(link, deadline);
+          summary.totalBytes += link.sizeBytes || 0;
+          if (stored) summary.downloaded++;
+          else summary.alreadyStored++;
+        } catch (error) {
+          if (deadline.expired) return;
+          link.fetchError = error.message;
+          summary.failed++;
+          console.warn(`Document fetch failed for ${link.url}:`, error.message);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.options.concurrency, links.length) }, () => worker()));
+    if (deadline.expired) {
+      console.log(`Document fetch stopped by the time budget after ${summary.downloaded + summary.alreadyStored + summary.failed} of ${links.length} documents`);
+    }
+
+    console.log(`Document fetch completed: ${summary.downloaded} downloaded, ${summary.alreadyStored} already stored, ${summary.failed} failed`);
+    return summary;
+  }
+
+  // Returns true when a new blob was written, false when the content was already in the store
+  private async fetchOne(link: FetchableDocumentLink, deadline: Deadline): Promise<boolean> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), Math.min(this.options.timeoutMs, deadline.remainingMs()));
+
+    try {
+      const response = await fetch(new URL(link.url, COMPANIES_HOUSE_BASE_URL).toString(), { signal: controller.signal, redirect: 'follow' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const declaredLength = parseInt(response.headers.get('content-length') || '0');
+      if (declaredLength > this.options.maxBytes) {
+        controller.abort();
+        throw new Error(`Document too large (${declaredLength} bytes, limit ${this.options.maxBytes})`);
+      }
+
+      // Count bytes while streaming - content-length is not always present
+      const chunks: Buffer[] = [];
+      let received = 0;
+      if (response.body) {
+        for await (const chunk of response.body as any) {
+          received += chunk.length;
+          if (received > this.options.maxBytes) {
+            controller.abort();
+            throw new Error(`Document exceeded size limit of ${this.options.maxBytes} bytes`);
+          }
+          chunks.push(Buffer.from(chunk));
+        }
+      }
+
+      const data = Buffer.concat(chunks);
+      const sha256 = createHash('sha256').update(data).digest('hex');
+      const mimeType = detectMimeType(data, response.headers.get('content-type'));
+      const fetchedAt = new Date().toISOString();
+
+      // The scrape may already have returned this link's result
+      deadline.check('document download');
+      link.sha256 = sha256;
+      link.sizeBytes = data.length;
+      link.mimeType = mimeType;
+      link.fetchedAt = fetchedAt;
+      delete link.fetchError;
+
+      if (await this.store.has(sha256)) {
+        return false;
+      }
+
+      await this.store.put(sha256, data, { sha256, mimeType, sizeBytes: data.length, storedAt: fetchedAt, sourceUrl: link.url });
+      return true;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Default store and fetcher, configured from the environment
+export const documentStore: BlobStore = new LocalBlobStore(process.env.DOCUMENT_STORE_DIR || './document-store');
+
+export const documentFetcher = new DocumentFetcher(documentStore, {
+  concurrency: parseInt(process.env.DOCUMENT_FETCH_CONCURRENCY || '3'),
+  maxBytes: parseInt(process.env.MAX_DOCUMENT_BYTES || String(25 * 1024 * 1024))
+});
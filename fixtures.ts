@@ -0,0 +1,102 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JSDOM } from 'jsdom';
+
+const COMPANIES_HOUSE_BASE_URL = 'https://find-and-update.company-information.service.gov.uk';
+
+export interface FixtureSet {
+  directory: string;
+  companyNumber?: string;
+  filingHistoryPages: FixturePage[];
+  officersPages: FixturePage[];
+}
+
+// Offline stand-in for the Stagehand page, backed by a saved Companies House HTML capture.
+// Only DOM evaluation is supported - navigation and LLM calls throw so that replay
+// exercises exactly the same code paths as the Direct DOM strategies.
+export class FixturePage {
+  private dom: JSDOM;
+  private sourceFile: string;
+
+  constructor(html: string, url: string, sourceFile: string = 'inline') {
+    this.dom = new JSDOM(html, { url, runScripts: 'outside-only' });
+    this.sourceFile = sourceFile;
+  }
+
+  static async fromFile(filePath: string, url: string): Promise<FixturePage> {
+    const html = await fs.readFile(filePath, 'utf-8');
+    return new FixturePage(html, url, filePath);
+  }
+
+  url(): string {
+    return this.dom.window.location.href;
+  }
+
+  getSourceFile(): string {
+    return this.sourceFile;
+  }
+
+  async evaluate<T>(pageFunction: (arg?: any) => T | Promise<T>, arg?: any): Promise<T> {
+    // Serialize the function the same way Playwright does, so anything that accidentally
+    // relies on Node-side closures fails here just like it would in the browser
+    const serializedArg = arg === undefined ? undefined : JSON.parse(JSON.stringify(arg));
+    const browserFunction = this.dom.window.eval(`(${pageFunction.toString()})`) as (arg?: any) => T | Promise<T>;
+    return await browserFunction(serializedArg);
+  }
+
+  async goto(url: string): Promise<void> {
+    throw new Error(`Fixture replay cannot navigate (requested ${url})`);
+  }
+
+  async act(instruction: string): Promise<void> {
+    throw new Error(`page.act is not available in fixture replay mode: ${instruction}`);
+  }
+
+  async extract(options: any): Promise<any> {
+    throw new Error('page.extract is not available in fixture replay mode');
+  }
+
+  close(): void {
+    this.dom.window.close();
+  }
+}
+
+// Fixture directories hold captures named "filing-history-<page>.html" and "officers-<page>.html"
+// (a bare "filing-history.html" / "officers.html" counts as page 1). An optional
+// "company.json" with { "companyNumber": "..." } is used to rebuild realistic page URLs.
+export async function loadFixtureSet(directory: string): Promise<FixtureSet> {
+  const entries = await fs.readdir(directory);
+
+  let companyNumber: string | undefined;
+  if (entries.includes('company.json')) {
+    const metadata = JSON.parse(await fs.readFile(path.join(directory, 'company.json'), 'utf-8'));
+    companyNumber = metadata.companyNumber;
+  }
+
+  const collectPages = async (section: 'filing-history' | 'officers'): Promise<FixturePage[]> => {
+    const pattern = new RegExp(`^${section}(?:-(\\d+))?\\.html?$`, 'i');
+    const files = entries
+      .map(file => ({ file, match: file.match(pattern) }))
+      .filter(entry => entry.match)
+      .map(entry => ({ file: entry.file, pageNumber: parseInt(entry.match![1] || '1') }))
+      .sort((a, b) => a.pageNumber - b.pageNumber);
+
+    const pages: FixturePage[] = [];
+    for (const { file, pageNumber } of files) {
+      const sectionUrl = `${COMPANIES_HOUSE_BASE_URL}/company/${companyNumber || 'FIXTURE'}/${section}`;
+      const url = pageNumber > 1 ? `${sectionUrl}?page=${pageNumber}` : sectionUrl;
+      pages.push(await FixturePage.fromFile(path.join(directory, file), url));
+    }
+    return pages;
+  };
+
+  const fixtureSet: FixtureSet = {
+    directory,
+    companyNumber,
+    filingHistoryPages: await collectPages('filing-history'),
+    officersPages: await collectPages('officers')
+  };
+
+  console.log(`Loaded fixture set from ${directory}: ${fixtureSet.filingHistoryPages.length} filing history page(s), ${fixtureSet.officersPages.length} officers page(s)`);
+  return fixtureSet;
+}
@@ -0,0 +1,34 @@
+import { ingestBasicCompanyData } from './company-index.js';
+
+// Usage: npm run ingest-company-data -- <BasicCompanyData.csv> [more.csv ...]
+const files = process.argv.slice(2);
+
+if (files.length === 0) {
+  console.error('Usage: npm run ingest-company-data -- <BasicCompanyData.csv> [more.csv ...]');
+  process.exit(1);
+}
+
+let failed = false;
+
+for (const file of files) {
+  try {
+    const summary = await ingestBasicCompanyData(file, {
+      onProgress: progress => {
+        if (progress.rowsRead % 50000 < 1000) {
+          console.log(`${progress.sourceFile}: ${progress.rowsWritten} companies written (${progress.rowsRead} rows read)`);
+        }
+      }
+    });
+
+    console.log('=== COMPANY DATA INGESTION SUMMARY ===');
+    console.log(JSON.stringify(summary, null, 2));
+    if (summary.batchesFailed > 0) failed = true;
+  } catch (error) {
+    console.error(`Failed to ingest ${file}:`, error.message);
+    failed = true;
+  }
+}
+
+if (failed) {
+  process.exit(1);
+}
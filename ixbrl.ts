@@ -0,0 +1,290 @@
+import { JSDOM } from 'jsdom';
+
+// Inline XBRL (iXBRL) accounts parser.
+// Companies House accounts filed as XHTML carry tagged facts (ix:nonFraction / ix:nonNumeric)
+// that reference xbrli:context elements for their period. We only read the handful of
+// headline concepts used in reports and ignore everything else in the taxonomy.
+
+export type FinancialMetric =
+  | 'turnover'
+  | 'profitLoss'
+  | 'netAssets'
+  | 'cash'
+  | 'creditorsDueWithinOneYear'
+  | 'creditorsDueAfterOneYear'
+  | 'employees';
+
+export interface AccountsFact {
+  metric: FinancialMetric;
+  concept: string;
+  value: number;
+  periodEnd: string;
+  periodStart?: string;
+  unit?: string;
+}
+
+export interface ParsedAccounts {
+  periodEnd?: string;
+  currency?: string;
+  facts: AccountsFact[];
+}
+
+export interface FinancialPeriod {
+  periodEnd: string;
+  periodStart?: string;
+  currency?: string;
+  turnover?: number;
+  profitLoss?: number;
+  netAssets?: number;
+  cash?: number;
+  creditorsDueWithinOneYear?: number;
+  creditorsDueAfterOneYear?: number;
+  employees?: number;
+  // Whether the figures come from this period's own accounts or only from a later filing's comparatives
+  reportedIn: 'own-accounts' | 'comparatives';
+  sourceDocuments: string[];
+}
+
+export interface FinancialsSection {
+  periods: FinancialPeriod[];          // newest first
+  latestPeriodEnd?: string;
+  currency?: string;
+  metricsFound: FinancialMetric[];
+  documentsParsed: number;
+  documentsFailed: number;
+}
+
+export interface AccountsDocument {
+  source: string;                      // sha256 of the stored document, or its URL
+  filingDate?: string;
+  content: string;
+}
+
+// Concept local names per metric, in priority order. Covers the current FRC taxonomies
+// (uk-core / FRS 102 / FRS 105) and the older uk-gaap names still found in older filings.
+const METRIC_CONCEPTS: Array<{ metric: FinancialMetric; concepts: string[]; member?: RegExp }> = [
+  { metric: 'turnover', concepts: ['TurnoverRevenue', 'Turnover', 'Revenue', 'TurnoverGrossOperatingRevenue'] },
+  { metric: 'profitLoss', concepts: ['ProfitLoss', 'ProfitLossForPeriod', 'ProfitLossForTheFinancialYear', 'ProfitLossOnOrdinaryActivitiesAfterTax'] },
+  { metric: 'netAssets', concepts: ['NetAssetsLiabilities', 'NetAssetsLiabilitiesIncludingPensionAssetLiability', 'Equity', 'ShareholderFunds'] },
+  { metric: 'cash', concepts: ['CashBankOnHand', 'CashBankInHand', 'CashAtBankAndInHand', 'CashCashEquivalents'] },
+  { metric: 'creditorsDueWithinOneYear', concepts: ['CreditorsDueWithinOneYear', 'Creditors'], member: /WithinOneYear/ },
+  { metric: 'creditorsDueAfterOneYear', concepts: ['CreditorsDueAfterOneYear', 'Creditors'], member: /AfterOneYear/ },
+  { metric: 'employees', concepts: ['AverageNumberEmployeesDuringPeriod', 'AverageNumberOfEmployees', 'EmployeesTotal'] }
+];
+
+const PERIOD_END_CONCEPTS = ['EndDateForPeriodCoveredByReport', 'BalanceSheetDate'];
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+interface XbrlContext {
+  periodStart?: string;
+  periodEnd?: string;
+  members: string[];
+}
+
+// Tag names keep their namespace prefix when parsed as HTML ("ix:nonfraction") - match on the local part
+function localName(element: Element): string {
+  return element.tagName.toLowerCase().split(':').pop() || '';
+}
+
+function conceptLocalName(name: string | null): string {
+  return (name || '').split(':').pop() || '';
+}
+
+export function parseIXDate(text: string): string | undefined {
+  const value = text.trim();
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const numeric = value.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+  if (numeric) return `${numeric[3]}-${numeric[2].padStart(2, '0')}-${numeric[1].padStart(2, '0')}`;
+
+  const long = value.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]+)\s+(\d{4})$/);
+  if (long) {
+    const month = MONTHS.findIndex(name => name.startsWith(long[2].toLowerCase().slice(0, 3)));
+    if (month >= 0) return `${long[3]}-${String(month + 1).padStart(2, '0')}-${long[1].padStart(2, '0')}`;
+  }
+
+  return undefined;
+}
+
+// Applies the ix transformation format, scale and sign attributes to the displayed text
+export function parseIXNumber(text: string, format?: string | null, scale?: string | null, sign?: string | null): number | null {
+  const value = text.trim();
+  const formatName = (format || '').toLowerCase();
+
+  let amount: number;
+  if (/zerodash|fixed-zero|nocontent/.test(formatName) || /^[-–—]?$/.test(value)) {
+    amount = 0;
+  } else {
+    const normalized = /numcommadecimal|num-comma-decimal/.test(formatName)
+      ? value.replace(/[.\s]/g, '').replace(',', '.')
+      : value.replace(/[,\s]/g, '');
+    amount = parseFloat(normalized.replace(/[^0-9.]/g, ''));
+    if (isNaN(amount)) return null;
+  }
+
+  const scaleValue = parseInt(scale || '0');
+  if (!isNaN(scaleValue) && scaleValue !== 0) {
+    amount = amount * Math.pow(10, scaleValue);
+  }
+
+  return sign === '-' ? -amount : amount;
+}
+
+export function parseIXBRLAccounts(content: string): ParsedAccounts {
+  const dom = new JSDOM(content);
+  const elements = Array.from(dom.window.document.getElementsByTagName('*'));
+
+  const contexts = new Map<string, XbrlContext>();
+  const units = new Map<string, string>();
+
+  elements.filter(element => localName(element) === 'context').forEach(context => {
+    const children = Array.from(context.getElementsByTagName('*'));
+    const textOf = (name: string) => {
+      const match = children.find(child => localName(child) === name);
+      return match ? parseIXDate(match.textContent || '') : undefined;
+    };
+    const instant = textOf('instant');
+    contexts.set(context.getAttribute('id') || '', {
+      periodStart: instant ? undefined : textOf('startdate'),
+      periodEnd: instant || textOf('enddate'),
+      members: children
+        .filter(child => localName(child) === 'explicitmember' || localName(child) === 'typedmember')
+        .map(child => (child.textContent || '').trim())
+    });
+  });
+
+  elements.filter(element => localName(element) === 'unit').forEach(unit => {
+    const measure = Array.from(unit.getElementsByTagName('*')).find(child => localName(child) === 'measure');
+    if (measure) units.set(unit.getAttribute('id') || '', conceptLocalName(measure.textContent?.trim() || null));
+  });
+
+  const facts: AccountsFact[] = [];
+  let reportPeriodEnd: string | undefined;
+
+  elements.forEach(element => {
+    const tag = localName(element);
+    if (tag !== 'nonfraction' && tag !== 'nonnumeric') return;
+
+    const concept = conceptLocalName(element.getAttribute('name'));
+    const context = contexts.get(element.getAttribute('contextref') || '');
+
+    if (tag === 'nonnumeric') {
+      if (!reportPeriodEnd && PERIOD_END_CONCEPTS.includes(concept)) {
+        reportPeriodEnd = parseIXDate(element.textContent || '');
+      }
+      return;
+    }
+
+    if (!context?.periodEnd) return;
+
+    const definition = METRIC_CONCEPTS.find(entry => {
+      if (!entry.concepts.includes(concept)) return false;
+      // Dimensioned facts (e.g. per-class or per-maturity breakdowns) only count when the metric asks for that member
+      if (context.members.length === 0) return !(entry.member && concept === 'Creditors');
+      return !!entry.member && context.members.length === 1 && entry.member.test(context.members[0]);
+    });
+    if (!definition) return;
+
+    const value = parseIXNumber(element.textContent || '', element.getAttribute('format'), element.getAttribute('scale'), element.getAttribute('sign'));
+    if (value === null) return;
+
+    facts.push({
+      metric: definition.metric,
+      concept,
+      value,
+      periodEnd: context.periodEnd,
+      periodStart: context.periodStart,
+      unit: units.get(element.getAttribute('unitref') || '')
+    });
+  });
+
+  // Fall back to the latest period referenced by an undimensioned context
+  if (!reportPeriodEnd) {
+    reportPeriodEnd = Array.from(contexts.values())
+      .filter(context => context.members.length === 0 && context.periodEnd)
+      .map(context => context.periodEnd!)
+      .sort()
+      .pop();
+  }
+
+  const currency = facts.map(fact => fact.unit).find(unit => unit && /^[A-Z]{3}$/.test(unit));
+
+  dom.window.close();
+  return { periodEnd: reportPeriodEnd, currency, facts };
+}
+
+// Merges several accounts filings into one series per period end. Each year's own accounts win over
+// the comparatives restated in a later filing; within a document the first concept in METRIC_CONCEPTS wins.
+export function buildFinancialsSection(documents: AccountsDocument[]): FinancialsSection {
+  const candidates: Array<AccountsFact & { primary: boolean; priority: number; order: number; source: string; currency?: string }> = [];
+  let documentsParsed = 0;
+  let documentsFailed = 0;
+
+  documents.forEach((document, order) => {
+    try {
+      const parsed = parseIXBRLAccounts(document.content);
+      if (parsed.facts.length === 0) {
+        console.warn(`No recognised iXBRL facts in ${document.source}`);
+        documentsFailed++;
+        return;
+      }
+      documentsParsed++;
+
+      parsed.facts.forEach(fact => {
+        const definition = METRIC_CONCEPTS.find(entry => entry.metric === fact.metric)!;
+        candidates.push({
+          ...fact,
+          primary: fact.periodEnd === parsed.periodEnd,
+          priority: definition.concepts.indexOf(fact.concept),
+          order,
+          source: document.source,
+          currency: parsed.currency
+        });
+      });
+    } catch (error) {
+      console.warn(`Failed to parse iXBRL accounts ${document.source}:`, error.message);
+      documentsFailed++;
+    }
+  });
+
+  candidates.sort((a, b) =>
+    Number(b.primary) - Number(a.primary) || a.priority - b.priority || a.order - b.order
+  );
+
+  const periods = new Map<string, FinancialPeriod>();
+  candidates.forEach(candidate => {
+    let period = periods.get(candidate.periodEnd);
+    if (!period) {
+      period = {
+        periodEnd: candidate.periodEnd,
+        currency: candidate.currency,
+        reportedIn: candidate.primary ? 'own-accounts' : 'comparatives',
+        sourceDocuments: []
+      };
+      periods.set(candidate.periodEnd, period);
+    }
+
+    if (period[candidate.metric] === undefined) {
+      period[candidate.metric] = candidate.value;
+      if (!period.periodStart && candidate.periodStart) period.periodStart = candidate.periodStart;
+      if (!period.sourceDocuments.includes(candidate.source)) period.sourceDocuments.push(candidate.source);
+    }
+  });
+
+  const sortedPeriods = Array.from(periods.values()).sort((a, b) => b.periodEnd.localeCompare(a.periodEnd));
+  const metricsFound = METRIC_CONCEPTS
+    .map(entry => entry.metric)
+    .filter(metric => sortedPeriods.some(period => period[metric] !== undefined));
+
+  return {
+    periods: sortedPeriods,
+    latestPeriodEnd: sortedPeriods[0]?.periodEnd,
+    currency: sortedPeriods.find(period => period.currency)?.currency,
+    metricsFound,
+    documentsParsed,
+    documentsFailed
+  };
+}
@@ -213,18 +213,31 @@ function createChargesCard(charges) {
                 <div class="card-badge">${chargeList.length}</div>
             </div>
             <div class="card-content">
-                ${chargeList.map(charge => `
+                ${chargeList.map(charge => {
+                    // Older saved reports use createdDate/chargeholder/description
+                    const holders = charge.personsEntitled?.length ? charge.personsEntitled.join(', ') : charge.chargeholder;
+                    const flags = [
+                        charge.containsFixedCharge ? 'Fixed charge' : null,
+                        charge.containsFloatingCharge ? 'Floating charge' : null,
+                        charge.containsNegativePledge ? 'Negative pledge' : null
+                    ].filter(Boolean).join(', ');
+                    const documents = (charge.documents || []).filter(doc => doc.url);
+                    return `
                     <div class="officer-item">
-                        <div class="officer-name">Charge ${charge.chargeNumber || 'N/A'}</div>
-                        <div class="officer-role">${charge.status || 'Unknown'}</div>
+                        <div class="officer-name">${charge.title || `Charge ${charge.chargeNumber || 'N/A'}`}</div>
+                        <div class="officer-role">${charge.statusText || charge.status || 'Unknown'}</div>
                         <div class="officer-details">
-                            ${charge.createdDate ? `<strong>Created:</strong> ${charge.createdDate}<br>` : ''}
-                            ${charge.chargeholder ? `<strong>Holder:</strong> ${charge.chargeholder}<br>` : ''}
-                            <strong>Description:</strong> ${charge.description || 'N/A'}
+                            ${charge.createdOn || charge.createdDate ? `<strong>Created:</strong> ${charge.createdOn || charge.createdDate}<br>` : ''}
+                            ${charge.satisfiedOn ? `<strong>Satisfied:</strong> ${charge.satisfiedOn}<br>` : ''}
+                            ${holders ? `<strong>Persons entitled:</strong> ${holders}<br>` : ''}
+                            ${flags ? `<strong>Security:</strong> ${flags}<br>` : ''}
+                            <strong>Description:</strong> ${charge.shortParticulars || charge.description || 'N/A'}
                             ${charge.securedAmount ? `<br><strong>Amount:</strong> ${charge.securedAmount}` : ''}
+                            ${documents.length > 0 ? `<br>${documents.map(doc => `<a href="${doc.url}" target="_blank" rel="noopener noreferrer" class="pdf-link">📄 ${doc.filingType}</a>`).join(' ')}` : ''}
                         </div>
                     </div>
-                `).join('')}
+                `;
+                }).join('')}
             </div>
         `;
     }
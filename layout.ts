@@ -0,0 +1,174 @@
+// Selector drift detection. The Direct DOM extractors depend on a handful of structural anchors;
+// each visited page is fingerprinted against the known-good signature for its page type so that a
+// Companies House redesign is reported as LAYOUT_CHANGED instead of only showing up as a lower quality score.
+
+export const LAYOUT_CHANGED = 'LAYOUT_CHANGED';
+
+export interface LayoutAnchor {
+  name: string;
+  selector: string;
+  // Expected tag name of every match
+  tagName?: string;
+  // Every match should sit inside this container
+  within?: string;
+  required?: boolean;
+  // Only required when another selector matches at least minCount elements
+  requiredWhen?: { selector: string; minCount: number };
+}
+
+export interface PageSignature {
+  pageType: string;
+  urlPattern: RegExp;
+  anchors: LayoutAnchor[];
+}
+
+export interface LayoutDrift {
+  code: typeof LAYOUT_CHANGED;
+  pageType: string;
+  anchor: string;
+  selector: string;
+  problem: 'missing' | 'moved' | 'changed';
+  detail: string;
+  url: string;
+}
+
+export interface LayoutCheckSummary {
+  pagesChecked: number;
+  pageTypes: string[];
+  drift: LayoutDrift[];
+}
+
+const PAGINATION_ANCHORS: LayoutAnchor[] = [
+  {
+    name: 'pagination page links',
+    selector: '.govuk-pagination__item a[data-page]',
+    tagName: 'a',
+    within: '.govuk-pagination',
+    requiredWhen: { selector: '#next-page', minCount: 1 }
+  },
+  {
+    name: 'next page link',
+    selector: '#next-page',
+    tagName: 'a',
+    // Older pages render the pager as ul.pager
+    within: '.govuk-pagination, .pager'
+  }
+];
+
+export const PAGE_SIGNATURES: PageSignature[] = [
+  {
+    pageType: 'filing history',
+    urlPattern: /\/company\/[A-Z0-9]{8}\/filing-history\/?(?:[?#].*)?$/i,
+    anchors: [
+      { name: 'filing history table', selector: '#fhTable', tagName: 'table', required: true },
+      {
+        name: 'document download links',
+        selector: 'a.download.link-updater-js',
+        tagName: 'a',
+        within: '#fhTable',
+        // A page of filings with no document links at all means the link markup changed
+        requiredWhen: { selector: '#fhTable tr', minCount: 6 }
+      },
+      ...PAGINATION_ANCHORS
+    ]
+  },
+  {
+    pageType: 'officers',
+    urlPattern: /\/company\/[A-Z0-9]{8}\/officers\/?(?:[?#].*)?$/i,
+    anchors: PAGINATION_ANCHORS
+  }
+];
+
+export class LayoutMonitor {
+  private pagesChecked = 0;
+  private pageTypes = new Set<string>();
+  private drift: LayoutDrift[] = [];
+
+  // Fingerprints the current page; pages without a known signature are skipped
+  async checkPage(page: any): Promise<LayoutDrift[]> {
+    const url: string = page.url();
+    const signature = PAGE_SIGNATURES.find(entry => entry.urlPattern.test(url));
+    if (!signature) return [];
+
+    try {
+      // Serialized into the browser - no named helper functions
+      const observed: Array<{ count: number; tagNames: string[]; outside: number; conditionMet: boolean }> = await page.evaluate((anchors: LayoutAnchor[]) => {
+        return anchors.map(anchor => {
+          const elements = Array.from(document.querySelectorAll(anchor.selector));
+          return {
+            count: elements.length,
+            tagNames: Array.from(new Set(elements.map(element => element.tagName.toLowerCase()))),
+            outside: anchor.within ? elements.filter(element => !element.closest(anchor.within!)).length : 0,
+            conditionMet: anchor.requiredWhen
+              ? document.querySelectorAll(anchor.requiredWhen.selector).length >= anchor.requiredWhen.minCount
+              : false
+          };
+        });
+      }, signature.anchors);
+
+      const pageDrift: LayoutDrift[] = [];
+      signature.anchors.forEach((anchor, index) => {
+        const result = observed[index];
+        const report = (problem: LayoutDrift['problem'], detail: string) => pageDrift.push({
+          code: LAYOUT_CHANGED,
+          pageType: signature.pageType,
+          anchor: anchor.name,
+          selector: anchor.selector,
+          problem,
+          detail,
+          url
+        });
+
+        if (result.count === 0) {
+          if (anchor.required) {
+            report('missing', `${anchor.selector} not found`);
+          } else if (anchor.requiredWhen && result.conditionMet) {
+            report('missing', `${anchor.selector} not found although ${anchor.requiredWhen.selector} is present`);
+          }
+          return;
+        }
+
+        if (anchor.tagName && result.tagNames.some(tag => tag !== anchor.tagName)) {
+          report('changed', `${anchor.selector} is now <${result.tagNames.join('>, <')}> (expected <${anchor.tagName}>)`);
+        }
+        if (result.outside > 0) {
+          report('moved', `${result.outside} of ${result.count} ${anchor.selector} matches are outside ${anchor.within}`);
+        }
+      });
+
+      this.pagesChecked++;
+      this.pageTypes.add(signature.pageType);
+      pageDrift.forEach(entry => {
+        console.warn(`[${LAYOUT_CHANGED}] ${entry.pageType} page: ${entry.anchor} ${entry.problem} - ${entry.detail} (${url})`);
+      });
+      this.drift.push(...pageDrift);
+      return pageDrift;
+    } catch (error) {
+      console.warn(`Layout check failed for ${url}:`, error.message);
+      return [];
+    }
+  }
+
+  summary(): LayoutCheckSummary {
+    return {
+      pagesChecked: this.pagesChecked,
+      pageTypes: Array.from(this.pageTypes),
+      drift: this.drift
+    };
+  }
+
+  // One data issue per page type, anchor and problem, however many pages showed it
+  dataIssues(): string[] {
+    const grouped = new Map<string, { drift: LayoutDrift; pages: number }>();
+    this.drift.forEach(entry => {
+      const key = `${entry.pageType}|${entry.anchor}|${entry.problem}`;
+      const existing = grouped.get(key);
+      if (existing) existing.pages++;
+      else grouped.set(key, { drift: entry, pages: 1 });
+    });
+
+    return Array.from(grouped.values()).map(({ drift, pages }) =>
+      `${LAYOUT_CHANGED}: ${drift.pageType} ${drift.anchor} ${drift.problem} on ${pages} page${pages === 1 ? '' : 's'} - ${drift.detail}`
+    );
+  }
+}
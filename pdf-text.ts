@@ -0,0 +1,132 @@
+import { getDocument, OPS } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+// Local text extraction for downloaded filing PDFs (pdf.js, no external services).
+// Paper filings scanned by Companies House are image-only: they have no text layer,
+// so they are marked rather than treated as failures - OCR is out of scope.
+
+export interface PdfPageText {
+  pageNumber: number;
+  text: string;
+  imageOnly: boolean;
+}
+
+export interface PdfTextExtraction {
+  status: 'extracted' | 'image-only' | 'partial' | 'failed';
+  pageCount: number;
+  characterCount: number;
+  imageOnlyPages: number[];
+  pages: PdfPageText[];
+  extractedAt: string;
+  error?: string;
+}
+
+export interface FilingTextMatch {
+  filingDate: string;
+  description: string;
+  type: string;
+  documentUrl: string;
+  sha256?: string;
+  pageNumber: number;
+  snippet: string;
+}
+
+// Pages with fewer non-whitespace characters than this are treated as having no text layer
+const MIN_PAGE_CHARACTERS = 20;
+
+export async function extractPdfText(data: Buffer, maxPages: number = 200): Promise<PdfTextExtraction> {
+  const extractedAt = new Date().toISOString();
+
+  try {
+    const pdf = await getDocument({
+      data: new Uint8Array(data),
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false,
+      verbosity: 0
+    }).promise;
+
+    const pages: PdfPageText[] = [];
+    const pageLimit = Math.min(pdf.numPages, maxPages);
+
+    for (let pageNumber = 1; pageNumber <= pageLimit; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map((item: any) => `${item.str ?? ''}${item.hasEOL ? '\n' : ''}`)
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .trim();
+
+      let imageOnly = false;
+      if (text.replace(/\s/g, '').length < MIN_PAGE_CHARACTERS) {
+        // Only pay for the operator list when the page has no usable text
+        const operators = await page.getOperatorList();
+        imageOnly = operators.fnArray.some(op => op === OPS.paintImageXObject || op === OPS.paintInlineImageXObject || op === OPS.paintImageMaskXObject);
+      }
+
+      pages.push({ pageNumber, text, imageOnly });
+      page.cleanup();
+    }
+
+    await pdf.destroy();
+
+    const imageOnlyPages = pages.filter(page => page.imageOnly).map(page => page.pageNumber);
+    const characterCount = pages.reduce((sum, page) => sum + page.text.length, 0);
+
+    let status: PdfTextExtraction['status'] = 'extracted';
+    if (pages.length > 0 && imageOnlyPages.length === pages.length) status = 'image-only';
+    else if (imageOnlyPages.length > 0) status = 'partial';
+
+    return { status, pageCount: pdf.numPages, characterCount, imageOnlyPages, pages, extractedAt };
+  } catch (error) {
+    return {
+      status: 'failed',
+      pageCount: 0,
+      characterCount: 0,
+      imageOnlyPages: [],
+      pages: [],
+      extractedAt,
+      error: error.message
+    };
+  }
+}
+
+// Case-insensitive search across the page text stored on each filing's document links
+export function searchFilingText(
+  filings: Array<{ date: string; description: string; type: string; documentLinks?: Array<{ url: string; sha256?: string; textExtraction?: PdfTextExtraction }> }>,
+  query: string,
+  limit: number = 50
+): FilingTextMatch[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const matches: FilingTextMatch[] = [];
+
+  for (const filing of filings) {
+    for (const link of filing.documentLinks || []) {
+      for (const page of link.textExtraction?.pages || []) {
+        const haystack = page.text.toLowerCase();
+        let index = haystack.indexOf(needle);
+
+        while (index !== -1 && matches.length < limit) {
+          const start = Math.max(0, index - 80);
+          const end = Math.min(page.text.length, index + needle.length + 80);
+          matches.push({
+            filingDate: filing.date,
+            description: filing.description,
+            type: filing.type,
+            documentUrl: link.url,
+            sha256: link.sha256,
+            pageNumber: page.pageNumber,
+            snippet: `${start > 0 ? '...' : ''}${page.text.slice(start, end).replace(/\s+/g, ' ')}${end < page.text.length ? '...' : ''}`
+          });
+          index = haystack.indexOf(needle, index + needle.length);
+        }
+
+        if (matches.length >= limit) return matches;
+      }
+    }
+  }
+
+  return matches;
+}
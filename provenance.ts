@@ -0,0 +1,113 @@
+import { ScrapingResult } from './scraper.js';
+
+// Provenance of extracted records: the page a value was read from, which strategy read it and when.
+// Values read by page.extract (LLM) are more error-prone than Direct DOM ones, so reviewers can use
+// this to decide what to double-check. A record's provenance covers all of its fields unless
+// `fields` names a different source for a field (e.g. charge flags read later from the detail page).
+
+export type ExtractionMethod = 'dom' | 'llm' | 'hybrid' | 'api';
+
+export interface SourceProvenance {
+  sourceUrl: string;
+  // Page of a paginated list (filing history, officers, charges, appointments)
+  pageNumber?: number;
+  method: ExtractionMethod;
+  // Name of the strategy that produced the value, e.g. "Direct DOM" or "LLM with URL type"
+  strategy: string;
+  extractedAt: string;
+}
+
+export interface Provenance extends SourceProvenance {
+  fields?: Record<string, SourceProvenance>;
+}
+
+export interface ProvenanceCounts {
+  records: number;
+  // Records with at least one LLM or hybrid value
+  llmRecords: number;
+  byMethod: Partial<Record<ExtractionMethod, number>>;
+}
+
+export interface ProvenanceSummary extends ProvenanceCounts {
+  // Records without provenance, e.g. filings merged in from a report stored before provenance existed
+  untracked: number;
+  sections: Array<ProvenanceCounts & { section: string }>;
+}
+
+type Traceable = { provenance?: Provenance };
+
+export function strategyMethod(strategy: string): ExtractionMethod {
+  if (/hybrid/i.test(strategy)) return 'hybrid';
+  if (/llm/i.test(strategy)) return 'llm';
+  return 'dom';
+}
+
+export function pageSource(page: any, strategy: string, method: ExtractionMethod = strategyMethod(strategy)): SourceProvenance {
+  return { sourceUrl: page.url(), method, strategy, extractedAt: new Date().toISOString() };
+}
+
+export function attachProvenance<T extends Traceable>(records: T[], source: SourceProvenance): T[] {
+  records.forEach(record => {
+    record.provenance = { ...source };
+  });
+  return records;
+}
+
+// The extractors only see the current page; the pagination loops know which page number it is
+export function setPageNumber(records: Traceable[] | undefined, pageNumber: number): void {
+  records?.forEach(record => {
+    if (record.provenance) record.provenance.pageNumber = pageNumber;
+  });
+}
+
+export function attachFieldProvenance(record: Traceable, fields: string[], source: SourceProvenance): void {
+  if (!record.provenance || fields.length === 0) return;
+  const overrides = { ...record.provenance.fields };
+  fields.forEach(field => {
+    overrides[field] = { ...source };
+  });
+  // Copied, not mutated - spread copies of a record share the original provenance object
+  record.provenance = { ...record.provenance, fields: overrides };
+}
+
+function isLlmSourced(provenance: Provenance): boolean {
+  const methods = [provenance.method, ...Object.values(provenance.fields || {}).map(field => field.method)];
+  return methods.some(method => method === 'llm' || method === 'hybrid');
+}
+
+export function summarizeProvenance(result: ScrapingResult): ProvenanceSummary {
+  const sectionRecords: Record<string, Traceable[]> = {
+    overview: result.overview ? [result.overview] : [],
+    'filing history': result.filing?.filings || [],
+    officers: result.people?.officers || [],
+    'officer appointments': (result.people?.officers || []).flatMap(officer => officer.appointmentHistory?.appointments || []),
+    'persons with significant control': [...(result.psc?.persons || []), ...(result.psc?.statements || [])],
+    charges: result.charges?.charges || [],
+    insolvency: result.insolvency?.cases || []
+  };
+
+  const summary: ProvenanceSummary = { records: 0, llmRecords: 0, untracked: 0, byMethod: {}, sections: [] };
+
+  Object.entries(sectionRecords).forEach(([section, records]) => {
+    if (records.length === 0) return;
+    const counts: ProvenanceCounts & { section: string } = { section, records: 0, llmRecords: 0, byMethod: {} };
+
+    records.forEach(record => {
+      if (!record.provenance) {
+        summary.untracked++;
+        return;
+      }
+      const { method } = record.provenance;
+      counts.records++;
+      counts.byMethod[method] = (counts.byMethod[method] || 0) + 1;
+      summary.byMethod[method] = (summary.byMethod[method] || 0) + 1;
+      if (isLlmSourced(record.provenance)) counts.llmRecords++;
+    });
+
+    summary.records += counts.records;
+    summary.llmRecords += counts.llmRecords;
+    if (counts.records > 0) summary.sections.push(counts);
+  });
+
+  return summary;
+}
@@ -0,0 +1,193 @@
+import 'dotenv/config';
+import { Deadline } from './deadline.js';
+
+// Process-wide politeness limiter for Companies House website traffic. Every scraper instance
+// shares one token bucket, so concurrent /api/enhanced-report calls queue behind each other
+// instead of each navigating at full speed. 429 and 5xx responses pause the whole queue.
+
+export interface RateLimiterOptions {
+  requestsPerSecond: number;
+  // Navigations allowed back to back after an idle period
+  burst: number;
+  // First backoff after a 429/5xx; doubles with each consecutive one up to maxBackoffMs
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+export interface RateLimiterStatus extends RateLimiterOptions {
+  queueLength: number;
+  availableTokens: number;
+  backoffRemainingMs: number;
+  consecutiveThrottles: number;
+  granted: number;
+  throttledResponses: number;
+  lastThrottleStatus?: number;
+  lastThrottleAt?: string;
+}
+
+export function isThrottleStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+export class CompaniesHouseThrottleError extends Error {
+  status: number;
+
+  constructor(status: number, url: string) {
+    super(`Companies House returned HTTP ${status} for ${url}`);
+    this.name = 'CompaniesHouseThrottleError';
+    this.status = status;
+  }
+}
+
+const envNumber = (name: string, fallback: number) => {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export class RateLimiter {
+  private options: RateLimiterOptions;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Array<() => void> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private backoffUntil = 0;
+  private consecutiveThrottles = 0;
+  private granted = 0;
+  private throttledResponses = 0;
+  private lastThrottleStatus?: number;
+  private lastThrottleAt?: string;
+
+  constructor(options: RateLimiterOptions) {
+    this.options = RateLimiter.normalize(options);
+    this.tokens = this.options.burst;
+  }
+
+  // A bucket smaller than one token would never grant anything
+  private static normalize(options: RateLimiterOptions): RateLimiterOptions {
+    return { ...options, burst: Math.max(1, Math.floor(options.burst)) };
+  }
+
+  // Resolves when the caller may navigate; callers are served in arrival order. With a deadline,
+  // rejects once the scrape's time budget runs out and gives up the place in the queue.
+  acquire(label?: string, deadline?: Deadline): Promise<void> {
+    let grant!: () => void;
+    const granted = new Promise<void>(resolve => {
+      grant = resolve;
+      this.queue.push(resolve);
+      if (this.queue.length > 1 || this.backoffUntil > Date.now()) {
+        console.log(`Rate limiter: ${label || 'navigation'} queued (${this.queue.length} waiting)`);
+      }
+      this.drain();
+    });
+    if (!deadline) return granted;
+
+    return deadline.race(`rate limit wait (${label || 'navigation'})`, () => granted).catch(error => {
+      const index = this.queue.indexOf(grant);
+      if (index !== -1) this.queue.splice(index, 1);
+      throw error;
+    });
+  }
+
+  // Call with the HTTP status of every Companies House page response
+  recordResponse(status: number, retryAfterSeconds?: number): void {
+    if (!isThrottleStatus(status)) {
+      this.consecutiveThrottles = 0;
+      return;
+    }
+
+    this.consecutiveThrottles++;
+    this.throttledResponses++;
+    this.lastThrottleStatus = status;
+    this.lastThrottleAt = new Date().toISOString();
+
+    const exponential = this.options.initialBackoffMs * Math.pow(2, this.consecutiveThrottles - 1);
+    const delay = Math.min(this.options.maxBackoffMs, retryAfterSeconds ? retryAfterSeconds * 1000 : exponential);
+    this.backoffUntil = Math.max(this.backoffUntil, Date.now() + delay);
+    // No burst straight after a backoff: the bucket starts refilling only once it ends
+    this.tokens = 0;
+    this.lastRefill = this.backoffUntil;
+    console.warn(`Rate limiter: Companies House returned HTTP ${status} - pausing all navigation for ${Math.ceil(delay / 1000)}s`);
+  }
+
+  // Waiting callers are rescheduled at the new rate
+  configure(options: Partial<RateLimiterOptions>): void {
+    this.refill();
+    this.options = RateLimiter.normalize({ ...this.options, ...options });
+    this.tokens = Math.min(this.tokens, this.options.burst);
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.drain();
+  }
+
+  status(): RateLimiterStatus {
+    this.refill();
+    const status: RateLimiterStatus = {
+      ...this.options,
+      queueLength: this.queue.length,
+      availableTokens: Math.floor(this.tokens),
+      backoffRemainingMs: Math.max(0, this.backoffUntil - Date.now()),
+      consecutiveThrottles: this.consecutiveThrottles,
+      granted: this.granted,
+      throttledResponses: this.throttledResponses
+    };
+    if (this.lastThrottleStatus) {
+      status.lastThrottleStatus = this.lastThrottleStatus;
+      status.lastThrottleAt = this.lastThrottleAt;
+    }
+    return status;
+  }
+
+  // Reports the status of main-frame document responses, so navigations triggered by clicks count too
+  watch(page: any): void {
+    if (typeof page?.on !== 'function') return;
+    page.on('response', (response: any) => {
+      try {
+        if (response.request().resourceType() !== 'document') return;
+        if (typeof page.mainFrame === 'function' && response.frame() !== page.mainFrame()) return;
+        const retryAfter = parseInt(response.headers()['retry-after'] || '', 10);
+        this.recordResponse(response.status(), Number.isFinite(retryAfter) ? retryAfter : undefined);
+      } catch (error) {
+        console.warn('Rate limiter could not read a response status:', error.message);
+      }
+    });
+  }
+
+  private refill(now: number = Date.now()): void {
+    if (now <= this.lastRefill) return;
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.options.burst, this.tokens + elapsedSeconds * this.options.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer) return;
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      this.refill(now);
+
+      const tokenWait = this.tokens >= 1 ? 0 : ((1 - this.tokens) / this.options.requestsPerSecond) * 1000;
+      const wait = Math.max(this.backoffUntil - now, tokenWait);
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.drain();
+        }, Math.ceil(wait));
+        return;
+      }
+
+      this.tokens -= 1;
+      this.granted++;
+      this.queue.shift()!();
+    }
+  }
+}
+
+export const companiesHouseRateLimiter = new RateLimiter({
+  requestsPerSecond: envNumber('CH_RATE_LIMIT_RPS', 1),
+  burst: envNumber('CH_RATE_LIMIT_BURST', 3),
+  initialBackoffMs: envNumber('CH_RATE_LIMIT_BACKOFF_MS', 5000),
+  maxBackoffMs: envNumber('CH_RATE_LIMIT_MAX_BACKOFF_MS', 120000)
+});
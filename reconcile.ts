@@ -0,0 +1,207 @@
+import { FilingData } from './scraper.js';
+import { parseDate } from './dates.js';
+import { SourceProvenance, attachFieldProvenance } from './provenance.js';
+
+// Reconciliation of the filing rows two strategies read from the same filing history page. Rows
+// are aligned by document transaction id, then by date and description; gaps in the primary
+// strategy's rows are filled from the other one and disagreements are flagged, not resolved.
+// The primary strategy (Direct DOM) keeps its value in a conflict.
+
+export type RowAgreement = 'agreed' | 'conflict' | 'single-source';
+
+export interface FieldConflict {
+  field: string;
+  // Value per strategy name
+  values: Record<string, string>;
+}
+
+export interface FilingReconciliation {
+  agreement: RowAgreement;
+  // Strategies that found the row
+  sources: string[];
+  // Fields the row's own strategy left empty and the other strategy filled in
+  filledFields?: string[];
+  conflicts?: FieldConflict[];
+}
+
+export interface ReconciliationSummary {
+  rows: number;
+  agreed: number;
+  conflicts: number;
+  // Rows found by one strategy only, by strategy name
+  singleSource: Record<string, number>;
+  filledFields: number;
+}
+
+const normalizeText = (value: string | undefined) => (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Both strategies read dates as text, so compare them parsed
+const dateKey = (filing: FilingData) => parseDate(filing.date)?.iso || normalizeText(filing.date);
+
+const rowKey = (filing: FilingData) => `${dateKey(filing)}|${normalizeText(filing.description)}`;
+
+function transactionId(filing: FilingData): string | undefined {
+  return (filing.documentLinks || [])
+    .map(link => link.url?.match(/\/filing-history\/([A-Za-z0-9]+)\/document/)?.[1])
+    .find(Boolean);
+}
+
+// The DOM keeps the ?format=pdf&download=0 query string, the LLM often drops it
+const linkKeys = (filing: FilingData) => (filing.documentLinks || [])
+  .map(link => (link.url || '').split(/[?#]/)[0].toLowerCase())
+  .filter(Boolean)
+  .sort();
+
+function sourceOf(filing: FilingData): SourceProvenance | null {
+  if (!filing.provenance) return null;
+  const { fields, ...source } = filing.provenance;
+  return source;
+}
+
+// Pairs each secondary row with at most one primary row: by transaction id, then by date and
+// description, then the one unmatched row on each side for a date (a reworded description)
+function alignRows(primary: FilingData[], secondary: FilingData[]): Map<number, number> {
+  const pairs = new Map<number, number>();
+  const pairedPrimary = new Set<number>();
+
+  const matchBy = (key: (filing: FilingData) => string | undefined) => {
+    const byKey = new Map<string, number[]>();
+    primary.forEach((filing, index) => {
+      const value = key(filing);
+      if (!value || pairedPrimary.has(index)) return;
+      byKey.set(value, [...(byKey.get(value) || []), index]);
+    });
+    secondary.forEach((filing, index) => {
+      const value = key(filing);
+      if (!value || pairs.has(index)) return;
+      const candidate = (byKey.get(value) || []).find(primaryIndex => !pairedPrimary.has(primaryIndex));
+      if (candidate === undefined) return;
+      pairs.set(index, candidate);
+      pairedPrimary.add(candidate);
+    });
+  };
+
+  matchBy(transactionId);
+  matchBy(rowKey);
+
+  const unpairedByDate = (rows: FilingData[], isPaired: (index: number) => boolean) => {
+    const byDate = new Map<string, number[]>();
+    rows.forEach((filing, index) => {
+      const date = dateKey(filing);
+      if (date && !isPaired(index)) byDate.set(date, [...(byDate.get(date) || []), index]);
+    });
+    return byDate;
+  };
+  const primaryByDate = unpairedByDate(primary, index => pairedPrimary.has(index));
+  unpairedByDate(secondary, index => pairs.has(index)).forEach((secondaryIndexes, date) => {
+    const primaryIndexes = primaryByDate.get(date) || [];
+    if (secondaryIndexes.length === 1 && primaryIndexes.length === 1) {
+      pairs.set(secondaryIndexes[0], primaryIndexes[0]);
+      pairedPrimary.add(primaryIndexes[0]);
+    }
+  });
+
+  return pairs;
+}
+
+function mergeRow(primary: FilingData, secondary: FilingData, primaryStrategy: string, secondaryStrategy: string): FilingData {
+  const row: FilingData = { ...primary };
+  const filledFields: string[] = [];
+  const conflicts: FieldConflict[] = [];
+
+  const compare = (field: 'date' | 'description', same: boolean) => {
+    if (!primary[field] && secondary[field]) {
+      row[field] = secondary[field];
+      filledFields.push(field);
+    } else if (secondary[field] && !same) {
+      conflicts.push({ field, values: { [primaryStrategy]: primary[field], [secondaryStrategy]: secondary[field] } });
+    }
+  };
+  compare('date', dateKey(primary) === dateKey(secondary));
+  compare('description', normalizeText(primary.description) === normalizeText(secondary.description));
+
+  // The strategies categorise type differently (type column vs description), so it is only filled
+  if (!primary.type && secondary.type) {
+    row.type = secondary.type;
+    filledFields.push('type');
+  }
+
+  const primaryLinks = linkKeys(primary);
+  const secondaryLinks = linkKeys(secondary);
+  if (primaryLinks.length === 0 && secondaryLinks.length > 0) {
+    row.documentLinks = secondary.documentLinks;
+    filledFields.push('documentLinks');
+  } else if (secondaryLinks.length > 0 && primaryLinks.join(' ') !== secondaryLinks.join(' ')) {
+    conflicts.push({
+      field: 'documentLinks',
+      values: {
+        [primaryStrategy]: primary.documentLinks.map(link => link.url).join(' '),
+        [secondaryStrategy]: secondary.documentLinks.map(link => link.url).join(' ')
+      }
+    });
+  }
+
+  const secondarySource = sourceOf(secondary);
+  if (secondarySource) attachFieldProvenance(row, filledFields, secondarySource);
+
+  row.reconciliation = {
+    agreement: conflicts.length > 0 ? 'conflict' : 'agreed',
+    sources: [primaryStrategy, secondaryStrategy]
+  };
+  if (filledFields.length > 0) row.reconciliation.filledFields = filledFields;
+  if (conflicts.length > 0) row.reconciliation.conflicts = conflicts;
+  return row;
+}
+
+const singleSource = (filing: FilingData, strategy: string): FilingData => ({
+  ...filing,
+  reconciliation: { agreement: 'single-source', sources: [strategy] }
+});
+
+// When only one strategy found anything (or the other one was skipped)
+export function singleSourceFilings(filings: FilingData[], strategy: string): FilingData[] {
+  return filings.map(filing => singleSource(filing, strategy));
+}
+
+// Merged rows in page order; rows only the secondary strategy found are placed after the row
+// that precedes them in the secondary strategy's list
+export function reconcileFilings(primary: FilingData[], secondary: FilingData[], primaryStrategy: string, secondaryStrategy: string): FilingData[] {
+  const pairs = alignRows(primary, secondary);
+  const merged = singleSourceFilings(primary, primaryStrategy);
+  // Position in merged of each primary row, shifted as secondary-only rows are inserted
+  const positions = primary.map((_, index) => index);
+
+  let insertAt = 0;
+  secondary.forEach((filing, index) => {
+    const primaryIndex = pairs.get(index);
+    if (primaryIndex !== undefined) {
+      merged[positions[primaryIndex]] = mergeRow(primary[primaryIndex], filing, primaryStrategy, secondaryStrategy);
+      insertAt = positions[primaryIndex] + 1;
+      return;
+    }
+    merged.splice(insertAt, 0, singleSource(filing, secondaryStrategy));
+    positions.forEach((position, positionIndex) => {
+      if (position >= insertAt) positions[positionIndex] = position + 1;
+    });
+    insertAt++;
+  });
+
+  return merged;
+}
+
+export function summarizeReconciliation(filings: FilingData[]): ReconciliationSummary | undefined {
+  const reconciled = filings.filter(filing => filing.reconciliation);
+  if (reconciled.length === 0) return undefined;
+
+  const summary: ReconciliationSummary = { rows: reconciled.length, agreed: 0, conflicts: 0, singleSource: {}, filledFields: 0 };
+  reconciled.forEach(({ reconciliation }) => {
+    if (reconciliation!.agreement === 'agreed') summary.agreed++;
+    if (reconciliation!.agreement === 'conflict') summary.conflicts++;
+    if (reconciliation!.agreement === 'single-source') {
+      const strategy = reconciliation!.sources[0];
+      summary.singleSource[strategy] = (summary.singleSource[strategy] || 0) + 1;
+    }
+    summary.filledFields += reconciliation!.filledFields?.length || 0;
+  });
+  return summary;
+}
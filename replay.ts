@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { replayFixtureExtraction } from './scraper.js';
+
+// Usage: npm run replay -- <fixture-directory>
+// npm run replay:fixtures replays the committed set in fixtures/. A directory may hold an
+// "expected.json" with counts from the summary below; any difference fails the replay.
+const fixtureDirectory = process.argv[2];
+
+if (!fixtureDirectory) {
+  console.error('Usage: npm run replay -- <fixture-directory>');
+  process.exit(1);
+}
+
+const result = await replayFixtureExtraction(fixtureDirectory);
+
+const summary = {
+  fixtureDirectory,
+  filings: result.filing?.totalFilings ?? 0,
+  filingPages: result.filing?.pagesScraped ?? 0,
+  filingsWithDocuments: result.filing?.statistics?.filingsWithDocuments ?? 0,
+  statistics: result.filing?.statistics ?? null,
+  dateRange: result.filing?.dateRange ?? null,
+  officers: result.people?.totalOfficers ?? 0,
+  activeOfficers: result.people?.activeOfficers ?? 0,
+  resignedOfficers: result.people?.resignedOfficers ?? 0,
+  layoutPagesChecked: result.layout?.pagesChecked ?? 0,
+  layoutDrift: result.layout?.drift ?? [],
+  dataIssues: result.dataIssues
+};
+
+console.log('=== FIXTURE REPLAY SUMMARY ===');
+console.log(JSON.stringify(summary, null, 2));
+
+let expected: Record<string, number> = {};
+try {
+  expected = JSON.parse(await fs.readFile(path.join(fixtureDirectory, 'expected.json'), 'utf-8'));
+} catch (error) {
+  if (error.code !== 'ENOENT') throw error;
+}
+const mismatches = Object.entries(expected)
+  .filter(([key, value]) => summary[key] !== value)
+  .map(([key, value]) => `${key}: expected ${value}, got ${summary[key]}`);
+if (mismatches.length > 0) {
+  console.error(`Replay does not match ${path.join(fixtureDirectory, 'expected.json')}:\n  ${mismatches.join('\n  ')}`);
+  process.exit(1);
+}
+
+// Selector drift against the saved pages fails the replay too, so CI catches it before the live scraper does
+if ((!result.filing && !result.people) || (result.layout?.drift.length ?? 0) > 0) {
+  process.exit(1);
+}
@@ -1,30 +1,85 @@
 import { Stagehand } from "@browserbasehq/stagehand";
 import { z } from "zod";
 import 'dotenv/config';
+import { loadFixtureSet } from './fixtures.js';
+import { normalizeCompanyNumber, normalizeCompanyName, companyNumberFromName } from './company-number.js';
+import { documentFetcher, documentStore, selectDocuments, DocumentSelection, DocumentFetchSummary } from './documents.js';
+import { buildFinancialsSection, AccountsDocument, FinancialsSection } from './ixbrl.js';
+import { extractPdfText, PdfTextExtraction } from './pdf-text.js';
+import { CompaniesHouseApiSource } from './companies-house-api.js';
+import { databaseService } from './database.js';
+import { normalizeResultDates, parseDate, NormalizedDates } from './dates.js';
+import { StrategyTelemetry, ScrapeTelemetry } from './telemetry.js';
+import { LayoutMonitor, LayoutCheckSummary } from './layout.js';
+import { PageArchiver, SnapshotArchive, SnapshotOptions } from './snapshots.js';
+import { companiesHouseRateLimiter, isThrottleStatus, CompaniesHouseThrottleError } from './rate-limit.js';
+import { Deadline, DeadlineExceededError, ScrapeTimeout, SCRAPE_TIMEOUT } from './deadline.js';
+import { SectionTracker, SectionStatuses, SectionNavigationError, CompanyNotFoundError, classifySectionError, statusFromRuns } from './sections.js';
+import { SectionContext, SectionScraper, ExtractionStrategy, StrategyResult, QualityTally, getSectionPlugins, sectionPaths, checkSectionSchema } from './section-plugins.js';
+import { ScrapingConfig, getConfig } from './config.js';
+import { Provenance, ProvenanceSummary, attachProvenance, attachFieldProvenance, pageSource, setPageNumber, summarizeProvenance } from './provenance.js';
+import { FilingReconciliation, ReconciliationSummary, reconcileFilings, singleSourceFilings, summarizeReconciliation } from './reconcile.js';
 
 // Types and interfaces
-interface FilingData {
+export interface FilingData {
   date: string;
   description: string;
   type: string;
   status: string;
   documentLinks: DocumentLink[];
+  // ISO forms of the date fields above, keyed by field name (see dates.ts)
+  normalizedDates?: NormalizedDates;
+  // Source page, strategy and time of extraction (see provenance.ts)
+  provenance?: Provenance;
+  // Per-row agreement between strategies when filings were extracted in reconciliation mode
+  reconciliation?: FilingReconciliation;
 }
 
-interface DocumentLink {
+export interface DocumentLink {
   linkText: string;
   linkType: string;
   url: string;
   pageCount?: string;
+  // Set once the document has been downloaded into the document store
+  sha256?: string;
+  sizeBytes?: number;
+  mimeType?: string;
+  fetchedAt?: string;
+  fetchError?: string;
+  // Page-level text for downloaded PDFs (image-only scans are marked, not OCR'd)
+  textExtraction?: PdfTextExtraction;
 }
 
-interface PersonLink {
+export interface PersonLink {
   linkText: string;
   url: string;
   linkType: 'profile' | 'appointment' | 'other';
 }
 
-interface OfficerData {
+export interface OfficerAppointment {
+  companyName: string;
+  companyNumber: string;
+  companyStatus?: string;
+  role?: string;
+  appointedOn?: string;
+  resignedOn?: string;
+  url?: string;
+  normalizedDates?: NormalizedDates;
+  provenance?: Provenance;
+}
+
+export interface OfficerAppointmentHistory {
+  profileUrl: string;
+  totalAppointments: number;
+  // Appointments at companies other than the one being scraped
+  appointments: OfficerAppointment[];
+  activeAppointments: number;
+  dissolvedCompanies: number;
+  insolventCompanies: number;
+  pagesScraped: number;
+}
+
+export interface OfficerData {
   name: string;
   role: string;
   appointmentDate?: string;
@@ -34,17 +89,119 @@ interface OfficerData {
   address?: string;
   dateOfBirth?: string;
   links: PersonLink[];
+  appointmentHistory?: OfficerAppointmentHistory;
+  normalizedDates?: NormalizedDates;
+  provenance?: Provenance;
 }
 
-interface PeopleData {
+export interface PeopleData {
   officers: OfficerData[];
   totalOfficers: number;
   pagesScraped: number;
   activeOfficers: number;
   resignedOfficers: number;
+  appointmentHistoriesFetched?: number;
+}
+
+export interface PSCData {
+  kind: 'individual' | 'corporate-entity' | 'legal-person' | 'super-secure' | 'unknown';
+  name: string;
+  naturesOfControl: string[];
+  notifiedOn?: string;
+  ceasedOn?: string;
+  dateOfBirth?: string;
+  nationality?: string;
+  countryOfResidence?: string;
+  address?: string;
+  legalForm?: string;
+  governingLaw?: string;
+  placeRegistered?: string;
+  registrationNumber?: string;
+  normalizedDates?: NormalizedDates;
+  provenance?: Provenance;
+}
+
+export interface PSCStatement {
+  statement: string;
+  notifiedOn?: string;
+  withdrawnOn?: string;
+  normalizedDates?: NormalizedDates;
+  provenance?: Provenance;
+}
+
+export interface PSCSection {
+  persons: PSCData[];
+  statements: PSCStatement[];
+  totalPersons: number;
+  activePersons: number;
+  ceasedPersons: number;
+}
+
+export interface ChargeDocument {
+  filingType: string; // MR01, MR02, MR04, MR05 or 'Other'
+  description: string;
+  date?: string;
+  url: string;
+  normalizedDates?: NormalizedDates;
+}
+
+export interface ChargeData {
+  chargeCode?: string;
+  title: string;
+  status: 'outstanding' | 'satisfied' | 'part-satisfied' | 'unknown';
+  statusText: string;
+  createdOn?: string;
+  deliveredOn?: string;
+  satisfiedOn?: string;
+  personsEntitled: string[];
+  shortParticulars?: string;
+  containsFixedCharge?: boolean;
+  containsFloatingCharge?: boolean;
+  floatingChargeCoversAll?: boolean;
+  containsNegativePledge?: boolean;
+  detailUrl?: string;
+  documents: ChargeDocument[];
+  normalizedDates?: NormalizedDates;
+  provenance?: Provenance;
+}
+
+export interface ChargesSection {
+  charges: ChargeData[];
+  totalCharges: number;
+  outstanding: number;
+  satisfied: number;
+  partSatisfied: number;
+  pagesScraped: number;
+  detailPagesVisited: number;
+}
+
+export interface InsolvencyPractitioner {
+  name: string;
+  address?: string;
+  role?: string;
+  appointedOn?: string;
+  ceasedToActOn?: string;
+  normalizedDates?: NormalizedDates;
+}
+
+export interface InsolvencyCase {
+  caseNumber?: string;
+  caseType: string;
+  dates: Array<{ label: string; date: string; normalizedDates?: NormalizedDates }>;
+  practitioners: InsolvencyPractitioner[];
+  provenance?: Provenance;
+}
+
+export interface InsolvencySection {
+  hasInsolvencyHistory: boolean;
+  // True when cases were found or the company status itself indicates insolvency
+  insolvencyFlag: boolean;
+  cases: InsolvencyCase[];
+  totalCases: number;
+  caseTypes: string[];
 }
 
-interface ScrapingResult {
+export interface ScrapingResult {
   query: string;
   extractionTimestamp: string;
   qualityScore: number;
@@ -59,12 +216,147 @@ interface ScrapingResult {
       earliest: string;
       latest: string;
     };
+    // Site filter values when only some filing categories were scraped
+    categories?: string[];
+    incremental?: {
+      previousReportId?: string;
+      previousExtractionTimestamp?: string;
+      previousFilingCount: number;
+      newFilings: number;
+      reachedKnownFiling: boolean;
+    };
+    reconciliation?: ReconciliationSummary;
   };
   people?: any;
-  charges?: any;
+  psc?: PSCSection;
+  charges?: ChargesSection;
+  insolvency?: InsolvencySection;
+  documents?: DocumentFetchSummary;
+  financials?: FinancialsSection;
+  documentText?: DocumentTextSummary;
+  // Which source produced the result, and why the API was not used when it was requested
+  dataSource?: 'website' | 'api';
+  dataSourceFallback?: string;
+  // Which strategy won per section, attempt timings, LLM calls and failure reasons (website scraper only)
+  telemetry?: ScrapeTelemetry;
+  // Structural fingerprint results; drift is also reported as LAYOUT_CHANGED data issues
+  layout?: LayoutCheckSummary;
+  snapshots?: SnapshotArchive;
+  // Records per section and extraction method; each record carries its own provenance
+  provenance?: ProvenanceSummary;
+  // Set when the time budget ran out; the sections listed as completed are whole
+  timeout?: ScrapeTimeout;
+  // ok / empty / failed / skipped per section, with an error code for anything not read
+  sections?: SectionStatuses;
+}
+
+export interface DocumentTextSummary {
+  documentsProcessed: number;
+  extracted: number;
+  partial: number;
+  imageOnly: number;
+  failed: number;
+  pagesWithText: number;
+}
+
+export interface CompanySearchCandidate {
+  rank: number;
+  companyName: string;
+  companyNumber: string;
+  status: string;
+  incorporationDate?: string;
+  dissolutionDate?: string;
+  address?: string;
+  url: string;
+  exactMatch: boolean;
+}
+
+// Filing history category filter values used by the Companies House site (?category=...),
+// keyed by the names users tend to ask for
+export const FILING_HISTORY_CATEGORIES: Record<string, string> = {
+  'accounts': 'accounts',
+  'address': 'address',
+  'annual-returns': 'confirmation-statement',
+  'confirmation-statements': 'confirmation-statement',
+  'confirmation-statement': 'confirmation-statement',
+  'capital': 'capital',
+  'change-of-name': 'change-of-name',
+  'incorporation': 'incorporation',
+  'insolvency': 'insolvency',
+  'charges': 'mortgage',
+  'mortgage': 'mortgage',
+  'officers': 'officers',
+  'resolutions': 'resolution',
+  'resolution': 'resolution',
+  'persons-with-significant-control': 'persons-with-significant-control',
+  'psc': 'persons-with-significant-control',
+  'miscellaneous': 'miscellaneous'
+};
+
+// Maps user-supplied category names ("Confirmation statements", "charges") to site filter values
+export function resolveFilingCategories(categories: string[]): { valid: string[]; invalid: string[] } {
+  const valid: string[] = [];
+  const invalid: string[] = [];
+
+  categories.forEach(category => {
+    const key = category.trim().toLowerCase().replace(/[\s_]+/g, '-');
+    const value = FILING_HISTORY_CATEGORIES[key];
+    if (!value) invalid.push(category);
+    else if (!valid.includes(value)) valid.push(value);
+  });
+
+  return { valid, invalid };
+}
+
+// Filing history from a stored report, used to refresh incrementally
+export interface PreviousFilingHistory {
+  reportId?: string;
+  extractionTimestamp?: string;
+  filings: FilingData[];
+  categories?: string[];
+}
+
+export interface ScrapeOptions {
+  companyNumber?: string;
+  // 'api' uses the Companies House public data API and falls back to the website scraper on failure
+  dataSource?: 'website' | 'api';
+  // Stop paginating at the first filing already in this history and merge the new ones into it
+  previousFiling?: PreviousFilingHistory;
+  // Only scrape these filing history categories (see FILING_HISTORY_CATEGORIES)
+  filingCategories?: string[];
+  // Run both Direct DOM and (budget permitting) LLM filing extraction and merge them row by row
+  reconcileFilings?: boolean;
+  failOnAmbiguous?: boolean;
+  // Follow each officer's profile link and record their other appointments
+  enrichOfficerAppointments?: boolean;
+  maxOfficerProfiles?: number;
+  // End-to-end time budget for the whole scrape (default: ScrapingConfig.extraction.timeoutMs)
+  timeoutMs?: number;
+  // Download the selected filing documents into the content-addressed document store
+  downloadDocuments?: DocumentSelection;
+  // Download iXBRL accounts and parse headline figures into a multi-year financials section
+  extractFinancials?: boolean;
+  maxAccountsFilings?: number;
+  // Extract page-level text from downloaded PDFs (implies downloading PDFs when no selection is given)
+  extractDocumentText?: boolean;
+  // Archive the HTML (and optionally a screenshot) of every visited page with the report (default: on, false opts out)
+  archiveSnapshots?: boolean | SnapshotOptions;
+  // Effective config including per-request overrides (default: getConfig())
+  config?: ScrapingConfig;
+}
+
+// Raised instead of guessing when a name search matches several companies
+export class AmbiguousCompanyError extends Error {
+  candidates: CompanySearchCandidate[];
+
+  constructor(query: string, candidates: CompanySearchCandidate[]) {
+    super(`Ambiguous company search: "${query}" matched ${candidates.length} companies`);
+    this.name = 'AmbiguousCompanyError';
+    this.candidates = candidates;
+  }
 }
 
-interface FilingStatistics {
+export interface FilingStatistics {
   totalFilings: number;
   filingsWithDocuments: number;
   totalDocumentPages: number;
@@ -73,28 +365,46 @@ interface FilingStatistics {
 }
 
 // Enhanced utility functions
-class ScraperUtils {
+export class ScraperUtils {
   static async retryOperation<T>(
     operation: () => Promise<T>,
     maxRetries: number = 3,
     delay: number = 2000,
-    operationName: string = 'operation'
+    operationName: string = 'operation',
+    deadline?: Deadline
   ): Promise<T> {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         console.log(`${operationName} - Attempt ${attempt}/${maxRetries}`);
-        return await operation();
+        return deadline ? await deadline.race(operationName, operation) : await operation();
       } catch (error) {
+        // Another attempt cannot help once the scrape's time budget is spent
+        if (error instanceof DeadlineExceededError) throw error;
         console.log(`${operationName} attempt ${attempt} failed:`, error.message);
         if (attempt === maxRetries) {
-          throw new Error(`${operationName} failed after ${maxRetries} attempts: ${error.message}`);
+          throw new Error(`${operationName} failed after ${maxRetries} attempts: ${error.message}`, { cause: error });
+        }
+        if (deadline) {
+          await deadline.sleep(delay * attempt);
+        } else {
+          await new Promise(resolve => setTimeout(resolve, delay * attempt));
         }
-        await new Promise(resolve => setTimeout(resolve, delay * attempt));
       }
     }
     throw new Error(`Max retries exceeded for ${operationName}`);
   }
 
+  // Every Companies House navigation waits for the shared rate limiter (see rate-limit.ts).
+  // A 429/5xx page is an error, so retryOperation tries again once the limiter's backoff has passed.
+  static async politeGoto(page: any, url: string, deadline?: Deadline): Promise<void> {
+    await companiesHouseRateLimiter.acquire(url, deadline);
+    const response = await page.goto(url);
+    const status = typeof response?.status === 'function' ? response.status() : undefined;
+    if (status && isThrottleStatus(status)) {
+      throw new CompaniesHouseThrottleError(status, url);
+    }
+  }
+
   static async smartDelay(page: any, minDelay: number = 1000): Promise<void> {
     try {
       const complexity = await page.evaluate(() => {
@@ -148,14 +458,102 @@ class ScraperUtils {
     if (desc.includes("charge")) return "Charge Registration";
     return "Other";
   }
+
+  static calculateFilingStatistics(filings: FilingData[]): FilingStatistics {
+    const filingsWithDocs = filings.filter(f => f.documentLinks && f.documentLinks.length > 0);
+    const totalPages = filings
+      .flatMap(f => f.documentLinks || [])
+      .reduce((sum, link) => sum + parseInt(link.pageCount || "0"), 0);
+
+    const filingTypes: Record<string, number> = {};
+    filings.forEach(filing => {
+      filingTypes[filing.type] = (filingTypes[filing.type] || 0) + 1;
+    });
+
+    const stats = {
+      totalFilings: filings.length,
+      filingsWithDocuments: filingsWithDocs.length,
+      totalDocumentPages: totalPages,
+      documentSuccessRate: filings.length > 0 ? Math.round((filingsWithDocs.length / filings.length) * 100) : 0,
+      filingTypes: filingTypes
+    };
+
+    console.log("Filing statistics:", stats);
+    return stats;
+  }
+
+  static toAbsoluteUrl(href: string): string {
+    if (!href || href.startsWith('http')) return href;
+    return href.startsWith('/')
+      ? `https://find-and-update.company-information.service.gov.uk${href}`
+      : `https://find-and-update.company-information.service.gov.uk/${href}`;
+  }
+
+  // Normalize company names for comparison, e.g. "Acme Limited" and "ACME LTD." match
+  static normalizeCompanyName(name: string): string {
+    return normalizeCompanyName(name);
+  }
+
+  static buildPeopleData(officers: OfficerData[], pagesScraped: number): PeopleData {
+    return {
+      officers: officers,
+      totalOfficers: officers.length,
+      pagesScraped: pagesScraped,
+      activeOfficers: officers.filter(officer => !officer.resignationDate).length,
+      resignedOfficers: officers.filter(officer => officer.resignationDate).length
+    };
+  }
+
+  // Identity keys for matching a filing across scrapes: the transaction id from the document URL
+  // when there is one, date + description only for filings scraped without links. Two filings on
+  // the same day can share a description (e.g. two charge registrations), so that is not enough alone.
+  static filingKeys(filing: FilingData): string[] {
+    const transactionId = (filing.documentLinks || [])
+      .map(link => link.url?.match(/\/filing-history\/([A-Za-z0-9]+)\/document/)?.[1])
+      .find(Boolean);
+    if (transactionId) return [`tx:${transactionId}`];
+    return [`${filing.date}|${(filing.description || '').trim().toLowerCase().replace(/\s+/g, ' ')}`];
+  }
+
+  static calculateDateRange(filings: FilingData[]): { earliest: string; latest: string } | undefined {
+    // ISO strings sort chronologically; parsing by hand avoids new Date() shifting days across time zones
+    const validDates = filings
+      .map(f => f.normalizedDates?.date?.iso || parseDate(f.date)?.iso)
+      .filter((iso): iso is string => !!iso)
+      .sort();
+
+    if (validDates.length === 0) {
+      return undefined;
+    }
+
+    return {
+      earliest: validDates[0],
+      latest: validDates[validDates.length - 1]
+    };
+  }
+
+  // Shared by every data source so scores are comparable. Issues are appended to result.dataIssues.
+  static calculateQualityScore(result: ScrapingResult): number {
+    const tally: QualityTally = { score: 0, issues: [] };
+    getSectionPlugins().forEach(plugin => plugin.scoreQuality(result[plugin.resultKey], tally));
+    result.dataIssues.push(...tally.issues);
+    return Math.max(0, Math.min(100, tally.score));
+  }
 }
 
+// Below this the LLM cross-check in reconciliation mode is skipped and the Direct DOM rows stand alone
+const RECONCILE_MIN_REMAINING_MS = 60000;
+
 // Enhanced PDF extraction class with fixed DOM extraction
 class PDFExtractor {
   private page: any;
+  private telemetry: StrategyTelemetry;
+  private deadline: Deadline;
 
-  constructor(page: any) {
+  constructor(page: any, telemetry: StrategyTelemetry = new StrategyTelemetry(), deadline: Deadline = new Deadline()) {
     this.page = page;
+    this.telemetry = telemetry;
+    this.deadline = deadline;
   }
 
   async debugPageContent(): Promise<void> {
@@ -233,7 +631,7 @@ class PDFExtractor {
     
     await this.debugPageContent();
 
-    return await this.page.evaluate(() => {
+    const filings = await this.page.evaluate(() => {
       const results: any[] = [];
       
       // Target the Companies House filing table specifically
@@ -305,13 +703,10 @@ class PDFExtractor {
         });
         
         if (date && description) {
-          // Categorize filing type if not explicitly provided
-          const filingType = type || this.categorizeFilingType(description);
-          
           results.push({
             date: date,
             description: description,
-            type: filingType,
+            type: type,
             status: 'Filed',
             documentLinks: documentLinks
           });
@@ -321,6 +716,13 @@ class PDFExtractor {
       console.log(`DOM extraction found ${results.length} filings with ${results.reduce((sum, filing) => sum + filing.documentLinks.length, 0)} PDF links`);
       return results;
     });
+
+    // Categorize filing types outside the browser context - the evaluated function
+    // is serialized, so it cannot call methods on this class
+    return filings.map((filing: FilingData) => ({
+      ...filing,
+      type: filing.type || this.categorizeFilingType(filing.description)
+    }));
   }
 
   async extractWithLLM(): Promise<FilingData[]> {
@@ -510,7 +912,80 @@ class PDFExtractor {
     return filings;
   }
 
-  async extractWithMultipleStrategies(): Promise<FilingData[]> {
+  private attachFilingProvenance(filings: FilingData[], strategy: string): void {
+    const source = pageSource(this.page, strategy);
+    attachProvenance(filings, source);
+    if (source.method === 'hybrid') {
+      // Dates and descriptions come from the DOM; only the document links are read by the LLM
+      filings.forEach(filing => attachFieldProvenance(filing, ['documentLinks'], { ...source, method: 'llm' }));
+    }
+  }
+
+  // Reconciliation mode: Direct DOM, then the LLM strategy while the time budget allows, merged row by
+  // row. The Hybrid Approach is only tried when neither found filings with document links.
+  async extractWithReconciliation(): Promise<FilingData[]> {
+    const strategies = [
+      { name: 'Direct DOM', method: () => this.extractWithDirectDOM(), fallback: false },
+      { name: 'LLM with URL type', method: () => this.extractWithLLM(), fallback: false },
+      { name: 'Hybrid Approach', method: () => this.extractWithHybridApproach(), fallback: true }
+    ];
+
+    const run = this.telemetry.startRun('filing history', 'extraction');
+    const found: Array<{ strategy: string; filings: FilingData[] }> = [];
+    for (const strategy of strategies) {
+      if (strategy.fallback && found.length > 0) break;
+      if (found.length > 0 && this.deadline.remainingMs() < RECONCILE_MIN_REMAINING_MS) {
+        console.log(`Skipping ${strategy.name} cross-check - less than ${RECONCILE_MIN_REMAINING_MS / 1000}s of the time budget left`);
+        break;
+      }
+      const attempt = run.attempt(strategy.name);
+      try {
+        console.log(`Trying ${strategy.name} extraction strategy for reconciliation...`);
+        const results = await this.deadline.race('filing history extraction', strategy.method);
+        if (results && results.length > 0) {
+          // Same check as the default path: rows without any document links are not a usable read
+          const filingsWithPDFs = results.filter(f => f.documentLinks && f.documentLinks.length > 0);
+          console.log(`${strategy.name} strategy found ${results.length} filings, ${filingsWithPDFs.length} have document links`);
+          if (filingsWithPDFs.length > 0) {
+            attempt.succeed(results.length);
+            this.attachFilingProvenance(results, strategy.name);
+            found.push({ strategy: strategy.name, filings: results });
+          } else {
+            attempt.fail('rejected', 'Filings found but no document links', results.length);
+          }
+        } else {
+          attempt.fail('empty', 'No filings found');
+        }
+      } catch (error) {
+        console.log(`${strategy.name} strategy failed:`, error.message);
+        attempt.fail('error', error.message);
+        // Rows already read are kept; the cross-check is what ran out of time
+        if (error instanceof DeadlineExceededError) {
+          if (found.length === 0) throw error;
+          break;
+        }
+      }
+    }
+
+    if (found.length === 0) {
+      console.log("All PDF extraction strategies failed");
+      return [];
+    }
+    if (found.length === 1) {
+      return singleSourceFilings(found[0].filings, found[0].strategy);
+    }
+
+    const [primary, secondary] = found;
+    run.declareWinner(`${primary.strategy} + ${secondary.strategy}`);
+    const merged = reconcileFilings(primary.filings, secondary.filings, primary.strategy, secondary.strategy);
+    const summary = summarizeReconciliation(merged)!;
+    console.log(`Reconciled ${primary.filings.length} ${primary.strategy} and ${secondary.filings.length} ${secondary.strategy} filings: ${summary.agreed} agreed, ${summary.conflicts} in conflict, ${summary.filledFields} fields filled`);
+    return merged;
+  }
+
+  async extractWithMultipleStrategies(reconcile: boolean = false): Promise<FilingData[]> {
+    if (reconcile) return this.extractWithReconciliation();
+
     // Try more reliable strategies first, then fall back to others
     const strategies = [
       { name: 'Direct DOM', method: () => this.extractWithDirectDOM() },
@@ -518,10 +993,12 @@ class PDFExtractor {
       { name: 'Hybrid Approach', method: () => this.extractWithHybridApproach() }
     ];
 
+    const run = this.telemetry.startRun('filing history', 'extraction');
     for (const strategy of strategies) {
+      const attempt = run.attempt(strategy.name);
       try {
         console.log(`Trying ${strategy.name} extraction strategy...`);
-        const results = await strategy.method();
+        const results = await this.deadline.race('filing history extraction', strategy.method);
         
         if (results && results.length > 0) {
           // Validate that we have actual PDF links
@@ -529,12 +1006,19 @@ class PDFExtractor {
           console.log(`${strategy.name} strategy succeeded with ${results.length} filings, ${filingsWithPDFs.length} have document links`);
           
           if (filingsWithPDFs.length > 0) {
+            attempt.succeed(results.length);
+            this.attachFilingProvenance(results, strategy.name);
             return results;
           }
           console.log(`${strategy.name} found filings but no PDF links, trying next strategy...`);
+          attempt.fail('rejected', 'Filings found but no document links', results.length);
+        } else {
+          attempt.fail('empty', 'No filings found');
         }
       } catch (error) {
         console.log(`${strategy.name} strategy failed:`, error.message);
+        attempt.fail('error', error.message);
+        if (error instanceof DeadlineExceededError) throw error;
       }
     }
 
@@ -546,9 +1030,13 @@ class PDFExtractor {
 // Enhanced People extraction class with multi-page support and URL extraction
 class PeopleExtractor {
   private page: any;
+  private telemetry: StrategyTelemetry;
+  private deadline: Deadline;
 
-  constructor(page: any) {
+  constructor(page: any, telemetry: StrategyTelemetry = new StrategyTelemetry(), deadline: Deadline = new Deadline()) {
     this.page = page;
+    this.telemetry = telemetry;
+    this.deadline = deadline;
   }
 
   async debugPeoplePageContent(): Promise<void> {
@@ -795,20 +1283,26 @@ class PeopleExtractor {
       { name: 'Direct DOM', method: () => this.extractWithDirectDOM() }
     ];
 
+    const run = this.telemetry.startRun('people', 'extraction');
     for (const strategy of strategies) {
+      const attempt = run.attempt(strategy.name);
       try {
         console.log(`Trying ${strategy.name} people extraction strategy...`);
-        const results = await strategy.method();
+        const results = await this.deadline.race('people extraction', strategy.method);
         
         if (results && results.length > 0) {
           const officersWithLinks = results.filter(officer => officer.links && officer.links.length > 0);
           console.log(`${strategy.name} strategy succeeded with ${results.length} officers, ${officersWithLinks.length} have clickable links`);
           
           // Return results even if some don't have links, as basic officer info is still valuable
-          return results;
+          attempt.succeed(results.length);
+          return attachProvenance(results, pageSource(this.page, strategy.name));
         }
+        attempt.fail('empty', 'No officers found');
       } catch (error) {
         console.log(`${strategy.name} strategy failed:`, error.message);
+        attempt.fail('error', error.message);
+        if (error instanceof DeadlineExceededError) throw error;
       }
     }
 
@@ -817,144 +1311,910 @@ class PeopleExtractor {
   }
 }
 
-// Enhanced navigation class
-class Navigator {
+// Insolvency case extraction - case types, key dates and appointed practitioners
+class InsolvencyExtractor {
   private page: any;
+  private telemetry: StrategyTelemetry;
+  private deadline: Deadline;
 
-  constructor(page: any) {
+  constructor(page: any, telemetry: StrategyTelemetry = new StrategyTelemetry(), deadline: Deadline = new Deadline()) {
     this.page = page;
+    this.telemetry = telemetry;
+    this.deadline = deadline;
   }
 
-  async navigateToSection(sectionName: string): Promise<boolean> {
-    console.log(`Navigating to ${sectionName} section...`);
+  async extractWithDirectDOM(): Promise<InsolvencyCase[]> {
+    console.log("Extracting insolvency cases using direct DOM manipulation...");
+
+    // As with the PSC extractor, keep named helper functions out of the serialized body
+    return await this.page.evaluate(() => {
+      const cases: any[] = [];
+      const datePattern = /\d{1,2}\s+\w+\s+\d{4}/;
+      const caseHeadings = Array.from(document.querySelectorAll('h2'))
+        .filter(heading => /case number/i.test(heading.textContent || ''));
+
+      for (const heading of caseHeadings) {
+        // Cases are either wrapped in their own container or laid out as siblings up to the next case heading
+        let region: Element[] = [];
+        const parent = heading.parentElement;
+        const parentCaseCount = parent
+          ? Array.from(parent.querySelectorAll('h2')).filter(h => /case number/i.test(h.textContent || '')).length
+          : 0;
+        if (parent && parentCaseCount === 1 && parent.children.length > 1) {
+          region = Array.from(parent.children).filter(child => child !== heading);
+        } else {
+          let sibling = heading.nextElementSibling;
+          while (sibling && !(sibling.tagName === 'H2' && /case number/i.test(sibling.textContent || ''))) {
+            region.push(sibling);
+            sibling = sibling.nextElementSibling;
+          }
+        }
+
+        const caseNumberMatch = (heading.textContent || '').match(/case number\s*(\S+)/i);
+        const practitionersIndex = region.findIndex(element => /^practitioners?$/i.test((element.textContent || '').trim()));
+        const caseDetails = practitionersIndex >= 0 ? region.slice(0, practitionersIndex) : region;
+        const practitionerRegion = practitionersIndex >= 0 ? region.slice(practitionersIndex + 1) : [];
+
+        const typeElement = caseDetails.find(element => /^H[3-4]$/.test(element.tagName)) ||
+          caseDetails.map(element => element.querySelector('h3, h4, [id*="case-type"]')).find(Boolean);
+        const caseType = (typeElement?.textContent || '').replace(/\s+/g, ' ').trim();
+
+        const dates: any[] = [];
+        caseDetails.forEach(element => {
+          element.querySelectorAll('dt').forEach(dt => {
+            const dd = dt.nextElementSibling;
+            const value = (dd?.textContent || '').replace(/\s+/g, ' ').trim();
+            if (dd && dd.tagName === 'DD' && datePattern.test(value)) {
+              dates.push({ label: (dt.textContent || '').replace(/\s+/g, ' ').trim(), date: value });
+            }
+          });
+        });
+
+        const practitioners: any[] = [];
+        practitionerRegion.forEach(element => {
+          let nameElements = Array.from(element.querySelectorAll('[id*="practitioner"][id*="name"], .practitioner-name, strong'));
+          if (nameElements.length === 0 && element.matches('[id*="practitioner"][id*="name"], .practitioner-name, strong')) {
+            nameElements.push(element);
+          }
+          // A name cell often wraps a <strong> - keep only the outermost match
+          nameElements = nameElements.filter(candidate => !nameElements.some(other => other !== candidate && other.contains(candidate)));
+
+          nameElements.forEach((nameElement, index) => {
+            const name = (nameElement.textContent || '').replace(/\s+/g, ' ').trim();
+            if (!name) return;
+
+            // Details belong to this practitioner until the next name element
+            const nextName = nameElements[index + 1];
+            const detailElements = Array.from(element.querySelectorAll('dt, dd, p, [id*="address"]')).filter(detail =>
+              (nameElement.compareDocumentPosition(detail) & Node.DOCUMENT_POSITION_FOLLOWING) &&
+              (!nextName || (nextName.compareDocumentPosition(detail) & Node.DOCUMENT_POSITION_PRECEDING)) &&
+              !detail.contains(nameElement)
+            );
+
+            const practitioner: any = { name };
+            detailElements.forEach(detail => {
+              const text = (detail.textContent || '').replace(/\s+/g, ' ').trim();
+              if (detail.tagName === 'DT') {
+                const label = text.toLowerCase();
+                const value = (detail.nextElementSibling?.textContent || '').replace(/\s+/g, ' ').trim();
+                if (label.startsWith('appointed')) practitioner.appointedOn = value;
+                else if (label.startsWith('ceased')) practitioner.ceasedToActOn = value;
+                else if (label.startsWith('role') || label.includes('type')) practitioner.role = value;
+                else if (label.startsWith('address')) practitioner.address = value;
+              } else if (!practitioner.address && (/address/i.test(detail.id) || (text.includes(',') && !datePattern.test(text)))) {
+                if (detail.tagName !== 'DD' || detail.previousElementSibling?.tagName !== 'DT') {
+                  practitioner.address = text;
+                }
+              }
+            });
+
+            practitioners.push(practitioner);
+          });
+        });
+
+        cases.push({
+          caseNumber: caseNumberMatch ? caseNumberMatch[1] : undefined,
+          caseType,
+          dates,
+          practitioners
+        });
+      }
+
+      return cases;
+    });
+  }
+
+  async extractWithLLM(): Promise<InsolvencyCase[]> {
+    console.log("Extracting insolvency cases using LLM...");
 
+    try {
+      const result = await this.page.extract({
+        instruction: `Extract every insolvency case from this Companies House insolvency page.
+        For each case, extract:
+        1. Case number
+        2. Case type (e.g. "Creditors voluntary liquidation", "Administration", "Receiver/Manager appointed")
+        3. Every case date with its label (e.g. "Commencement of winding up", "Administration started", "Dissolved on")
+        4. Every practitioner: name, full address, role, appointed on date and ceased to act date`,
+        schema: z.object({
+          cases: z.array(z.object({
+            caseNumber: z.string().optional(),
+            caseType: z.string(),
+            dates: z.array(z.object({
+              label: z.string(),
+              date: z.string()
+            })),
+            practitioners: z.array(z.object({
+              name: z.string(),
+              address: z.string().optional(),
+              role: z.string().optional(),
+              appointedOn: z.string().optional(),
+              ceasedToActOn: z.string().optional()
+            }))
+          }))
+        })
+      });
+
+      console.log(`LLM extraction found ${result.cases.length} insolvency cases`);
+      return result.cases;
+    } catch (error) {
+      console.log("LLM insolvency extraction failed:", error.message);
+      return [];
+    }
+  }
+
+  async extractWithMultipleStrategies(): Promise<InsolvencyCase[]> {
     const strategies = [
-      () => this.clickTabLink(sectionName),
-      () => this.directURLNavigation(sectionName),
-      () => this.searchAndClick(sectionName)
+      { name: 'Direct DOM', method: () => this.extractWithDirectDOM() },
+      { name: 'LLM', method: () => this.extractWithLLM() }
     ];
 
-    for (let i = 0; i < strategies.length; i++) {
+    const run = this.telemetry.startRun('insolvency', 'extraction');
+    for (const strategy of strategies) {
+      const attempt = run.attempt(strategy.name);
       try {
-        console.log(`Trying navigation approach ${i + 1} for ${sectionName}...`);
-        await strategies[i]();
-        await ScraperUtils.waitForPageLoad(this.page);
-        
-        // Verify navigation worked
-        const currentUrl = this.page.url();
-        const pageTitle = await this.page.evaluate(() => document.title);
-        
-        console.log(`Navigation result - URL: ${currentUrl}, Title: ${pageTitle}`);
-        
-        if (currentUrl.toLowerCase().includes(sectionName.toLowerCase().replace(' ', '-')) ||
-            pageTitle.toLowerCase().includes(sectionName.toLowerCase())) {
-          console.log(`Successfully navigated to ${sectionName} using approach ${i + 1}`);
-          return true;
+        console.log(`Trying ${strategy.name} insolvency extraction strategy...`);
+        const results = await this.deadline.race('insolvency extraction', strategy.method);
+
+        // Missing a case type or practitioner is too costly for credit checks - fall through to the next strategy
+        if (results && results.length > 0 && results.every(c => c.caseType && c.practitioners.length > 0)) {
+          console.log(`${strategy.name} strategy succeeded with ${results.length} insolvency cases`);
+          attempt.succeed(results.length);
+          return attachProvenance(results, pageSource(this.page, strategy.name));
+        }
+        if (results && results.length > 0) {
+          console.log(`${strategy.name} found ${results.length} cases with incomplete details, trying next strategy...`);
+          attempt.fail('rejected', 'Cases found with missing case type or practitioners', results.length);
+        } else {
+          attempt.fail('empty', 'No insolvency cases found');
         }
       } catch (error) {
-        console.log(`Navigation approach ${i + 1} failed:`, error.message);
+        console.log(`${strategy.name} strategy failed:`, error.message);
+        attempt.fail('error', error.message);
+        if (error instanceof DeadlineExceededError) throw error;
       }
     }
 
-    throw new Error(`Failed to navigate to ${sectionName} section`);
+    console.log("All insolvency extraction strategies failed");
+    return [];
   }
+}
 
-  private async clickTabLink(sectionName: string): Promise<void> {
-    await this.page.act(`Click on the link or tab that contains "${sectionName}"`);
+// Charges extraction - the charges list plus each charge's detail page and MR01/MR04 documents
+class ChargesExtractor {
+  private page: any;
+  private telemetry: StrategyTelemetry;
+  private deadline: Deadline;
+
+  constructor(page: any, telemetry: StrategyTelemetry = new StrategyTelemetry(), deadline: Deadline = new Deadline()) {
+    this.page = page;
+    this.telemetry = telemetry;
+    this.deadline = deadline;
   }
 
-  private async directURLNavigation(sectionName: string): Promise<void> {
-    const currentUrl = this.page.url();
-    const baseUrl = currentUrl.split(/[?#]/)[0].replace(/\/(filing-history|officers|people|charges|more)$/, '');
-    
-    const sectionPaths: Record<string, string> = {
-      'filing history': '/filing-history',
-      'people': '/officers',
-      'officers': '/officers',
-      'charges': '/charges',
-      'more': '/more'
-    };
+  async extractListWithDirectDOM(): Promise<ChargeData[]> {
+    console.log("Extracting charges list using direct DOM manipulation...");
 
-    const targetPath = sectionPaths[sectionName.toLowerCase()];
-    if (!targetPath) {
-      throw new Error(`Unknown section: ${sectionName}`);
-    }
+    // Serialized into the browser - no named helper functions (see readPSCWithDirectDOM in section-plugins.ts)
+    const rawCharges = await this.page.evaluate(() => {
+      const results: any[] = [];
+      const blocks = Array.from(document.querySelectorAll('[class^="mortgage-"], [class*=" mortgage-"]'));
+
+      for (const block of blocks) {
+        const headingLink = block.querySelector('h2 a, h3 a');
+        const heading = (block.querySelector('h2, h3')?.textContent || '').replace(/\s+/g, ' ').trim();
+        if (!heading) continue;
+
+        const fields: Record<string, string[]> = {};
+        let currentLabel = '';
+        block.querySelectorAll('dt, dd').forEach(element => {
+          const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+          if (element.tagName === 'DT') {
+            currentLabel = text.toLowerCase();
+            fields[currentLabel] = fields[currentLabel] || [];
+          } else if (currentLabel) {
+            const listItems = Array.from(element.querySelectorAll('li'));
+            if (listItems.length > 0) {
+              listItems.forEach(item => fields[currentLabel].push((item.textContent || '').replace(/\s+/g, ' ').trim()));
+            } else if (text) {
+              fields[currentLabel].push(text);
+            }
+          }
+        });
 
-    const targetUrl = baseUrl + targetPath;
-    console.log(`Direct navigation to: ${targetUrl}`);
-    await this.page.goto(targetUrl);
-  }
+        const values: Record<string, string[]> = {};
+        Object.keys(fields).forEach(label => {
+          if (label.startsWith('created')) values.createdOn = fields[label];
+          else if (label.startsWith('delivered')) values.deliveredOn = fields[label];
+          else if (label.startsWith('satisfied')) values.satisfiedOn = fields[label];
+          else if (label.startsWith('status')) values.status = fields[label];
+          else if (label.startsWith('persons entitled') || label.startsWith('chargee')) values.personsEntitled = fields[label];
+          else if (label.includes('particulars') || label.startsWith('brief description') || label.startsWith('description')) values.shortParticulars = fields[label];
+        });
 
-  private async searchAndClick(sectionName: string): Promise<void> {
-    await this.page.evaluate((section: string) => {
-      const elements = Array.from(document.querySelectorAll('a, button, [role="button"]'));
-      const target = elements.find((el: Element) => 
-        el.textContent?.toLowerCase().includes(section.toLowerCase())
-      );
-      if (target) {
-        (target as HTMLElement).click();
-      } else {
-        throw new Error(`Could not find clickable element for ${section}`);
+        const href = headingLink?.getAttribute('href') || '';
+        results.push({
+          heading,
+          href,
+          createdOn: values.createdOn?.[0],
+          deliveredOn: values.deliveredOn?.[0],
+          satisfiedOn: values.satisfiedOn?.[0],
+          statusText: values.status?.join(' ') || '',
+          personsEntitled: (values.personsEntitled || []).filter(Boolean),
+          shortParticulars: values.shortParticulars?.join(' ')
+        });
       }
-    }, sectionName);
-  }
-}
-
-// Main scraper class
-class CompaniesHouseScraper {
-  private stagehand: any;
-  private page: any;
-  private navigator: Navigator;
-  private pdfExtractor: PDFExtractor;
-  private peopleExtractor: PeopleExtractor;
 
-  constructor() {
-    // Use BrowserBase if API key is available, otherwise fallback to LOCAL
-    const useBrowserBase = process.env.BROWSERBASE_API_KEY && process.env.BROWSERBASE_PROJECT_ID;
-    
-    this.stagehand = new Stagehand({
-      env: useBrowserBase ? "BROWSERBASE" : "LOCAL",
-      apiKey: useBrowserBase ? process.env.BROWSERBASE_API_KEY : undefined,
-      projectId: useBrowserBase ? process.env.BROWSERBASE_PROJECT_ID : undefined,
-      modelName: "claude-3-5-sonnet-20241022",
-      modelClientOptions: {
-        apiKey: process.env.ANTHROPIC_API_KEY
-      },
-      enableCaching: true,
-      verbose: 1,
-      domSettleTimeoutMs: 10000 // Increased for remote browser
+      return results;
     });
-    
-    console.log(`🌐 Using ${useBrowserBase ? 'BrowserBase (Remote)' : 'Local'} browser environment`);
-  }
 
-  async initialize(): Promise<void> {
-    await this.stagehand.init();
-    this.page = this.stagehand.page;
-    this.navigator = new Navigator(this.page);
-    this.pdfExtractor = new PDFExtractor(this.page);
-    this.peopleExtractor = new PeopleExtractor(this.page);
+    return rawCharges.map((raw: any) => this.buildCharge(raw));
   }
 
-  async searchCompany(companyName: string): Promise<void> {
-    console.log(`Searching for company: ${companyName}`);
-
-    await ScraperUtils.retryOperation(async () => {
-      await this.page.goto("https://find-and-update.company-information.service.gov.uk");
-      await ScraperUtils.waitForPageLoad(this.page);
-    }, 3, 2000, 'Initial navigation');
+  async extractListWithLLM(): Promise<ChargeData[]> {
+    console.log("Extracting charges list using LLM...");
 
-    // Handle cookies
     try {
-      await this.page.act("Accept cookies if there is a cookie banner");
-      await ScraperUtils.smartDelay(this.page, 1000);
-    } catch (e) {
-      console.log("No cookie banner found or already handled");
+      const result = await this.page.extract({
+        instruction: `Extract every charge listed on this Companies House charges page.
+        For each charge, extract:
+        1. The heading (e.g. "Charge code 0123 4567 8901" or the charge description for older charges)
+        2. The URL of the charge detail link in the heading
+        3. Created date, delivered date and satisfied date (if any)
+        4. Status exactly as shown (e.g. "Outstanding", "Fully Satisfied", "Part Satisfied")
+        5. ALL persons entitled (chargees)
+        6. The short particulars / brief description`,
+        schema: z.object({
+          charges: z.array(z.object({
+            heading: z.string(),
+            href: z.string().optional(),
+            createdOn: z.string().optional(),
+            deliveredOn: z.string().optional(),
+            satisfiedOn: z.string().optional(),
+            statusText: z.string(),
+            personsEntitled: z.array(z.string()),
+            shortParticulars: z.string().optional()
+          }))
+        })
+      });
+
+      console.log(`LLM extraction found ${result.charges.length} charges`);
+      return result.charges.map((raw: any) => this.buildCharge(raw));
+    } catch (error) {
+      console.log("LLM charges extraction failed:", error.message);
+      return [];
+    }
+  }
+
+  async extractListWithMultipleStrategies(): Promise<ChargeData[]> {
+    const strategies = [
+      { name: 'Direct DOM', method: () => this.extractListWithDirectDOM() },
+      { name: 'LLM', method: () => this.extractListWithLLM() }
+    ];
+
+    const run = this.telemetry.startRun('charges', 'extraction');
+    for (const strategy of strategies) {
+      const attempt = run.attempt(strategy.name);
+      try {
+        console.log(`Trying ${strategy.name} charges extraction strategy...`);
+        const results = await this.deadline.race('charges extraction', strategy.method);
+
+        if (results && results.length > 0) {
+          console.log(`${strategy.name} strategy succeeded with ${results.length} charges`);
+          attempt.succeed(results.length);
+          return attachProvenance(results, pageSource(this.page, strategy.name));
+        }
+        attempt.fail('empty', 'No charges found');
+      } catch (error) {
+        console.log(`${strategy.name} strategy failed:`, error.message);
+        attempt.fail('error', error.message);
+        if (error instanceof DeadlineExceededError) throw error;
+      }
+    }
+
+    console.log("All charges extraction strategies failed");
+    return [];
+  }
+
+  // Reads the charge detail page: particulars, charge flags and the MR01/MR04 transactions
+  async extractDetail(charge: ChargeData): Promise<ChargeData> {
+    const detail = await this.page.evaluate(() => {
+      const fields: Record<string, string> = {};
+      let currentLabel = '';
+      document.querySelectorAll('dt, dd, h3').forEach(element => {
+        const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+        if (element.tagName === 'DT' || element.tagName === 'H3') {
+          currentLabel = text.toLowerCase();
+        } else if (currentLabel && text) {
+          fields[currentLabel] = fields[currentLabel] ? `${fields[currentLabel]}, ${text}` : text;
+        }
+      });
+
+      const documents: any[] = [];
+      const rows = Array.from(document.querySelectorAll('table tr')).slice(1);
+      rows.forEach(row => {
+        const cells = Array.from(row.querySelectorAll('td'));
+        const link = row.querySelector('a[href*="document"], a.download');
+        if (!link || cells.length === 0) return;
+        const rowText = cells.map(cell => (cell.textContent || '').replace(/\s+/g, ' ').trim());
+        documents.push({
+          date: rowText.find(text => /^\d{1,2}\s+\w+\s+\d{4}$/.test(text)),
+          description: rowText.filter(text => !/^\d{1,2}\s+\w+\s+\d{4}$/.test(text) && !/view pdf|download/i.test(text)).join(' ').trim(),
+          href: link.getAttribute('href') || ''
+        });
+      });
+
+      // Newer charges list the charge flags as bullet statements rather than labelled fields
+      const statements = Array.from(document.querySelectorAll('li, p'))
+        .map(element => (element.textContent || '').replace(/\s+/g, ' ').trim())
+        .filter(text => /^(contains|floating charge covers)/i.test(text));
+
+      return { fields, documents, statements };
+    });
+
+    const field = (prefix: string): string | undefined => {
+      const key = Object.keys(detail.fields).find(label => label.startsWith(prefix));
+      return key ? detail.fields[key] : undefined;
+    };
+    const flag = (prefix: string): boolean | undefined => {
+      const value = field(prefix);
+      if (value !== undefined) return /^yes|^true|tick/i.test(value);
+      if (detail.statements.length === 0) return undefined;
+      return detail.statements.some((statement: string) => statement.toLowerCase().startsWith(prefix));
+    };
+
+    const documents: ChargeDocument[] = detail.documents.map((doc: any) => {
+      const explicitType = (doc.description.match(/\b(MR0\d)\b/i) || [])[1];
+      let filingType = explicitType ? explicitType.toUpperCase() : 'Other';
+      if (!explicitType) {
+        const description = doc.description.toLowerCase();
+        if (description.includes('satisfaction')) filingType = 'MR04';
+        else if (description.includes('acquisition')) filingType = 'MR02';
+        else if (description.includes('release') || description.includes('ceas')) filingType = 'MR05';
+        else if (description.includes('registration')) filingType = 'MR01';
+      }
+      return {
+        filingType,
+        description: doc.description,
+        date: doc.date,
+        url: ScraperUtils.toAbsoluteUrl(doc.href)
+      };
+    });
+
+    const detailed: ChargeData = {
+      ...charge,
+      shortParticulars: field('short particulars') || field('brief description') || charge.shortParticulars,
+      containsFixedCharge: flag('contains fixed charge'),
+      containsFloatingCharge: flag('contains floating charge'),
+      floatingChargeCoversAll: flag('floating charge covers all'),
+      containsNegativePledge: flag('contains negative pledge'),
+      personsEntitled: charge.personsEntitled.length > 0
+        ? charge.personsEntitled
+        : (field('persons entitled') || '').split(', ').filter(Boolean),
+      documents
+    };
+
+    // Only the fields this page actually supplied come from the detail page
+    const detailFields = (['shortParticulars', 'containsFixedCharge', 'containsFloatingCharge', 'floatingChargeCoversAll', 'containsNegativePledge', 'personsEntitled'] as const)
+      .filter(key => detailed[key] !== charge[key]);
+    attachFieldProvenance(detailed, [...detailFields, 'documents'], pageSource(this.page, 'Charge detail DOM', 'dom'));
+    return detailed;
+  }
+
+  private buildCharge(raw: any): ChargeData {
+    const heading: string = raw.heading || '';
+    const codeMatch = heading.match(/charge code\s*([\d\s]+)/i);
+    const statusText: string = raw.statusText || '';
+
+    let status: ChargeData['status'] = 'unknown';
+    if (/part/i.test(statusText)) status = 'part-satisfied';
+    else if (/satisfied|released|ceased/i.test(statusText)) status = 'satisfied';
+    else if (/outstanding/i.test(statusText)) status = 'outstanding';
+
+    return {
+      chargeCode: codeMatch ? codeMatch[1].replace(/\s+/g, '') : undefined,
+      title: heading,
+      status,
+      statusText,
+      createdOn: raw.createdOn || undefined,
+      deliveredOn: raw.deliveredOn || undefined,
+      satisfiedOn: raw.satisfiedOn || undefined,
+      personsEntitled: raw.personsEntitled || [],
+      shortParticulars: raw.shortParticulars || undefined,
+      detailUrl: raw.href ? ScraperUtils.toAbsoluteUrl(raw.href) : undefined,
+      documents: []
+    };
+  }
+}
+
+// Officer appointments extraction - reads an officer's "appointments" page
+class OfficerAppointmentsExtractor {
+  private page: any;
+  private telemetry: StrategyTelemetry;
+  private deadline: Deadline;
+
+  constructor(page: any, telemetry: StrategyTelemetry = new StrategyTelemetry(), deadline: Deadline = new Deadline()) {
+    this.page = page;
+    this.telemetry = telemetry;
+    this.deadline = deadline;
+  }
+
+  async extractWithDirectDOM(): Promise<{ totalAppointments: number; appointments: OfficerAppointment[] }> {
+    console.log("Extracting officer appointments using direct DOM manipulation...");
+
+    // Serialized into the browser - no named helper functions (see readPSCWithDirectDOM in section-plugins.ts)
+    return await this.page.evaluate(() => {
+      const appointments: any[] = [];
+      const blocks = Array.from(document.querySelectorAll('[class^="appointment-"], [class*=" appointment-"]'));
+
+      for (const block of blocks) {
+        const companyLink = block.querySelector('h2 a, h3 a, a[href*="/company/"]');
+        const headingText = (companyLink?.textContent || '').replace(/\s+/g, ' ').trim();
+        const href = companyLink?.getAttribute('href') || '';
+        const numberMatch = href.match(/\/company\/([A-Z0-9]{8})/i) || headingText.match(/\(([A-Z0-9]{8})\)\s*$/i);
+        if (!headingText || !numberMatch) continue;
+
+        const values: Record<string, string> = {};
+        block.querySelectorAll('dt').forEach(dt => {
+          const label = (dt.textContent || '').replace(/\s+/g, ' ').trim().toLowerCase();
+          const value = (dt.nextElementSibling?.textContent || '').replace(/\s+/g, ' ').trim();
+          if (label.startsWith('company status')) values.companyStatus = value;
+          else if (label === 'role' || label.startsWith('role')) values.role = value;
+          else if (label.startsWith('appointed')) values.appointedOn = value;
+          else if (label.startsWith('resigned')) values.resignedOn = value;
+        });
+
+        appointments.push({
+          companyName: headingText.replace(/\s*\([A-Z0-9]{8}\)\s*$/i, ''),
+          companyNumber: numberMatch[1].toUpperCase(),
+          companyStatus: values.companyStatus || undefined,
+          role: values.role ? values.role.replace(/\s*resigned\s*$/i, '').trim() : undefined,
+          appointedOn: values.appointedOn || undefined,
+          resignedOn: values.resignedOn || undefined,
+          url: href ? new URL(href, window.location.href).href : undefined
+        });
+      }
+
+      const totalText = (document.querySelector('#personal-appointments, .appointment-count, h2#appointments-count')?.textContent || document.body.textContent || '');
+      const totalMatch = totalText.match(/total number of appointments\s*(\d+)/i);
+
+      return {
+        totalAppointments: totalMatch ? parseInt(totalMatch[1]) : appointments.length,
+        appointments
+      };
+    });
+  }
+
+  async extractWithLLM(): Promise<{ totalAppointments: number; appointments: OfficerAppointment[] }> {
+    console.log("Extracting officer appointments using LLM...");
+
+    try {
+      const result = await this.page.extract({
+        instruction: `Extract every company appointment listed on this Companies House officer appointments page.
+        For each appointment, extract the company name, company number (8 characters, usually in brackets after the name),
+        company status (e.g. Active, Dissolved, Liquidation), role, appointed on date and resigned on date (if resigned).
+        Also extract the "Total number of appointments" figure.`,
+        schema: z.object({
+          totalAppointments: z.number().optional(),
+          appointments: z.array(z.object({
+            companyName: z.string(),
+            companyNumber: z.string(),
+            companyStatus: z.string().optional(),
+            role: z.string().optional(),
+            appointedOn: z.string().optional(),
+            resignedOn: z.string().optional()
+          }))
+        })
+      });
+
+      console.log(`LLM extraction found ${result.appointments.length} appointments`);
+      return {
+        totalAppointments: result.totalAppointments ?? result.appointments.length,
+        appointments: result.appointments.map((appointment: any) => ({
+          ...appointment,
+          companyNumber: appointment.companyNumber.replace(/\s+/g, '').toUpperCase(),
+          url: ScraperUtils.toAbsoluteUrl(`/company/${appointment.companyNumber.replace(/\s+/g, '').toUpperCase()}`)
+        }))
+      };
+    } catch (error) {
+      console.log("LLM appointments extraction failed:", error.message);
+      return { totalAppointments: 0, appointments: [] };
+    }
+  }
+
+  async extractWithMultipleStrategies(): Promise<{ totalAppointments: number; appointments: OfficerAppointment[] }> {
+    const strategies = [
+      { name: 'Direct DOM', method: () => this.extractWithDirectDOM() },
+      { name: 'LLM', method: () => this.extractWithLLM() }
+    ];
+
+    const run = this.telemetry.startRun('officer appointments', 'extraction');
+    for (const strategy of strategies) {
+      const attempt = run.attempt(strategy.name);
+      try {
+        console.log(`Trying ${strategy.name} appointments extraction strategy...`);
+        const results = await this.deadline.race('officer appointments extraction', strategy.method);
+
+        if (results && results.appointments.length > 0) {
+          console.log(`${strategy.name} strategy succeeded with ${results.appointments.length} appointments`);
+          attempt.succeed(results.appointments.length);
+          attachProvenance(results.appointments, pageSource(this.page, strategy.name));
+          return results;
+        }
+        attempt.fail('empty', 'No appointments found');
+      } catch (error) {
+        console.log(`${strategy.name} strategy failed:`, error.message);
+        attempt.fail('error', error.message);
+        if (error instanceof DeadlineExceededError) throw error;
+      }
+    }
+
+    console.log("All appointments extraction strategies failed");
+    return { totalAppointments: 0, appointments: [] };
+  }
+}
+
+// Post-processing of filing documents (download, PDF text, iXBRL financials). None of this
+// needs the browser, so every data source runs the same steps over its filing history.
+export class FilingDocumentProcessor {
+  // Documents are fetched over plain HTTP - no browser needed - and the hash, size and
+  // MIME type are written back onto each DocumentLink so the report can cite the stored copy
+  static async downloadDocuments(filings: FilingData[], selection: DocumentSelection = {}, deadline: Deadline = new Deadline()): Promise<DocumentFetchSummary> {
+    const links = selectDocuments(filings, selection, ScraperUtils.categorizeFilingType);
+    return await documentFetcher.fetchAll(links, deadline);
+  }
+
+  // Runs over PDFs already in the document store and stores the page text on each DocumentLink
+  static async extractText(filings: FilingData[], deadline: Deadline = new Deadline()): Promise<DocumentTextSummary> {
+    const summary: DocumentTextSummary = { documentsProcessed: 0, extracted: 0, partial: 0, imageOnly: 0, failed: 0, pagesWithText: 0 };
+    const links = filings
+      .flatMap(filing => filing.documentLinks || [])
+      .filter(link => link.sha256 && link.mimeType === 'application/pdf' && !link.textExtraction);
+
+    for (const link of links) {
+      if (deadline.expired) break;
+      const blob = await documentFetcher.getStore().get(link.sha256!);
+      if (!blob) continue;
+
+      const textExtraction = await extractPdfText(blob.data);
+      if (deadline.expired) break;
+      link.textExtraction = textExtraction;
+      summary.documentsProcessed++;
+      summary.pagesWithText += link.textExtraction.pages.filter(page => page.text.length > 0).length;
+
+      switch (link.textExtraction.status) {
+        case 'extracted': summary.extracted++; break;
+        case 'partial': summary.partial++; break;
+        case 'image-only': summary.imageOnly++; break;
+        default:
+          summary.failed++;
+          console.warn(`PDF text extraction failed for ${link.url}:`, link.textExtraction.error);
+      }
+    }
+
+    console.log(`PDF text extracted: ${summary.extracted} with text, ${summary.partial} partial, ${summary.imageOnly} image-only, ${summary.failed} failed`);
+    return summary;
+  }
+
+  // Reads the most recent iXBRL accounts through the document store. Paper-filed (PDF only)
+  // accounts have no tagged facts, so they are skipped rather than counted as failures.
+  static async extractFinancials(filings: FilingData[], maxAccountsFilings: number = 5, deadline: Deadline = new Deadline()): Promise<FinancialsSection | null> {
+    try {
+      const links = selectDocuments(filings, { linkTypes: ['iXBRL'], filingTypes: ['Accounts'], maxDocuments: maxAccountsFilings }, ScraperUtils.categorizeFilingType);
+      if (links.length === 0) {
+        console.log("No iXBRL accounts found in filing history");
+        return null;
+      }
+
+      const pending = links.filter(link => !link.sha256);
+      if (pending.length > 0) {
+        await documentFetcher.fetchAll(pending, deadline);
+        if (deadline.expired) return null;
+      }
+
+      const documents: AccountsDocument[] = [];
+      for (const link of links) {
+        if (!link.sha256) continue;
+        const blob = await documentFetcher.getStore().get(link.sha256);
+        if (blob) {
+          const filing = filings.find(f => f.documentLinks.includes(link as DocumentLink));
+          documents.push({ source: link.sha256, filingDate: filing?.date, content: blob.data.toString('utf-8') });
+        }
+      }
+
+      const financials = buildFinancialsSection(documents);
+      console.log(`Financials extracted: ${financials.periods.length} periods from ${financials.documentsParsed} accounts (${financials.metricsFound.join(', ') || 'no metrics'})`);
+
+      return financials.periods.length > 0 ? financials : null;
+    } catch (error) {
+      console.error("Financials extraction failed:", error.message);
+      return null;
+    }
+  }
+
+  // Stops at the deadline: nothing is written onto the result once the scrape may have returned it
+  static async process(result: ScrapingResult, options: ScrapeOptions, deadline: Deadline = new Deadline()): Promise<void> {
+    if (!result.filing) return;
+
+    const documentSelection = options.downloadDocuments || (options.extractDocumentText ? { linkTypes: ['PDF'] } : undefined);
+    if (documentSelection) {
+      const documents = await this.downloadDocuments(result.filing.filings, documentSelection, deadline);
+      deadline.check('document download');
+      result.documents = documents;
+      if (result.documents.failed > 0) {
+        result.dataIssues.push(`${result.documents.failed} of ${result.documents.requested} documents could not be downloaded`);
+      }
+    }
+
+    if (options.extractDocumentText) {
+      const documentText = await this.extractText(result.filing.filings, deadline);
+      deadline.check('document text extraction');
+      result.documentText = documentText;
+      if (result.documentText.imageOnly > 0) {
+        result.dataIssues.push(`${result.documentText.imageOnly} downloaded PDF(s) are scanned images with no text layer`);
+      }
+    }
+
+    if (options.extractFinancials) {
+      const financials = await this.extractFinancials(result.filing.filings, options.maxAccountsFilings, deadline);
+      deadline.check('financials extraction');
+      result.financials = financials;
+      if (!result.financials) {
+        result.dataIssues.push("No structured financials could be read from iXBRL accounts");
+      }
+    }
+  }
+}
+
+// Enhanced navigation class
+class Navigator {
+  private page: any;
+  private telemetry: StrategyTelemetry;
+  private deadline: Deadline;
+
+  constructor(page: any, telemetry: StrategyTelemetry = new StrategyTelemetry(), deadline: Deadline = new Deadline()) {
+    this.page = page;
+    this.telemetry = telemetry;
+    this.deadline = deadline;
+  }
+
+  async navigateToSection(sectionName: string): Promise<boolean> {
+    console.log(`Navigating to ${sectionName} section...`);
+
+    const strategies = [
+      { name: 'Tab link click', method: () => this.clickTabLink(sectionName) },
+      { name: 'Direct URL', method: () => this.directURLNavigation(sectionName) },
+      { name: 'Search and click', method: () => this.searchAndClick(sectionName) }
+    ];
+
+    const run = this.telemetry.startRun(sectionName.toLowerCase(), 'navigation');
+    for (let i = 0; i < strategies.length; i++) {
+      const attempt = run.attempt(strategies[i].name);
+      try {
+        console.log(`Trying navigation approach ${i + 1} for ${sectionName}...`);
+        const pageTitle = await this.deadline.race(`${sectionName} navigation`, async () => {
+          await strategies[i].method();
+          await ScraperUtils.waitForPageLoad(this.page);
+          return this.page.evaluate(() => document.title);
+        });
+        
+        // Verify navigation worked
+        const currentUrl = this.page.url();
+        
+        console.log(`Navigation result - URL: ${currentUrl}, Title: ${pageTitle}`);
+        
+        if (currentUrl.toLowerCase().includes(sectionName.toLowerCase().replace(' ', '-')) ||
+            pageTitle.toLowerCase().includes(sectionName.toLowerCase())) {
+          console.log(`Successfully navigated to ${sectionName} using approach ${i + 1}`);
+          attempt.succeed();
+          return true;
+        }
+        attempt.fail('rejected', 'Landed on a page that does not match the section');
+      } catch (error) {
+        console.log(`Navigation approach ${i + 1} failed:`, error.message);
+        attempt.fail('error', error.message);
+        if (error instanceof DeadlineExceededError) throw error;
+      }
+    }
+
+    throw new SectionNavigationError(sectionName);
+  }
+
+  private async clickTabLink(sectionName: string): Promise<void> {
+    await companiesHouseRateLimiter.acquire(`${sectionName} tab`, this.deadline);
+    await this.page.act(`Click on the link or tab that contains "${sectionName}"`);
+  }
+
+  private async directURLNavigation(sectionName: string): Promise<void> {
+    const currentUrl = this.page.url();
+    const paths = sectionPaths();
+    // Anchor on /company/{number} so this also works from nested pages such as a charge's detail page
+    const companyMatch = currentUrl.match(/^(.*?\/company\/[A-Z0-9]{8})/i);
+    const baseUrl = companyMatch
+      ? companyMatch[1]
+      : currentUrl.split(/[?#]/)[0].replace(new RegExp(`(${Object.values(paths).join('|')})$`), '');
+    
+    const targetPath = paths[sectionName.toLowerCase()];
+    if (!targetPath) {
+      throw new Error(`Unknown section: ${sectionName}`);
+    }
+
+    const targetUrl = baseUrl + targetPath;
+    console.log(`Direct navigation to: ${targetUrl}`);
+    await ScraperUtils.politeGoto(this.page, targetUrl, this.deadline);
+  }
+
+  private async searchAndClick(sectionName: string): Promise<void> {
+    await companiesHouseRateLimiter.acquire(`${sectionName} link`, this.deadline);
+    await this.page.evaluate((section: string) => {
+      const elements = Array.from(document.querySelectorAll('a, button, [role="button"]'));
+      const target = elements.find((el: Element) => 
+        el.textContent?.toLowerCase().includes(section.toLowerCase())
+      );
+      if (target) {
+        (target as HTMLElement).click();
+      } else {
+        throw new Error(`Could not find clickable element for ${section}`);
+      }
+    }, sectionName);
+  }
+}
+
+// Website scraper sections in the order scrapeCompany runs them
+function scrapeSections(): string[] {
+  return [
+    ...getSectionPlugins().flatMap(plugin => plugin.resultKey === 'people' ? [plugin.name, 'officer appointments'] : [plugin.name]),
+    'documents'
+  ];
+}
+
+// Main scraper class
+class CompaniesHouseScraper implements SectionScraper {
+  private stagehand: any;
+  // Section plugins read from the page directly
+  page: any;
+  private navigator: Navigator;
+  private pdfExtractor: PDFExtractor;
+  private peopleExtractor: PeopleExtractor;
+  private insolvencyExtractor: InsolvencyExtractor;
+  private chargesExtractor: ChargesExtractor;
+  private appointmentsExtractor: OfficerAppointmentsExtractor;
+  private telemetry = new StrategyTelemetry();
+  private layoutMonitor = new LayoutMonitor();
+  private archiver: PageArchiver | null = null;
+  // Armed per scrape in scrapeCompany and shared with every extractor
+  private deadline = new Deadline();
+  private sections = new SectionTracker();
+  private config: ScrapingConfig;
+
+  constructor(config: ScrapingConfig = getConfig()) {
+    this.config = config;
+    // BrowserBase is selected by getConfig when both of its credentials are set
+    const useBrowserBase = config.stagehand.env === 'BROWSERBASE';
+
+    this.stagehand = new Stagehand({
+      env: config.stagehand.env,
+      apiKey: useBrowserBase ? config.stagehand.apiKey : undefined,
+      projectId: useBrowserBase ? config.stagehand.projectId : undefined,
+      modelName: config.stagehand.modelName,
+      modelClientOptions: {
+        apiKey: config.llm.apiKey
+      },
+      enableCaching: config.stagehand.enableCaching,
+      verbose: config.stagehand.verbose,
+      domSettleTimeoutMs: config.stagehand.domSettleTimeoutMs
+    });
+    
+    console.log(`🌐 Using ${useBrowserBase ? 'BrowserBase (Remote)' : 'Local'} browser environment`);
+  }
+
+  async initialize(): Promise<void> {
+    await this.stagehand.init();
+    // Counts act/extract/observe calls for the strategy telemetry
+    this.page = this.telemetry.instrumentPage(this.stagehand.page);
+    // 429/5xx responses to any navigation, including clicks, pause every scraper in the process
+    companiesHouseRateLimiter.watch(this.stagehand.page);
+    this.navigator = new Navigator(this.page, this.telemetry, this.deadline);
+    this.pdfExtractor = new PDFExtractor(this.page, this.telemetry, this.deadline);
+    this.peopleExtractor = new PeopleExtractor(this.page, this.telemetry, this.deadline);
+    this.insolvencyExtractor = new InsolvencyExtractor(this.page, this.telemetry, this.deadline);
+    this.chargesExtractor = new ChargesExtractor(this.page, this.telemetry, this.deadline);
+    this.appointmentsExtractor = new OfficerAppointmentsExtractor(this.page, this.telemetry, this.deadline);
+  }
+
+  // One page of a paginated section (or a step after the data is read); null once the time budget
+  // is spent, so the pages already read are kept. Navigation errors wrap the deadline error, hence
+  // the expired check.
+  private async withinBudget<T>(operation: string, work: () => Promise<T>): Promise<T | null> {
+    if (this.deadline.expired) return null;
+    try {
+      return await this.deadline.race(operation, work);
+    } catch (error) {
+      if (error instanceof DeadlineExceededError || this.deadline.expired) return null;
+      throw error;
+    }
+  }
+
+  async archivePage(pageType: string): Promise<void> {
+    if (this.archiver) await this.deadline.race(`${pageType} archive`, () => this.archiver!.capture(this.page, pageType));
+  }
+
+  async navigateToSection(tab: string): Promise<boolean> {
+    return this.navigator.navigateToSection(tab);
+  }
+
+  // Strategy loop for plugin sections without an extractor class of their own
+  async runStrategies<R>(section: string, strategies: ExtractionStrategy<R>[], isUsable: (value: R) => boolean = value => value !== null && value !== undefined): Promise<StrategyResult<R> | null> {
+    const run = this.telemetry.startRun(section, 'extraction');
+    for (const strategy of strategies) {
+      const attempt = run.attempt(strategy.name);
+      try {
+        console.log(`Trying ${strategy.name} ${section} extraction strategy...`);
+        const value = await this.deadline.race(`${section} extraction`, () => strategy.run(this.page));
+        if (isUsable(value)) {
+          console.log(`${strategy.name} strategy succeeded for ${section}`);
+          attempt.succeed();
+          return { value, strategy: strategy.name };
+        }
+        attempt.fail('empty', `No ${section} data found`);
+      } catch (error) {
+        console.log(`${strategy.name} strategy failed:`, error.message);
+        attempt.fail('error', error.message);
+        if (error instanceof DeadlineExceededError) throw error;
+      }
+    }
+
+    console.log(`All ${section} extraction strategies failed`);
+    return null;
+  }
+
+  async searchCompany(companyName: string): Promise<void> {
+    console.log(`Searching for company: ${companyName}`);
+
+    // A name the bulk company index resolves to one company skips the site search entirely
+    const indexedCompany = await databaseService.resolveIndexedCompanyName(companyName);
+    if (indexedCompany) {
+      console.log(`Resolved "${companyName}" to ${indexedCompany.company_number} from the company index`);
+      await this.goToCompany(indexedCompany.company_number);
+      return;
+    }
+
+    await ScraperUtils.retryOperation(async () => {
+      await ScraperUtils.politeGoto(this.page, "https://find-and-update.company-information.service.gov.uk", this.deadline);
+      await ScraperUtils.waitForPageLoad(this.page);
+    }, this.config.extraction.maxRetries, this.config.extraction.retryDelay, 'Initial navigation', this.deadline);
+
+    // Handle cookies
+    try {
+      await this.page.act("Accept cookies if there is a cookie banner");
+      await ScraperUtils.smartDelay(this.page, 1000);
+    } catch (e) {
+      console.log("No cookie banner found or already handled");
     }
 
     // Perform search
     await ScraperUtils.retryOperation(async () => {
       await this.page.act(`Type "${companyName}" into the company search input field`);
+      await companiesHouseRateLimiter.acquire('company search', this.deadline);
       await this.page.act("Click the search button");
       await ScraperUtils.waitForPageLoad(this.page);
       
@@ -967,33 +2227,145 @@ class CompaniesHouseScraper {
       if (!hasResults) {
         throw new Error("Search did not return results");
       }
-    }, 3, 2000, 'Company search');
+    }, this.config.extraction.maxRetries, this.config.extraction.retryDelay, 'Company search', this.deadline);
+
+    // Select first result
+    await this.deadline.race('Company search result selection', async () => {
+      await companiesHouseRateLimiter.acquire('first search result', this.deadline);
+      await this.page.act("Click on the first company result");
+      await ScraperUtils.waitForPageLoad(this.page);
+    });
+  }
+
+  // Read the ranked search results without clicking anything, so callers can disambiguate
+  async searchCandidates(query: string, limit: number = 20): Promise<CompanySearchCandidate[]> {
+    console.log(`Searching for candidate companies: ${query}`);
+
+    const searchUrl = `https://find-and-update.company-information.service.gov.uk/search/companies?q=${encodeURIComponent(query)}`;
+    await ScraperUtils.retryOperation(async () => {
+      await ScraperUtils.politeGoto(this.page, searchUrl, this.deadline);
+      await ScraperUtils.waitForPageLoad(this.page);
+    }, this.config.extraction.maxRetries, this.config.extraction.retryDelay, 'Company search results navigation', this.deadline);
+
+    const rawResults = await this.deadline.race('Company search results', async () => this.page.evaluate(() => {
+      const items = Array.from(document.querySelectorAll('#results li.type-company, ul.results-list li'));
+      return items.map(item => {
+        const link = item.querySelector('h3 a, a[href*="/company/"]');
+        const href = link?.getAttribute('href') || '';
+        const meta = item.querySelector('p.meta, .crumbtrail')?.textContent?.replace(/\s+/g, ' ').trim() || '';
+        const paragraphs = Array.from(item.querySelectorAll('p')).filter(p => !p.classList.contains('meta'));
+        return {
+          name: link?.textContent?.replace(/\s+/g, ' ').trim() || '',
+          href,
+          meta,
+          address: paragraphs.map(p => p.textContent?.replace(/\s+/g, ' ').trim()).filter(Boolean).join(', ')
+        };
+      }).filter(result => result.name && result.href.includes('/company/'));
+    }));
+
+    const normalizedQuery = ScraperUtils.normalizeCompanyName(query);
+    const candidates = rawResults.map((raw: any, index: number) => {
+      const numberMatch = raw.href.match(/\/company\/([A-Z0-9]{8})/i);
+      const incorporatedMatch = raw.meta.match(/Incorporated on (\d{1,2} \w+ \d{4})/i);
+      const dissolvedMatch = raw.meta.match(/Dissolved on (\d{1,2} \w+ \d{4})/i);
+      const fullUrl = raw.href.startsWith('/')
+        ? `https://find-and-update.company-information.service.gov.uk${raw.href}`
+        : raw.href;
+
+      return {
+        rank: index + 1,
+        companyName: raw.name,
+        companyNumber: numberMatch ? numberMatch[1].toUpperCase() : '',
+        status: dissolvedMatch || /dissolved/i.test(raw.meta) ? 'dissolved' : 'active',
+        incorporationDate: incorporatedMatch ? incorporatedMatch[1] : undefined,
+        dissolutionDate: dissolvedMatch ? dissolvedMatch[1] : undefined,
+        address: raw.address || undefined,
+        url: fullUrl,
+        exactMatch: ScraperUtils.normalizeCompanyName(raw.name) === normalizedQuery
+      };
+    }).filter((candidate: CompanySearchCandidate) => candidate.companyNumber);
+
+    // Exact name matches first, then active companies, otherwise keep Companies House relevance order
+    candidates.sort((a: CompanySearchCandidate, b: CompanySearchCandidate) => {
+      if (a.exactMatch !== b.exactMatch) return a.exactMatch ? -1 : 1;
+      if (a.status !== b.status) return a.status === 'active' ? -1 : 1;
+      return a.rank - b.rank;
+    });
+
+    const ranked = candidates.slice(0, limit).map((candidate: CompanySearchCandidate, index: number) => ({
+      ...candidate,
+      rank: index + 1
+    }));
+
+    console.log(`Found ${ranked.length} candidate companies for "${query}"`);
+    return ranked;
+  }
+
+  // Resolve a name to exactly one company, or fail with the candidate list instead of guessing
+  async resolveUnambiguousCompany(query: string): Promise<CompanySearchCandidate> {
+    const candidates = await this.searchCandidates(query);
+
+    if (candidates.length === 0) {
+      throw new CompanyNotFoundError(`No companies found matching "${query}"`);
+    }
+
+    const exactMatches = candidates.filter(candidate => candidate.exactMatch);
+    if (candidates.length === 1) return candidates[0];
+    if (exactMatches.length === 1) return exactMatches[0];
+
+    throw new AmbiguousCompanyError(query, candidates);
+  }
+
+  // Go straight to the company page when the number is already known - no search, no act() calls
+  async goToCompany(companyNumber: string): Promise<void> {
+    const normalizedNumber = normalizeCompanyNumber(companyNumber);
+    if (!normalizedNumber) {
+      throw new Error(`Invalid company number: ${companyNumber}`);
+    }
+
+    console.log(`Navigating directly to company: ${normalizedNumber}`);
 
-    // Select first result
-    await this.page.act("Click on the first company result");
-    await ScraperUtils.waitForPageLoad(this.page);
+    const companyUrl = `https://find-and-update.company-information.service.gov.uk/company/${normalizedNumber}`;
+    await ScraperUtils.retryOperation(async () => {
+      await ScraperUtils.politeGoto(this.page, companyUrl, this.deadline);
+      await ScraperUtils.waitForPageLoad(this.page);
+    }, this.config.extraction.maxRetries, this.config.extraction.retryDelay, 'Company page navigation', this.deadline);
+
+    const pageCheck = await this.deadline.race('Company page check', async () => this.page.evaluate(() => ({
+      title: document.title,
+      hasCompanyHeader: !!document.querySelector('.company-header, #company-name')
+    })));
+
+    if (!pageCheck.hasCompanyHeader && /not found/i.test(pageCheck.title)) {
+      throw new CompanyNotFoundError(`Company ${normalizedNumber} not found on Companies House`);
+    }
   }
 
   async extractOverview(): Promise<any> {
     console.log("Extracting company overview...");
 
     try {
-      const overview = await this.page.extract({
-        instruction: "Extract complete company details including name, number, status, incorporation date, type, and registered address",
-        schema: z.object({
-          companyName: z.string(),
-          companyNumber: z.string(),
-          status: z.string(),
-          incorporationDate: z.string().optional(),
-          companyType: z.string().optional(),
-          registeredAddress: z.string().optional()
-        })
+      const overview = await this.deadline.race('overview extraction', async () => {
+        await this.archivePage('overview');
+        return this.page.extract({
+          instruction: "Extract complete company details including name, number, status, incorporation date, type, and registered address",
+          schema: z.object({
+            companyName: z.string(),
+            companyNumber: z.string(),
+            status: z.string(),
+            incorporationDate: z.string().optional(),
+            companyType: z.string().optional(),
+            registeredAddress: z.string().optional()
+          })
+        });
       });
 
       console.log("Overview extracted successfully");
-      return overview;
+      // page.extract is the only overview strategy
+      return { ...overview, provenance: pageSource(this.page, 'LLM extract', 'llm') };
     } catch (error) {
       console.error("Overview extraction failed:", error.message);
+      this.sections.fail('overview', error);
       return null;
     }
   }
@@ -1002,10 +2374,10 @@ class CompaniesHouseScraper {
   private async hasNextFilingPage(): Promise<boolean> {
     try {
       // Check if there's a "Next" link or an enabled "Next" button
-      const hasNextPage = await this.page.evaluate(() => {
+      const hasNextPage = await this.deadline.race('next filing page check', async () => this.page.evaluate(() => {
         const nextLink = document.querySelector('a#next-page:not([aria-disabled="true"])');
         return !!nextLink;
-      });
+      }));
       
       return hasNextPage;
     } catch (error) {
@@ -1016,18 +2388,19 @@ class CompaniesHouseScraper {
 
   private async navigateToNextFilingPage(): Promise<void> {
     try {
-      // Click the "Next" link/button using act
-      await this.page.act("Click on the 'Next' link or button");
+      // Click the "Next" link/button using act; one rate limit token covers the whole navigation
+      await companiesHouseRateLimiter.acquire('next page', this.deadline);
+      await this.deadline.race('next filing page', async () => this.page.act("Click on the 'Next' link or button"));
       
       // Double-check if click worked
-      const clickResult = await this.page.evaluate(() => {
+      const clickResult = await this.deadline.race('next filing page', async () => this.page.evaluate(() => {
         const nextLink = document.querySelector('a#next-page:not([aria-disabled="true"])');
         if (nextLink) {
           (nextLink as HTMLElement).click();
           return true;
         }
         return false;
-      });
+      }));
       
       if (!clickResult) {
         console.log("Next button click with act() and direct DOM didn't work, trying URL-based navigation");
@@ -1050,20 +2423,20 @@ class CompaniesHouseScraper {
           : `${currentUrl}?page=${nextPageNum}`;
         
         console.log(`Navigating to next page URL: ${nextUrl}`);
-        await this.page.goto(nextUrl);
+        await ScraperUtils.politeGoto(this.page, nextUrl, this.deadline);
       }
       
       console.log("Navigated to next filing page");
       return;
     } catch (error) {
-      throw new Error(`Failed to navigate to next filing page: ${error.message}`);
+      throw new Error(`Failed to navigate to next filing page: ${error.message}`, { cause: error });
     }
   }
 
   private async getTotalPageCount(): Promise<number> {
     try {
       // Try to determine total number of pages
-      const pageCount = await this.page.evaluate(() => {
+      const pageCount = await this.deadline.race('pagination check', async () => this.page.evaluate(() => {
         // Look for pagination links and get the highest number
         const pageLinks = Array.from(document.querySelectorAll('.govuk-pagination__item a[data-page]'));
         if (pageLinks.length === 0) return 1;
@@ -1075,7 +2448,7 @@ class CompaniesHouseScraper {
         });
         
         return maxPage;
-      });
+      }));
       
       return pageCount || 1;
     } catch (error) {
@@ -1093,37 +2466,33 @@ class CompaniesHouseScraper {
         return;
       }
       
-      // Try to click the page number directly
-      const clickedPage = await this.page.evaluate((pageNum) => {
-        const pageLink = document.querySelector(`a#pageNo${pageNum}[data-page="${pageNum}"]`);
-        if (pageLink) {
-          (pageLink as HTMLElement).click();
-          return true;
-        }
-        return false;
-      }, pageNumber);
+      // Try to click the page number directly; the URL fallback takes its own rate limit token
+      const pageSelector = `a#pageNo${pageNumber}[data-page="${pageNumber}"]`;
+      const hasPageLink = await this.page.evaluate((selector: string) => !!document.querySelector(selector), pageSelector);
       
-      if (clickedPage) {
+      if (hasPageLink) {
+        await companiesHouseRateLimiter.acquire(`page ${pageNumber}`, this.deadline);
+        await this.page.evaluate((selector: string) => (document.querySelector(selector) as HTMLElement | null)?.click(), pageSelector);
         console.log(`Clicked on page ${pageNumber} link`);
         await ScraperUtils.waitForPageLoad(this.page);
         return;
       }
       
-      // Fallback to URL-based navigation
-      const currentUrl = this.page.url();
-      const baseUrl = currentUrl.split('?')[0];
-      await this.page.goto(`${baseUrl}?page=${pageNumber}`);
+      // Fallback to URL-based navigation - keep other query parameters such as category filters
+      const pageUrl = new URL(this.page.url());
+      pageUrl.searchParams.set('page', String(pageNumber));
+      await ScraperUtils.politeGoto(this.page, pageUrl.toString(), this.deadline);
       console.log(`Navigated to page ${pageNumber} via URL`);
       await ScraperUtils.waitForPageLoad(this.page);
     } catch (error) {
-      throw new Error(`Failed to navigate to filing page ${pageNumber}: ${error.message}`);
+      throw new Error(`Failed to navigate to filing page ${pageNumber}: ${error.message}`, { cause: error });
     }
   }
 
   private async getCurrentFilingPage(): Promise<number> {
     try {
       // Try to determine current page number
-      const currentPage = await this.page.evaluate(() => {
+      const currentPage = await this.deadline.race('pagination check', async () => this.page.evaluate(() => {
         // Look for current page in URL
         const pageMatch = window.location.href.match(/[?&]page=(\d+)/);
         if (pageMatch) return parseInt(pageMatch[1]);
@@ -1133,7 +2502,7 @@ class CompaniesHouseScraper {
         if (activePage) return parseInt(activePage.getAttribute('data-page') || '1');
         
         return 1; // Default to page 1
-      });
+      }));
       
       return currentPage || 1;
     } catch (error) {
@@ -1143,15 +2512,64 @@ class CompaniesHouseScraper {
   }
 
   // Enhanced filing history extraction with pagination support
-  async extractFilingHistory(maxPages: number = 10): Promise<any> {
+  // Applies the site's category filter so that maxPages only covers the requested categories
+  private async applyFilingCategoryFilter(categories: string[]): Promise<string[]> {
+    const offered: string[] = await this.page.evaluate(() =>
+      Array.from(document.querySelectorAll('input[name="category"]')).map(input => (input as HTMLInputElement).value)
+    );
+
+    // If the filter form isn't found we still try the URL - the form may simply be collapsed or renamed
+    const applied = offered.length > 0 ? categories.filter(category => offered.includes(category)) : categories;
+    const unavailable = categories.filter(category => !applied.includes(category));
+    if (unavailable.length > 0) {
+      console.warn(`Filing categories not offered by the site: ${unavailable.join(', ')}`);
+    }
+    if (applied.length === 0) {
+      throw new Error(`None of the requested filing categories are available (${categories.join(', ')})`);
+    }
+
+    const filterUrl = new URL(this.page.url());
+    filterUrl.search = '';
+    applied.forEach(category => filterUrl.searchParams.append('category', category));
+
+    console.log(`Filtering filing history to categories: ${applied.join(', ')}`);
+    await ScraperUtils.politeGoto(this.page, filterUrl.toString(), this.deadline);
+    return applied;
+  }
+
+  async extractFilingHistory(maxPages: number = 10, categories: string[] = [], previousFiling?: PreviousFilingHistory, reconcile: boolean = false): Promise<any> {
     console.log("Extracting filing history...");
 
     try {
-      // First navigate to Filing history section
-      await this.navigator.navigateToSection("Filing history");
+      let appliedCategories: string[] | undefined;
+      await this.deadline.race('filing history navigation', async () => {
+        // First navigate to Filing history section
+        await this.navigator.navigateToSection("Filing history");
+        
+        // Wait for page to fully load
+        await ScraperUtils.waitForPageLoad(this.page);
+
+        if (categories.length > 0) {
+          const { valid, invalid } = resolveFilingCategories(categories);
+          if (invalid.length > 0) {
+            console.warn(`Ignoring unknown filing categories: ${invalid.join(', ')}`);
+          }
+          appliedCategories = await this.applyFilingCategoryFilter(valid);
+          await ScraperUtils.waitForPageLoad(this.page);
+        }
+      });
       
-      // Wait for page to fully load
-      await ScraperUtils.waitForPageLoad(this.page);
+      // Incremental mode only makes sense when the stored history covers the same categories
+      let knownKeys: Set<string> | null = null;
+      if (previousFiling?.filings?.length) {
+        const sameCategories = [...(previousFiling.categories || [])].sort().join(',') === [...(appliedCategories || [])].sort().join(',');
+        if (sameCategories) {
+          knownKeys = new Set(previousFiling.filings.flatMap(filing => ScraperUtils.filingKeys(filing)));
+          console.log(`Incremental refresh against ${previousFiling.filings.length} previously stored filings`);
+        } else {
+          console.log("Stored filing history used different category filters - doing a full refresh");
+        }
+      }
       
       // Get an estimate of total pages (this helps us decide on the extraction strategy)
       const estimatedTotalPages = await this.getTotalPageCount();
@@ -1160,27 +2578,46 @@ class CompaniesHouseScraper {
       // Initialize an array to store filings from all pages
       let allFilings: FilingData[] = [];
       let pagesScraped = 0;
+      let reachedKnownFiling = false;
       
       // Limit the number of pages to scan to avoid excessive processing
       const pagesToScan = Math.min(estimatedTotalPages, maxPages);
       
       // Process all pages
       for (let pageNum = 1; pageNum <= pagesToScan; pageNum++) {
+        if (this.deadline.expired) break;
         console.log(`Processing filing history page ${pageNum}/${pagesToScan}...`);
         
-        // Navigate to the specific page (this handles page 1 correctly too)
-        if (pageNum > 1) {
-          await this.navigateToFilingPage(pageNum);
-        }
-        
-        // Add a small delay to ensure the page loads
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        await ScraperUtils.waitForPageLoad(this.page);
-        
-        // Extract filings from current page
-        const pageFilings = await this.pdfExtractor.extractWithMultipleStrategies();
+        const pageFilings = await this.withinBudget(`filing history page ${pageNum}`, async () => {
+          // Navigate to the specific page (this handles page 1 correctly too)
+          if (pageNum > 1) {
+            await this.navigateToFilingPage(pageNum);
+          }
+          
+          // Add a small delay to ensure the page loads
+          await new Promise(resolve => setTimeout(resolve, 1500));
+          await ScraperUtils.waitForPageLoad(this.page);
+          
+          // Extract filings from current page
+          await this.layoutMonitor.checkPage(this.page);
+          await this.archivePage('filing history');
+          return this.pdfExtractor.extractWithMultipleStrategies(reconcile);
+        });
+        if (!pageFilings) break;
+        setPageNumber(pageFilings, pageNum);
         pagesScraped++;
         
+        // Filing history is newest first, so everything after the first known filing has been seen before
+        const firstKnownIndex = knownKeys && pageFilings
+          ? pageFilings.findIndex(filing => ScraperUtils.filingKeys(filing).some(key => knownKeys!.has(key)))
+          : -1;
+        if (firstKnownIndex !== -1) {
+          allFilings = [...allFilings, ...pageFilings.slice(0, firstKnownIndex)];
+          reachedKnownFiling = true;
+          console.log(`Reached a previously stored filing on page ${pageNum} - stopping pagination`);
+          break;
+        }
+        
         if (pageFilings && pageFilings.length > 0) {
           // Add filings from this page to our collection
           allFilings = [...allFilings, ...pageFilings];
@@ -1198,16 +2635,34 @@ class CompaniesHouseScraper {
         }
       }
       
+      let incremental;
+      if (knownKeys) {
+        const newFilings = allFilings.length;
+        const newKeys = new Set(allFilings.flatMap(filing => ScraperUtils.filingKeys(filing)));
+        allFilings = [
+          ...allFilings,
+          ...previousFiling!.filings.filter(filing => !ScraperUtils.filingKeys(filing).some(key => newKeys.has(key)))
+        ];
+        incremental = {
+          previousReportId: previousFiling!.reportId,
+          previousExtractionTimestamp: previousFiling!.extractionTimestamp,
+          previousFilingCount: previousFiling!.filings.length,
+          newFilings,
+          reachedKnownFiling
+        };
+        console.log(`Incremental refresh found ${newFilings} new filings${reachedKnownFiling ? '' : ` (no previously stored filing within ${pagesScraped} pages)`}`);
+      }
+
       if (allFilings.length === 0) {
         console.log("No filings found across any pages");
         return null;
       }
 
       // Calculate statistics across all pages
-      const statistics = this.calculateFilingStatistics(allFilings);
+      const statistics = ScraperUtils.calculateFilingStatistics(allFilings);
       
       // Calculate date range
-      const dateRange = this.calculateDateRange(allFilings);
+      const dateRange = ScraperUtils.calculateDateRange(allFilings);
 
       console.log(`Successfully extracted ${allFilings.length} filings with ${statistics.filingsWithDocuments} PDF documents across ${pagesScraped} pages`);
 
@@ -1216,11 +2671,15 @@ class CompaniesHouseScraper {
         totalFilings: allFilings.length,
         pagesScraped: pagesScraped,
         statistics: statistics,
-        dateRange: dateRange
+        dateRange: dateRange,
+        categories: appliedCategories,
+        incremental,
+        reconciliation: reconcile ? summarizeReconciliation(allFilings) : undefined
       };
 
     } catch (error) {
       console.error("Filing history extraction failed:", error.message);
+      this.sections.fail('filing history', error);
       return null;
     }
   }
@@ -1231,10 +2690,12 @@ class CompaniesHouseScraper {
 
     try {
       // Navigate to People/Officers section
-      await this.navigator.navigateToSection("People");
-      
-      // Wait for page to fully load
-      await ScraperUtils.waitForPageLoad(this.page);
+      await this.deadline.race('people navigation', async () => {
+        await this.navigator.navigateToSection("People");
+        
+        // Wait for page to fully load
+        await ScraperUtils.waitForPageLoad(this.page);
+      });
       
       // Check if there are multiple pages of officers
       const estimatedTotalPages = await this.getPeopleTotalPageCount();
@@ -1249,19 +2710,26 @@ class CompaniesHouseScraper {
       
       // Process all pages
       for (let pageNum = 1; pageNum <= pagesToScan; pageNum++) {
+        if (this.deadline.expired) break;
         console.log(`Processing people page ${pageNum}/${pagesToScan}...`);
         
-        // Navigate to the specific page (this handles page 1 correctly too)
-        if (pageNum > 1) {
-          await this.navigateToPeoplePage(pageNum);
-        }
-        
-        // Add a small delay to ensure the page loads
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        await ScraperUtils.waitForPageLoad(this.page);
-        
-        // Extract officers from current page
-        const pageOfficers = await this.peopleExtractor.extractWithMultipleStrategies();
+        const pageOfficers = await this.withinBudget(`people page ${pageNum}`, async () => {
+          // Navigate to the specific page (this handles page 1 correctly too)
+          if (pageNum > 1) {
+            await this.navigateToPeoplePage(pageNum);
+          }
+          
+          // Add a small delay to ensure the page loads
+          await new Promise(resolve => setTimeout(resolve, 1500));
+          await ScraperUtils.waitForPageLoad(this.page);
+          
+          // Extract officers from current page
+          await this.layoutMonitor.checkPage(this.page);
+          await this.archivePage('officers');
+          return this.peopleExtractor.extractWithMultipleStrategies();
+        });
+        if (!pageOfficers) break;
+        setPageNumber(pageOfficers, pageNum);
         pagesScraped++;
         
         if (pageOfficers && pageOfficers.length > 0) {
@@ -1286,31 +2754,122 @@ class CompaniesHouseScraper {
       }
 
       // Calculate statistics
-      const activeOfficers = allOfficers.filter(officer => !officer.resignationDate).length;
-      const resignedOfficers = allOfficers.filter(officer => officer.resignationDate).length;
-      
-      const peopleData: PeopleData = {
-        officers: allOfficers,
-        totalOfficers: allOfficers.length,
-        pagesScraped: pagesScraped,
-        activeOfficers: activeOfficers,
-        resignedOfficers: resignedOfficers
-      };
+      const peopleData = ScraperUtils.buildPeopleData(allOfficers, pagesScraped);
 
       console.log(`Successfully extracted ${allOfficers.length} officers with ${allOfficers.reduce((sum, officer) => sum + officer.links.length, 0)} clickable links across ${pagesScraped} pages`);
-      console.log(`Active officers: ${activeOfficers}, Resigned officers: ${resignedOfficers}`);
+      console.log(`Active officers: ${peopleData.activeOfficers}, Resigned officers: ${peopleData.resignedOfficers}`);
 
       return peopleData;
     } catch (error) {
       console.error("People extraction failed:", error.message);
+      this.sections.fail('people', error);
       return null;
     }
   }
 
+  // Optional enrichment pass: follow each officer's profile link and record their other appointments
+  async enrichOfficerAppointments(
+    people: PeopleData,
+    currentCompanyNumber?: string,
+    maxOfficers: number = 20,
+    maxPagesPerOfficer: number = 3
+  ): Promise<PeopleData> {
+    console.log("Enriching officers with appointment histories...");
+
+    const returnUrl = this.page.url();
+    const historiesByProfile = new Map<string, OfficerAppointmentHistory>();
+    let fetched = 0;
+    let lastError: unknown = null;
+
+    for (const officer of people.officers) {
+      if (this.deadline.expired) break;
+      const profileLink = officer.links.find(link =>
+        link.linkType === 'profile' && /\/officers\/[^/]+\/appointments/.test(link.url)
+      );
+      if (!profileLink) continue;
+
+      const profileUrl = profileLink.url.split(/[?#]/)[0];
+
+      // The same person can appear several times (e.g. director and secretary)
+      if (historiesByProfile.has(profileUrl)) {
+        officer.appointmentHistory = historiesByProfile.get(profileUrl);
+        continue;
+      }
+      if (fetched >= maxOfficers) continue;
+
+      try {
+        await ScraperUtils.retryOperation(async () => {
+          await ScraperUtils.politeGoto(this.page, profileUrl, this.deadline);
+          await ScraperUtils.waitForPageLoad(this.page);
+        }, 2, this.config.extraction.retryDelay, `Officer profile navigation (${officer.name})`, this.deadline);
+
+        const totalPages = Math.min(await this.getTotalPageCount(), maxPagesPerOfficer);
+        let appointments: OfficerAppointment[] = [];
+        let totalAppointments = 0;
+        let pagesScraped = 0;
+
+        for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+          const pageResult = await this.deadline.race(`appointments page ${pageNum} (${officer.name})`, async () => {
+            if (pageNum > 1) {
+              await this.navigateToFilingPage(pageNum);
+            }
+            await this.archivePage('officer appointments');
+            return this.appointmentsExtractor.extractWithMultipleStrategies();
+          });
+          setPageNumber(pageResult.appointments, pageNum);
+          pagesScraped++;
+          totalAppointments = Math.max(totalAppointments, pageResult.totalAppointments);
+          appointments = [...appointments, ...pageResult.appointments];
+          if (pageResult.appointments.length === 0) break;
+        }
+
+        const otherAppointments = appointments.filter(appointment =>
+          !currentCompanyNumber || appointment.companyNumber !== currentCompanyNumber.toUpperCase()
+        );
+
+        const history: OfficerAppointmentHistory = {
+          profileUrl,
+          totalAppointments: Math.max(totalAppointments, appointments.length),
+          appointments: otherAppointments,
+          activeAppointments: otherAppointments.filter(appointment => !appointment.resignedOn).length,
+          dissolvedCompanies: otherAppointments.filter(appointment => /dissolved/i.test(appointment.companyStatus || '')).length,
+          insolventCompanies: otherAppointments.filter(appointment =>
+            /liquidation|administration|receiver|insolvency/i.test(appointment.companyStatus || '')
+          ).length,
+          pagesScraped
+        };
+
+        historiesByProfile.set(profileUrl, history);
+        officer.appointmentHistory = history;
+        fetched++;
+
+        console.log(`${officer.name}: ${history.appointments.length} other appointments, ${history.dissolvedCompanies} at dissolved companies`);
+      } catch (error) {
+        console.warn(`Appointment history extraction failed for ${officer.name}:`, error.message);
+        lastError = error;
+      }
+    }
+
+    if (fetched === 0 && lastError) {
+      this.sections.fail('officer appointments', lastError);
+    }
+
+    // Return to the company so later sections can navigate relative to it
+    if (fetched > 0) {
+      await this.withinBudget('return to company page', async () => {
+        await ScraperUtils.politeGoto(this.page, returnUrl, this.deadline);
+        await ScraperUtils.waitForPageLoad(this.page);
+      });
+    }
+
+    console.log(`Fetched appointment histories for ${fetched} officers`);
+    return { ...people, appointmentHistoriesFetched: fetched };
+  }
+
   // Helper methods for people pagination
   private async getPeopleTotalPageCount(): Promise<number> {
     try {
-      const pageCount = await this.page.evaluate(() => {
+      const pageCount = await this.deadline.race('pagination check', async () => this.page.evaluate(() => {
         // Look for pagination links specific to people section
         const pageLinks = Array.from(document.querySelectorAll('.govuk-pagination__item a[data-page]'));
         if (pageLinks.length === 0) return 1;
@@ -1322,7 +2881,7 @@ class CompaniesHouseScraper {
         });
         
         return maxPage;
-      });
+      }));
       
       return pageCount || 1;
     } catch (error) {
@@ -1333,7 +2892,7 @@ class CompaniesHouseScraper {
 
   private async getCurrentPeoplePage(): Promise<number> {
     try {
-      const currentPage = await this.page.evaluate(() => {
+      const currentPage = await this.deadline.race('pagination check', async () => this.page.evaluate(() => {
         // Look for current page in URL
         const pageMatch = window.location.href.match(/[?&]page=(\d+)/);
         if (pageMatch) return parseInt(pageMatch[1]);
@@ -1343,7 +2902,7 @@ class CompaniesHouseScraper {
         if (activePage) return parseInt(activePage.getAttribute('data-page') || '1');
         
         return 1;
-      });
+      }));
       
       return currentPage || 1;
     } catch (error) {
@@ -1361,17 +2920,13 @@ class CompaniesHouseScraper {
         return;
       }
       
-      // Try to click the page number directly
-      const clickedPage = await this.page.evaluate((pageNum) => {
-        const pageLink = document.querySelector(`a#pageNo${pageNum}[data-page="${pageNum}"]`);
-        if (pageLink) {
-          (pageLink as HTMLElement).click();
-          return true;
-        }
-        return false;
-      }, pageNumber);
+      // Try to click the page number directly; the URL fallback takes its own rate limit token
+      const pageSelector = `a#pageNo${pageNumber}[data-page="${pageNumber}"]`;
+      const hasPageLink = await this.page.evaluate((selector: string) => !!document.querySelector(selector), pageSelector);
       
-      if (clickedPage) {
+      if (hasPageLink) {
+        await companiesHouseRateLimiter.acquire(`page ${pageNumber}`, this.deadline);
+        await this.page.evaluate((selector: string) => (document.querySelector(selector) as HTMLElement | null)?.click(), pageSelector);
         console.log(`Clicked on people page ${pageNumber} link`);
         await ScraperUtils.waitForPageLoad(this.page);
         return;
@@ -1380,158 +2935,321 @@ class CompaniesHouseScraper {
       // Fallback to URL-based navigation
       const currentUrl = this.page.url();
       const baseUrl = currentUrl.split('?')[0];
-      await this.page.goto(`${baseUrl}?page=${pageNumber}`);
+      await ScraperUtils.politeGoto(this.page, `${baseUrl}?page=${pageNumber}`, this.deadline);
       console.log(`Navigated to people page ${pageNumber} via URL`);
       await ScraperUtils.waitForPageLoad(this.page);
     } catch (error) {
-      throw new Error(`Failed to navigate to people page ${pageNumber}: ${error.message}`);
+      throw new Error(`Failed to navigate to people page ${pageNumber}: ${error.message}`, { cause: error });
     }
   }
 
-  async extractCharges(): Promise<any> {
-    console.log("Extracting charges...");
+  // Companies House only shows an Insolvency tab when the company has insolvency cases,
+  // so a missing tab is a definite "no history" rather than an extraction failure
+  async extractInsolvency(companyStatus?: string): Promise<InsolvencySection | null> {
+    console.log("Extracting insolvency information...");
+
+    const statusIndicatesInsolvency = /liquidation|administration|receiver|receivership|insolvency|voluntary arrangement/i.test(companyStatus || '');
 
     try {
-      await this.navigator.navigateToSection("Charges");
-      
-      const charges = await this.page.extract({
-        instruction: "Extract any charges, mortgages, or security interests against the company",
-        schema: z.object({
-          charges: z.array(z.object({
-            description: z.string(),
-            status: z.string(),
-            createdDate: z.string().optional(),
-            chargeholder: z.string().optional()
-          }))
-        })
+      const tabs = await this.deadline.race('insolvency tab check', async () => this.page.evaluate(() => {
+        const hrefs = Array.from(document.querySelectorAll('a[href]')).map(link => link.getAttribute('href') || '');
+        return {
+          hasCompanyTabs: hrefs.some(href => /\/company\/[A-Z0-9]{8}\/filing-history\/?$/i.test(href)),
+          hasInsolvencyTab: hrefs.some(href => /\/company\/[A-Z0-9]{8}\/insolvency\/?$/i.test(href))
+        };
+      }));
+
+      if (!tabs.hasCompanyTabs) {
+        throw new SectionNavigationError('Insolvency', "Not on a company page - cannot check for an insolvency tab");
+      }
+
+      if (!tabs.hasInsolvencyTab) {
+        console.log("No insolvency tab present - company has no insolvency history");
+        return {
+          hasInsolvencyHistory: false,
+          insolvencyFlag: statusIndicatesInsolvency,
+          cases: [],
+          totalCases: 0,
+          caseTypes: []
+        };
+      }
+
+      await this.deadline.race('insolvency navigation', async () => {
+        await this.navigator.navigateToSection("Insolvency");
+        await ScraperUtils.waitForPageLoad(this.page);
+        await this.archivePage('insolvency');
       });
 
-      console.log("Charges extracted successfully");
-      return charges;
+      const cases = await this.insolvencyExtractor.extractWithMultipleStrategies();
+      if (cases.length === 0) {
+        // The tab exists, so there is at least one case - treat an empty result as a failure
+        console.error("Insolvency tab present but no cases could be extracted");
+        this.sections.record('insolvency', { status: 'failed', code: 'EXTRACTION_FAILED', message: 'Insolvency tab present but no cases could be extracted' });
+        return null;
+      }
+
+      const insolvency: InsolvencySection = {
+        hasInsolvencyHistory: true,
+        insolvencyFlag: true,
+        cases,
+        totalCases: cases.length,
+        caseTypes: [...new Set(cases.map(c => c.caseType).filter(Boolean))]
+      };
+
+      console.log(`Successfully extracted ${cases.length} insolvency cases: ${insolvency.caseTypes.join(', ')}`);
+      return insolvency;
     } catch (error) {
-      console.error("Charges extraction failed:", error.message);
+      console.error("Insolvency extraction failed:", error.message);
+      this.sections.fail('insolvency', error);
       return null;
     }
   }
 
-  private calculateFilingStatistics(filings: FilingData[]): FilingStatistics {
-    const filingsWithDocs = filings.filter(f => f.documentLinks && f.documentLinks.length > 0);
-    const totalPages = filings
-      .flatMap(f => f.documentLinks || [])
-      .reduce((sum, link) => sum + parseInt(link.pageCount || "0"), 0);
+  // Charges list with pagination, then each charge's detail page for flags and MR01/MR04 documents
+  async extractCharges(maxPages: number = 5, maxDetailPages: number = 25): Promise<ChargesSection | null> {
+    console.log("Extracting charges...");
 
-    const filingTypes: Record<string, number> = {};
-    filings.forEach(filing => {
-      filingTypes[filing.type] = (filingTypes[filing.type] || 0) + 1;
-    });
+    try {
+      await this.deadline.race('charges navigation', async () => {
+        await this.navigator.navigateToSection("Charges");
+        await ScraperUtils.waitForPageLoad(this.page);
+      });
 
-    const stats = {
-      totalFilings: filings.length,
-      filingsWithDocuments: filingsWithDocs.length,
-      totalDocumentPages: totalPages,
-      documentSuccessRate: filings.length > 0 ? Math.round((filingsWithDocs.length / filings.length) * 100) : 0,
-      filingTypes: filingTypes
-    };
+      const chargesListUrl = this.page.url().split(/[?#]/)[0];
 
-    console.log("Filing statistics:", stats);
-    return stats;
-  }
+      // The charges list uses the same GOV.UK pagination as filing history
+      const estimatedTotalPages = await this.getTotalPageCount();
+      const pagesToScan = Math.min(estimatedTotalPages, maxPages);
+      console.log(`Estimated total charges pages: ${estimatedTotalPages}`);
 
-  private calculateDateRange(filings: FilingData[]): { earliest: string; latest: string } | undefined {
-    try {
-      const validDates = filings
-        .map(f => f.date)
-        .filter(d => d && d.length > 0)
-        .map(d => new Date(d))
-        .filter(d => !isNaN(d.getTime()));
+      let allCharges: ChargeData[] = [];
+      let pagesScraped = 0;
 
-      if (validDates.length === 0) {
-        return undefined;
-      }
+      for (let pageNum = 1; pageNum <= pagesToScan; pageNum++) {
+        if (this.deadline.expired) break;
+        console.log(`Processing charges page ${pageNum}/${pagesToScan}...`);
 
-      validDates.sort((a, b) => a.getTime() - b.getTime());
+        const pageCharges = await this.withinBudget(`charges page ${pageNum}`, async () => {
+          if (pageNum > 1) {
+            await this.navigateToFilingPage(pageNum);
+          }
 
-      return {
-        earliest: validDates[0].toISOString().split('T')[0],
-        latest: validDates[validDates.length - 1].toISOString().split('T')[0]
-      };
-    } catch (error) {
-      console.warn("Error calculating date range:", error.message);
-      return undefined;
-    }
-  }
+          await this.archivePage('charges');
+          return this.chargesExtractor.extractListWithMultipleStrategies();
+        });
+        if (!pageCharges) break;
+        setPageNumber(pageCharges, pageNum);
+        pagesScraped++;
+
+        if (pageCharges.length === 0) {
+          console.log(`No charges found on page ${pageNum}`);
+          break;
+        }
+        allCharges = [...allCharges, ...pageCharges];
+      }
 
-  private calculateQualityScore(result: ScrapingResult): number {
-    let score = 0;
-    const issues: string[] = [];
+      if (allCharges.length === 0) {
+        // Out of time before the first page was read says nothing about the register
+        if (this.deadline.expired) return null;
+        // Companies without charges still have a charges page - an empty register is a valid result
+        console.log("No charges registered");
+        return {
+          charges: [],
+          totalCharges: 0,
+          outstanding: 0,
+          satisfied: 0,
+          partSatisfied: 0,
+          pagesScraped,
+          detailPagesVisited: 0
+        };
+      }
 
-    // Overview scoring (25 points)
-    if (result.overview) {
-      score += 25;
-      if (!result.overview.companyName) issues.push("Missing company name");
-      if (!result.overview.companyNumber) issues.push("Missing company number");
-    } else {
-      issues.push("No company overview extracted");
-    }
+      // Visit each charge's detail page; a failure keeps the list-level data for that charge
+      let detailPagesVisited = 0;
+      for (let i = 0; i < allCharges.length && detailPagesVisited < maxDetailPages; i++) {
+        if (this.deadline.expired) break;
+        const charge = allCharges[i];
+        if (!charge.detailUrl) continue;
+
+        try {
+          await ScraperUtils.retryOperation(async () => {
+            await ScraperUtils.politeGoto(this.page, charge.detailUrl, this.deadline);
+            await ScraperUtils.waitForPageLoad(this.page);
+          }, 2, this.config.extraction.retryDelay, `Charge detail navigation (${charge.chargeCode || charge.title})`, this.deadline);
+
+          allCharges[i] = await this.deadline.race(`charge detail (${charge.chargeCode || charge.title})`, async () => {
+            await this.archivePage('charge detail');
+            return this.chargesExtractor.extractDetail(charge);
+          });
+          detailPagesVisited++;
+        } catch (error) {
+          console.warn(`Charge detail extraction failed for ${charge.title}:`, error.message);
+        }
+      }
 
-    // Filing history scoring (40 points)
-    if (result.filing && result.filing.filings && result.filing.filings.length > 0) {
-      score += 25; // Base points for having filings
-      
-      const docSuccessRate = result.filing.statistics.documentSuccessRate;
-      if (docSuccessRate > 80) score += 15;
-      else if (docSuccessRate > 50) score += 10;
-      else if (docSuccessRate > 20) score += 5;
-      else issues.push("Low PDF document extraction rate");
-      
-      if (result.filing.filings.length < 3) {
-        issues.push("Very limited filing history");
+      // Return to the charges list so later sections start from a company page
+      if (detailPagesVisited > 0) {
+        await this.withinBudget('return to charges list', async () => {
+          await ScraperUtils.politeGoto(this.page, chargesListUrl, this.deadline);
+          await ScraperUtils.waitForPageLoad(this.page);
+        });
       }
-    } else {
-      issues.push("No filing history extracted");
-    }
 
-    // People scoring (20 points)
-    if (result.people && result.people.officers && result.people.officers.length > 0) {
-      score += 20;
-    } else {
-      issues.push("No officer information extracted");
-    }
+      const chargesSection: ChargesSection = {
+        charges: allCharges,
+        totalCharges: allCharges.length,
+        outstanding: allCharges.filter(charge => charge.status === 'outstanding').length,
+        satisfied: allCharges.filter(charge => charge.status === 'satisfied').length,
+        partSatisfied: allCharges.filter(charge => charge.status === 'part-satisfied').length,
+        pagesScraped,
+        detailPagesVisited
+      };
 
-    // Charges scoring (15 points)
-    if (result.charges) {
-      score += 15;
-    } else {
-      issues.push("No charges information extracted");
+      console.log(`Successfully extracted ${chargesSection.totalCharges} charges (${chargesSection.outstanding} outstanding, ${chargesSection.satisfied} satisfied) across ${pagesScraped} pages, ${detailPagesVisited} detail pages`);
+      return chargesSection;
+    } catch (error) {
+      console.error("Charges extraction failed:", error.message);
+      this.sections.fail('charges', error);
+      return null;
     }
-
-    result.dataIssues = issues;
-    return Math.max(0, Math.min(100, score));
   }
 
   // Updated to accept maxFilingPages and maxPeoplePages parameters
-  async scrapeCompany(companyName: string, maxFilingPages: number = 10, maxPeoplePages: number = 5): Promise<ScrapingResult> {
+  async scrapeCompany(
+    companyName: string,
+    maxFilingPages: number = 10,
+    maxPeoplePages: number = 5,
+    options: ScrapeOptions = {}
+  ): Promise<ScrapingResult> {
     const startTime = Date.now();
     
     const result: ScrapingResult = {
       query: companyName,
       extractionTimestamp: new Date().toISOString(),
       qualityScore: 0,
-      dataIssues: []
+      dataIssues: [],
+      dataSource: 'website'
+    };
+
+    if (options.archiveSnapshots !== false) {
+      const snapshotOptions = typeof options.archiveSnapshots === 'object' ? options.archiveSnapshots : {};
+      this.archiver = new PageArchiver(documentStore, snapshotOptions);
+    }
+
+    this.deadline.start(options.timeoutMs ?? this.config.extraction.timeoutMs);
+    const completedSections: string[] = [];
+    const skippedSections: string[] = [];
+    let interruptedSection: string | undefined;
+
+    this.sections = new SectionTracker();
+
+    // Sections start only while there is time left; one cut short keeps whatever it finished.
+    // Failures caught inside a section are recorded there; anything else is worked out here.
+    const runSection = async <T>(name: string, extract: () => Promise<T>, isEmpty: (value: T) => boolean = () => false): Promise<T | undefined> => {
+      if (this.deadline.expired) {
+        skippedSections.push(name);
+        this.sections.skip(name, SCRAPE_TIMEOUT, 'Time budget ran out before this section started');
+        return undefined;
+      }
+      const firstRun = this.telemetry.runCount;
+      const value = await extract();
+      const timedOut = this.deadline.expired;
+      if (timedOut) {
+        interruptedSection = name;
+      } else {
+        completedSections.push(name);
+      }
+
+      if (!this.sections.has(name)) {
+        if (value === null || value === undefined) {
+          this.sections.record(name, timedOut
+            ? { status: 'failed', code: SCRAPE_TIMEOUT, message: 'Time budget ran out before anything was read' }
+            : statusFromRuns(this.telemetry.runsSince(firstRun)));
+        } else if (timedOut) {
+          this.sections.record(name, { status: 'ok', code: SCRAPE_TIMEOUT, message: 'Cut short by the time budget - holds only what was read in time' });
+        } else {
+          this.sections.record(name, { status: isEmpty(value) ? 'empty' : 'ok' });
+        }
+      }
+      return value;
+    };
+
+    const recordTimeout = () => {
+      if (!this.deadline.expired) return;
+      result.timeout = {
+        budgetMs: this.deadline.budgetMs,
+        elapsedMs: this.deadline.elapsedMs,
+        operation: this.deadline.operation || interruptedSection || 'scrape',
+        completedSections,
+        interruptedSection,
+        skippedSections
+      };
+      const skipped = skippedSections.length > 0 ? `; skipped: ${skippedSections.join(', ')}` : '';
+      result.dataIssues.unshift(`${SCRAPE_TIMEOUT}: time budget of ${Math.round(this.deadline.budgetMs / 1000)}s ran out during ${result.timeout.operation}${interruptedSection ? ` (${interruptedSection} is incomplete)` : ''}${skipped}`);
     };
 
     try {
-      // Search for company
-      await this.searchCompany(companyName);
+      // Use the company number when we have one, otherwise fall back to search
+      const knownNumber = normalizeCompanyNumber(options.companyNumber || '') || companyNumberFromName(companyName);
+      if (knownNumber) {
+        await this.goToCompany(knownNumber);
+      } else if (options.failOnAmbiguous) {
+        const match = await this.resolveUnambiguousCompany(companyName);
+        await this.goToCompany(match.companyNumber);
+      } else {
+        await this.searchCompany(companyName);
+      }
+
+      const enrichPeople = async () => {
+        if (!options.enrichOfficerAppointments) {
+          this.sections.skip('officer appointments', 'NOT_REQUESTED', 'includeOfficerAppointments was not set');
+        } else if (!result.people) {
+          this.sections.skip('officer appointments', 'PREREQUISITE_MISSING', 'No officers list to follow');
+        } else {
+          result.people = await runSection('officer appointments', () => this.enrichOfficerAppointments(
+            result.people,
+            normalizeCompanyNumber(result.overview?.companyNumber || options.companyNumber || '') || companyNumberFromName(companyName) || undefined,
+            options.maxOfficerProfiles
+          ), people => people.appointmentHistoriesFetched === 0) ?? result.people;
+        }
+      };
+
+      // Registered sections in order, with the officers' other appointments straight after people
+      const context: SectionContext = { scraper: this, result, options, maxFilingPages, maxPeoplePages };
+      for (const plugin of getSectionPlugins()) {
+        const value = await runSection(plugin.name, async () => {
+          try {
+            return await plugin.extract(context);
+          } catch (error) {
+            console.error(`${plugin.name} extraction failed:`, error.message);
+            this.sections.fail(plugin.name, error);
+            return null;
+          }
+        }, plugin.isEmpty);
+        const schemaIssue = checkSectionSchema(plugin, value);
+        if (schemaIssue) result.dataIssues.push(schemaIssue);
+        (result as any)[plugin.resultKey] = value;
+        if (plugin.resultKey === 'people') await enrichPeople();
+      }
 
-      // Extract all sections
-      result.overview = await this.extractOverview();
-      result.filing = await this.extractFilingHistory(maxFilingPages);
-      result.people = await this.extractPeople(maxPeoplePages);
-      result.charges = await this.extractCharges();
+      if (!options.downloadDocuments && !options.extractDocumentText && !options.extractFinancials) {
+        this.sections.skip('documents', 'NOT_REQUESTED', 'No document download, text or financials extraction was requested');
+      } else if (!result.filing) {
+        this.sections.skip('documents', 'PREREQUISITE_MISSING', 'No filing history to take documents from');
+      } else {
+        await runSection('documents', () => this.withinBudget('document processing', () => FilingDocumentProcessor.process(result, options, this.deadline)));
+      }
+      recordTimeout();
+      result.sections = this.sections.summary();
+      result.dataIssues.push(...normalizeResultDates(result));
+      result.provenance = summarizeProvenance(result);
+      result.telemetry = this.telemetry.snapshot();
+      result.layout = this.layoutMonitor.summary();
+      result.dataIssues.push(...this.layoutMonitor.dataIssues());
+      if (this.archiver) result.snapshots = this.archiver.summary();
 
       // Calculate quality score
-      result.qualityScore = this.calculateQualityScore(result);
+      result.qualityScore = ScraperUtils.calculateQualityScore(result);
 
       const duration = Date.now() - startTime;
       console.log(`Scraping completed in ${duration}ms with quality score: ${result.qualityScore}/100`);
@@ -1539,9 +3257,28 @@ class CompaniesHouseScraper {
       return result;
 
     } catch (error) {
-      console.error("Scraping failed:", error.message);
+      // Ambiguous matches are a caller decision, not a data issue
+      if (error instanceof AmbiguousCompanyError) {
+        throw error;
+      }
+      if (error instanceof DeadlineExceededError) {
+        // Ran out of time before reaching the company page
+        console.error("Scraping timed out:", error.message);
+        recordTimeout();
+      } else {
+        console.error("Scraping failed:", error.message);
+        result.dataIssues.push(`Scraping failed: ${error.message}`);
+      }
+      // Nothing recorded yet means the company page itself was never reached
+      const reachedCompany = Object.keys(this.sections.summary()).length > 0;
+      this.sections.skipRemaining(scrapeSections(), classifySectionError(error, reachedCompany ? 'EXTRACTION_FAILED' : 'COMPANY_NOT_REACHED'), error.message);
+      result.sections = this.sections.summary();
       result.qualityScore = 0;
-      result.dataIssues.push(`Scraping failed: ${error.message}`);
+      result.provenance = summarizeProvenance(result);
+      result.telemetry = this.telemetry.snapshot();
+      result.layout = this.layoutMonitor.summary();
+      result.dataIssues.push(...this.layoutMonitor.dataIssues());
+      if (this.archiver) result.snapshots = this.archiver.summary();
       return result;
     }
   }
@@ -1555,17 +3292,63 @@ class CompaniesHouseScraper {
   }
 }
 
-// Updated export function to accept maxFilingPages and maxPeoplePages parameters
+// Updated export function to accept maxFilingPages and maxPeoplePages parameters.
+// When options.companyNumber is given (or companyName is itself a company number) the search step is skipped.
 export async function runEnhancedCompaniesScraper(
   companyName: string,
   maxFilingPages: number = 10,
-  maxPeoplePages: number = 5
+  maxPeoplePages: number = 5,
+  options: ScrapeOptions = {}
 ): Promise<ScrapingResult> {
-  const scraper = new CompaniesHouseScraper();
+  let fallbackReason: string | undefined;
+  let scrapeOptions = options;
+
+  if (options.dataSource === 'api') {
+    // The time budget covers the whole request, so the website fallback only gets what the API left
+    const budgetMs = options.timeoutMs ?? (options.config || getConfig()).extraction.timeoutMs;
+    const startedAt = Date.now();
+    const apiSource = new CompaniesHouseApiSource();
+    if (!apiSource.isConfigured()) {
+      fallbackReason = 'COMPANIES_HOUSE_API_KEY is not set';
+    } else {
+      try {
+        return await apiSource.scrapeCompany(companyName, maxFilingPages, maxPeoplePages, options);
+      } catch (error) {
+        if (error instanceof AmbiguousCompanyError || error instanceof DeadlineExceededError) {
+          throw error;
+        }
+        fallbackReason = error.message;
+      }
+    }
+    if (budgetMs > 0) {
+      const remainingMs = budgetMs - (Date.now() - startedAt);
+      if (remainingMs <= 0) throw new DeadlineExceededError('Companies House API', budgetMs);
+      scrapeOptions = { ...options, timeoutMs: remainingMs };
+    }
+    console.warn(`Companies House API unavailable (${fallbackReason}) - falling back to the website scraper`);
+  }
+
+  const scraper = new CompaniesHouseScraper(options.config);
   
   try {
     await scraper.initialize();
-    return await scraper.scrapeCompany(companyName, maxFilingPages, maxPeoplePages);
+    const result = await scraper.scrapeCompany(companyName, maxFilingPages, maxPeoplePages, scrapeOptions);
+    if (fallbackReason) {
+      result.dataSourceFallback = fallbackReason;
+    }
+    return result;
+  } finally {
+    await scraper.close();
+  }
+}
+
+// Search-only lookup: returns the ranked candidates without scraping any company
+export async function searchCompanyCandidates(query: string, limit: number = 20): Promise<CompanySearchCandidate[]> {
+  const scraper = new CompaniesHouseScraper();
+
+  try {
+    await scraper.initialize();
+    return await scraper.searchCandidates(query, limit);
   } finally {
     await scraper.close();
   }
@@ -1579,13 +3362,14 @@ export async function testPDFExtraction(companyNumber: string): Promise<any> {
     await scraper.initialize();
     
     // Go directly to the company filing history page
-    await scraper.page.goto(`https://find-and-update.company-information.service.gov.uk/company/${companyNumber}/filing-history`);
+    await ScraperUtils.politeGoto(scraper.page, `https://find-and-update.company-information.service.gov.uk/company/${companyNumber}/filing-history`);
     await ScraperUtils.waitForPageLoad(scraper.page);
     
     // Extract using all strategies for comparison
     const directDOMResults = await scraper.pdfExtractor.extractWithDirectDOM();
     const llmResults = await scraper.pdfExtractor.extractWithLLM();
     const hybridResults = await scraper.pdfExtractor.extractWithHybridApproach();
+    const reconciledResults = reconcileFilings(directDOMResults, llmResults, 'Direct DOM', 'LLM with URL type');
     
     return {
       companyNumber,
@@ -1604,10 +3388,79 @@ export async function testPDFExtraction(companyNumber: string): Promise<any> {
           filingCount: hybridResults.length,
           pdfLinks: hybridResults.reduce((sum, f) => sum + (f?.documentLinks?.length ?? 0), 0),
           sampleUrls: hybridResults.slice(0, 3).flatMap(f => f?.documentLinks?.map(l => l?.url) ?? [])
+        },
+        // What reconciliation mode would make of the Direct DOM and LLM rows above
+        reconciled: {
+          filingCount: reconciledResults.length,
+          pdfLinks: reconciledResults.reduce((sum, f) => sum + (f?.documentLinks?.length ?? 0), 0),
+          agreement: summarizeReconciliation(reconciledResults),
+          conflicts: reconciledResults.filter(f => f.reconciliation?.agreement === 'conflict').slice(0, 5)
+            .map(f => ({ date: f.date, description: f.description, conflicts: f.reconciliation!.conflicts }))
         }
       }
     };
   } finally {
     await scraper.close();
   }
-}
\ No newline at end of file
+}
+// Replay the Direct DOM extractors against saved Companies House pages - no browser, no network
+export async function replayFixtureExtraction(fixtureDirectory: string): Promise<ScrapingResult> {
+  const fixtures = await loadFixtureSet(fixtureDirectory);
+
+  const result: ScrapingResult = {
+    query: fixtures.companyNumber || fixtureDirectory,
+    extractionTimestamp: new Date().toISOString(),
+    qualityScore: 0,
+    dataIssues: []
+  };
+
+  const layoutMonitor = new LayoutMonitor();
+
+  try {
+    let allFilings: FilingData[] = [];
+    for (const [index, fixturePage] of fixtures.filingHistoryPages.entries()) {
+      await layoutMonitor.checkPage(fixturePage);
+      const pageFilings = attachProvenance(await new PDFExtractor(fixturePage).extractWithDirectDOM(), pageSource(fixturePage, 'Direct DOM'));
+      setPageNumber(pageFilings, index + 1);
+      console.log(`Replayed ${fixturePage.getSourceFile()}: ${pageFilings.length} filings`);
+      if (pageFilings.length === 0) {
+        result.dataIssues.push(`No filings extracted from ${fixturePage.getSourceFile()}`);
+      }
+      allFilings = [...allFilings, ...pageFilings];
+    }
+
+    if (allFilings.length > 0) {
+      result.filing = {
+        filings: allFilings,
+        totalFilings: allFilings.length,
+        pagesScraped: fixtures.filingHistoryPages.length,
+        statistics: ScraperUtils.calculateFilingStatistics(allFilings),
+        dateRange: ScraperUtils.calculateDateRange(allFilings)
+      };
+    }
+
+    let allOfficers: OfficerData[] = [];
+    for (const [index, fixturePage] of fixtures.officersPages.entries()) {
+      await layoutMonitor.checkPage(fixturePage);
+      const pageOfficers = attachProvenance(await new PeopleExtractor(fixturePage).extractWithDirectDOM(), pageSource(fixturePage, 'Direct DOM'));
+      setPageNumber(pageOfficers, index + 1);
+      console.log(`Replayed ${fixturePage.getSourceFile()}: ${pageOfficers.length} officers`);
+      if (pageOfficers.length === 0) {
+        result.dataIssues.push(`No officers extracted from ${fixturePage.getSourceFile()}`);
+      }
+      allOfficers = [...allOfficers, ...pageOfficers];
+    }
+
+    if (allOfficers.length > 0) {
+      result.people = ScraperUtils.buildPeopleData(allOfficers, fixtures.officersPages.length);
+    }
+
+    result.dataIssues.push(...normalizeResultDates(result));
+    result.provenance = summarizeProvenance(result);
+    result.layout = layoutMonitor.summary();
+    result.dataIssues.push(...layoutMonitor.dataIssues());
+    return result;
+  } finally {
+    [...fixtures.filingHistoryPages, ...fixtures.officersPages].forEach(fixturePage => fixturePage.close());
+  }
+}
@@ -0,0 +1,1181 @@
+import { z } from 'zod';
+import { dateToTime, recordDateToTime } from './dates.js';
+import { SectionStatus, describeSectionFailure, sectionFailed } from './sections.js';
+import { pageSource, attachProvenance } from './provenance.js';
+import { ScrapingResult, ScrapeOptions, PeopleData, ChargesSection, ChargeData, PSCData, PSCStatement, PSCSection, InsolvencySection } from './scraper.js';
+
+// Section extractor plugins. Each Companies House section is described in one place: how to reach
+// it, how to read it, what its result looks like, what it contributes to the quality score and
+// the text it adds to the summary prompt. CompaniesHouseScraper runs the registered plugins in
+// registration order; QualityAssessor walks the same registry and the summarizer orders the blocks
+// by summaryOrder.
+
+export interface ExtractionStrategy<R> {
+  name: string;
+  run(page: any): Promise<R>;
+}
+
+// The value runStrategies accepted and the strategy that read it, for provenance
+export interface StrategyResult<R> {
+  value: R;
+  strategy: string;
+}
+
+// ScraperUtils.calculateQualityScore - builds up from 0
+export interface QualityTally {
+  score: number;
+  issues: string[];
+}
+
+// QualityAssessor - starts at 100 and deducts
+export interface QualityAssessment {
+  score: number;
+  issues: string[];
+  recommendations: string[];
+}
+
+// What a plugin may use from the scraper while it runs
+export interface SectionScraper {
+  page: any;
+  navigateToSection(tab: string): Promise<boolean>;
+  archivePage(pageType: string): Promise<void>;
+  // Tries each strategy in turn with telemetry and the time budget; null when none produced a usable result
+  runStrategies<R>(section: string, strategies: ExtractionStrategy<R>[], isUsable?: (value: R) => boolean): Promise<StrategyResult<R> | null>;
+  // Section readers the built-in plugins delegate to
+  extractOverview(): Promise<any>;
+  extractFilingHistory(maxPages: number, categories?: string[], previousFiling?: ScrapeOptions['previousFiling'], reconcile?: boolean): Promise<ScrapingResult['filing'] | null>;
+  extractPeople(maxPages: number): Promise<PeopleData | null>;
+  extractCharges(): Promise<ChargesSection | null>;
+  extractInsolvency(companyStatus?: string): Promise<InsolvencySection | null>;
+}
+
+export interface SectionContext {
+  scraper: SectionScraper;
+  // The result so far - earlier sections are already filled in
+  result: ScrapingResult;
+  options: ScrapeOptions;
+  maxFilingPages: number;
+  maxPeoplePages: number;
+}
+
+export interface SectionPlugin<T = any> {
+  // Used for section statuses, telemetry and data issues
+  name: string;
+  resultKey: keyof ScrapingResult;
+  // Tab text and path below /company/{number}; null for data read from the company page itself
+  navigation: { tab: string; path: string } | null;
+  // Declared extraction strategies, for sections without an extractor class: extract() hands
+  // these to scraper.runStrategies
+  strategies?: ExtractionStrategy<any>[];
+  // Shape check on the extracted value; a mismatch is reported as a data issue and the value kept
+  schema: z.ZodTypeAny;
+  extract(context: SectionContext): Promise<T | null>;
+  // A value that means "nothing on the register" rather than a failure
+  isEmpty?(value: T): boolean;
+  scoreQuality(value: T | null | undefined, tally: QualityTally): void;
+  assessQuality(value: T | null | undefined, assessment: QualityAssessment, status?: SectionStatus): void;
+  // Block of the summary prompt; empty string to leave the section out
+  summarize(value: T | null | undefined): string;
+  // Position of that block in the prompt - financials are 60 and filing document text 70
+  summaryOrder: number;
+}
+
+const registry: SectionPlugin[] = [];
+
+export function registerSectionPlugin(plugin: SectionPlugin): void {
+  if (registry.some(existing => existing.name === plugin.name || existing.resultKey === plugin.resultKey)) {
+    throw new Error(`A section plugin for ${plugin.name} (${String(plugin.resultKey)}) is already registered`);
+  }
+  registry.push(plugin);
+}
+
+export function getSectionPlugins(): SectionPlugin[] {
+  return [...registry];
+}
+
+// Tab text (lower case) to path below /company/{number}, for Navigator's direct URL strategy
+export function sectionPaths(): Record<string, string> {
+  const paths: Record<string, string> = {};
+  registry.forEach(plugin => {
+    if (plugin.navigation) paths[plugin.navigation.tab.toLowerCase()] = plugin.navigation.path;
+  });
+  return paths;
+}
+
+// Data issue for a value that does not match its plugin's schema
+export function checkSectionSchema(plugin: SectionPlugin, value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const parsed = plugin.schema.safeParse(value);
+  if (parsed.success) return null;
+  const problems = parsed.error.issues.slice(0, 3).map(issue => `${issue.path.join('.') || 'value'}: ${issue.message}`);
+  return `${plugin.name} result does not match its schema (${problems.join('; ')})`;
+}
+
+// Overview - read from the company page the scraper lands on
+
+function scoreOverview(overview: any | null | undefined, tally: QualityTally): void {
+  // Overview scoring (20 points)
+  if (overview) {
+    tally.score += 20;
+    if (!overview.companyName) tally.issues.push("Missing company name");
+    if (!overview.companyNumber) tally.issues.push("Missing company number");
+  } else {
+    tally.issues.push("No company overview extracted");
+  }
+}
+
+function assessOverview(overview: any | null | undefined, assessment: QualityAssessment, status?: SectionStatus): void {
+  // Overview assessment (30 points)
+  if (!overview) {
+    assessment.issues.push(`No company overview data extracted${describeSectionFailure(status)}`);
+    assessment.score -= 30;
+    assessment.recommendations.push(status?.code === 'COMPANY_NOT_FOUND' || !sectionFailed(status)
+      ? "Verify company name spelling and try again"
+      : "The company page was found but could not be read - try again later");
+  } else {
+    if (!overview.companyName) {
+      assessment.issues.push("Company name not extracted");
+      assessment.score -= 10;
+    }
+    if (!overview.companyNumber) {
+      assessment.issues.push("Company number not extracted");
+      assessment.score -= 10;
+    }
+    if (!overview.status) {
+      assessment.issues.push("Company status not extracted");
+      assessment.score -= 5;
+    }
+    if (!overview.incorporationDate) {
+      assessment.issues.push("Incorporation date not extracted");
+      assessment.score -= 5;
+    }
+  }
+}
+
+function summarizeOverview(overview: any | null | undefined): string {
+  let text = '';
+
+  // Process Company Overview with enhanced business context
+  if (overview) {
+    text += "=== COMPANY PROFILE & BUSINESS CONTEXT ===\n";
+    text += `Company Name: ${overview.companyName || 'Not specified'}\n`;
+    text += `Company Number: ${overview.companyNumber || 'Not specified'}\n`;
+    text += `Legal Status: ${overview.status || 'Not specified'}\n`;
+    text += `Incorporation Date: ${overview.incorporationDate || 'Not specified'}\n`;
+    text += `Company Type: ${overview.companyType || 'Not specified'}\n`;
+    
+    // Calculate company age for business maturity assessment
+    if (overview.incorporationDate) {
+      const incorporatedAt = recordDateToTime(overview, 'incorporationDate', overview.incorporationDate);
+      if (!isNaN(incorporatedAt)) {
+        const ageYears = Math.floor((Date.now() - incorporatedAt) / (365.25 * 24 * 60 * 60 * 1000));
+        text += `Company Age: ${ageYears} years (${ageYears < 2 ? 'Start-up' : ageYears < 7 ? 'Established' : 'Mature'} business)\n`;
+      }
+    }
+    
+    if (overview.registeredAddress) {
+      const addr = overview.registeredAddress;
+      text += `Registered Address: ${[addr.addressLine1, addr.addressLine2, addr.city, addr.postcode, addr.country].filter(Boolean).join(', ')}\n`;
+    }
+    
+    if (overview.sicCodes && overview.sicCodes.length > 0) {
+      text += "\nBUSINESS ACTIVITIES (SIC Codes):\n";
+      overview.sicCodes.forEach((sic, index) => {
+        text += `  ${index + 1}. ${sic.code}: ${sic.description}\n`;
+      });
+      text += `Primary Industry: ${overview.sicCodes[0]?.description || 'Not specified'}\n`;
+    }
+    text += "\n";
+  }
+
+  return text;
+}
+
+export const overviewPlugin: SectionPlugin = {
+  name: 'overview',
+  resultKey: 'overview',
+  navigation: null,
+  schema: z.object({
+    companyName: z.string(),
+    companyNumber: z.string(),
+    status: z.string()
+  }).passthrough(),
+  extract: ({ scraper }) => scraper.extractOverview(),
+  scoreQuality: scoreOverview,
+  assessQuality: assessOverview,
+  summarize: summarizeOverview,
+  summaryOrder: 10
+};
+
+// Filing history
+
+// Enhanced filing analysis
+function analyzeFilingCompliance(filings: any[]): {
+  complianceStatus: string;
+  issues: string[];
+  recommendations: string[];
+  filingStats: any;
+} {
+  const issues: string[] = [];
+  const recommendations: string[] = [];
+  const currentYear = new Date().getFullYear();
+  const currentDate = new Date();
+  
+  // Group filings by type and year
+  const filingsByType = {};
+  const filingsByYear = {};
+  
+  // Filings whose date could not be parsed are left out of the date-based checks
+  const filingTime = (filing: any) => recordDateToTime(filing, 'date', filing.date);
+  const datedFilings = filings.filter(filing => !isNaN(filingTime(filing)));
+  const byDateDescending = (a: any, b: any) => filingTime(b) - filingTime(a);
+
+  datedFilings.forEach(filing => {
+    const year = new Date(filingTime(filing)).getUTCFullYear();
+    
+    // Group by type
+    if (!filingsByType[filing.type]) {
+      filingsByType[filing.type] = [];
+    }
+    filingsByType[filing.type].push(filing);
+    
+    // Group by year
+    if (!filingsByYear[year]) {
+      filingsByYear[year] = [];
+    }
+    filingsByYear[year].push(filing);
+  });
+
+  // Check for required annual filings
+  const recentYears = [currentYear - 1, currentYear - 2, currentYear - 3];
+  
+  recentYears.forEach(year => {
+    const yearFilings = filingsByYear[year] || [];
+    const hasAccounts = yearFilings.some(f => f.type === 'Accounts');
+    const hasConfirmationStatement = yearFilings.some(f => f.type === 'Confirmation Statement' || f.type === 'Annual Return');
+    
+    if (!hasAccounts && year < currentYear) {
+      issues.push(`Missing annual accounts for ${year}`);
+    }
+    
+    if (!hasConfirmationStatement && year < currentYear) {
+      issues.push(`Missing confirmation statement/annual return for ${year}`);
+    }
+  });
+
+  // Check for recent filings
+  const sixMonthsAgo = new Date();
+  sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
+  
+  const recentFilings = datedFilings.filter(f => filingTime(f) > sixMonthsAgo.getTime());
+  if (recentFilings.length === 0) {
+    issues.push("No filings in the last 6 months");
+    recommendations.push("Check if company is still trading and up to date with filing requirements");
+  }
+
+  // Check for overdue filings
+  const oneYearAgo = new Date();
+  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
+  
+  const lastAccounts = datedFilings
+    .filter(f => f.type === 'Accounts')
+    .sort(byDateDescending)[0];
+  
+  if (lastAccounts && filingTime(lastAccounts) < oneYearAgo.getTime()) {
+    issues.push("Annual accounts may be overdue");
+    recommendations.push("Verify current filing status and deadlines");
+  }
+
+  // Determine compliance status
+  let complianceStatus = "Good";
+  if (issues.length > 0) {
+    complianceStatus = issues.length > 2 ? "Poor" : "Warning";
+  }
+
+  const filingStats = {
+    totalFilings: filings.length,
+    undatedFilings: filings.length - datedFilings.length,
+    filingsByType: Object.keys(filingsByType).map(type => ({
+      type,
+      count: filingsByType[type].length,
+      mostRecent: filingsByType[type].sort(byDateDescending)[0]?.date
+    })),
+    filingsByYear: Object.keys(filingsByYear).map(year => ({
+      year: parseInt(year),
+      count: filingsByYear[year].length
+    })).sort((a, b) => b.year - a.year),
+    documentTypes: filings.flatMap(f => f.documentLinks.map(l => l.linkType))
+      .reduce((acc, type) => {
+        acc[type] = (acc[type] || 0) + 1;
+        return acc;
+      }, {}),
+    pdfDocumentCount: filings.flatMap(f => f.documentLinks.filter(l => l.linkType === 'PDF')).length
+  };
+
+  return {
+    complianceStatus,
+    issues,
+    recommendations,
+    filingStats
+  };
+}
+
+function scoreFiling(filing: ScrapingResult['filing'] | null | undefined, tally: QualityTally): void {
+  // Filing history scoring (40 points)
+  if (filing && filing.filings && filing.filings.length > 0) {
+    tally.score += 25; // Base points for having filings
+    
+    const docSuccessRate = filing.statistics.documentSuccessRate;
+    if (docSuccessRate > 80) tally.score += 15;
+    else if (docSuccessRate > 50) tally.score += 10;
+    else if (docSuccessRate > 20) tally.score += 5;
+    else tally.issues.push("Low PDF document extraction rate");
+    
+    if (filing.filings.length < 3) {
+      tally.issues.push("Very limited filing history");
+    }
+  } else {
+    tally.issues.push("No filing history extracted");
+  }
+}
+
+function assessFiling(filing: ScrapingResult['filing'] | null | undefined, assessment: QualityAssessment, status?: SectionStatus): void {
+  // Filing history assessment (40 points) - enhanced for PDF extraction
+  if (!filing || !filing.filings || filing.filings.length === 0) {
+    assessment.score -= 40;
+    if (status?.status === 'empty') {
+      assessment.issues.push("Filing history page lists no filings");
+      assessment.recommendations.push("Company has no filing history on record - confirm it is newly incorporated");
+    } else if (sectionFailed(status)) {
+      assessment.issues.push(`Filing history extraction failed${describeSectionFailure(status)}`);
+      assessment.recommendations.push("Filing history could not be read - re-run the report before relying on it");
+    } else {
+      assessment.issues.push("No filing history extracted");
+      assessment.recommendations.push("Company may have limited filing history or extraction failed");
+    }
+  } else {
+    const filingData = filing;
+    
+    // Check filing count
+    if (filingData.totalFilings < 3) {
+      assessment.issues.push("Very limited filing history");
+      assessment.score -= 10;
+    } else if (filingData.totalFilings > 50) {
+      assessment.score += 5; // Bonus for extensive history
+    }
+
+    // Enhanced PDF document extraction assessment
+    const docSuccessRate = filingData.statistics?.documentSuccessRate ?? 0;
+    if (docSuccessRate === 0) {
+      assessment.issues.push("No PDF document links extracted");
+      assessment.score -= 20;
+      assessment.recommendations.push("PDF extraction may have failed - check network connectivity to Companies House");
+    } else if (docSuccessRate < 30) {
+      assessment.issues.push(`Low PDF extraction rate: ${docSuccessRate}%`);
+      assessment.score -= 10;
+      assessment.recommendations.push("Try using enhanced extraction strategies or verify document availability");
+    } else if (docSuccessRate > 80) {
+      assessment.score += 5; // Bonus for high success rate
+    }
+
+    // Check PDF links validity
+    const invalidPDFLinks = filingData.filings.filter(f => 
+      f.documentLinks && f.documentLinks.length > 0 && 
+      f.documentLinks.some(link => !link.url || !link.url.includes('document?format='))
+    ).length;
+    
+    if (invalidPDFLinks > 0) {
+      assessment.issues.push(`${invalidPDFLinks} filings have potentially invalid PDF links`);
+      assessment.score -= 5;
+      assessment.recommendations.push("PDF link format may be incorrect, verify URL structure");
+    }
+
+    // Reconciliation mode keeps the DOM value in a conflict, but the row still needs a second look
+    if (filingData.reconciliation?.conflicts) {
+      assessment.issues.push(`${filingData.reconciliation.conflicts} filings read differently by the DOM and LLM strategies`);
+      assessment.recommendations.push("Check the filings flagged in reconciliation.conflicts against the filing history page");
+    }
+
+    // Check for recent filings
+    if (filingData.dateRange) {
+      const latestDate = new Date(filingData.dateRange.latest);
+      const oneYearAgo = new Date();
+      oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
+      
+      if (latestDate < oneYearAgo) {
+        assessment.issues.push("No recent filings in the last year");
+        assessment.score -= 5;
+        assessment.recommendations.push("Check if company is still active");
+      }
+    }
+    
+    // Add bonus for multiple pages scraped
+    if (filingData.pagesScraped > 1) {
+      const multiPageBonus = Math.min(5, filingData.pagesScraped);
+      assessment.score += multiPageBonus;
+      // Make sure score doesn't exceed 100
+      assessment.score = Math.min(100, assessment.score);
+    }
+  }
+}
+
+function summarizeFiling(filing: ScrapingResult['filing'] | null | undefined): string {
+  let text = '';
+
+  // Process Enhanced Filing History with business intelligence context
+  if (filing && filing.filings && filing.filings.length > 0) {
+    text += "=== REGULATORY COMPLIANCE & FILING INTELLIGENCE ===\n";
+    text += `Total Filings Extracted: ${filing.totalFilings}\n`;
+    text += `Pages Analyzed: ${filing.pagesScraped}\n`;
+    text += `Data Completeness: ${filing.pagesScraped >= 10 ? 'Comprehensive' : filing.pagesScraped >= 5 ? 'Good' : 'Limited'} filing history coverage\n`;
+    if (filing.categories?.length > 0) {
+      text += `Filing History Filtered To: ${filing.categories.join(', ')} (other filing types were not scraped - their absence is not a compliance gap)\n`;
+    }
+    
+    if (filing.dateRange) {
+      text += `Filing Period Analyzed: ${filing.dateRange.earliest} to ${filing.dateRange.latest}\n`;
+      const periodYears = Math.floor((dateToTime(filing.dateRange.latest) - dateToTime(filing.dateRange.earliest)) / (365.25 * 24 * 60 * 60 * 1000));
+      text += `Historical Coverage: ${periodYears} years of filing data\n`;
+    }
+    
+    // Enhanced compliance analysis
+    const compliance = analyzeFilingCompliance(filing.filings);
+    text += `\nCOMPLIANCE ASSESSMENT: ${compliance.complianceStatus}\n`;
+    
+    if (compliance.issues.length > 0) {
+      text += "\nCOMPLIANCE CONCERNS IDENTIFIED:\n";
+      compliance.issues.forEach((issue, index) => {
+        text += `  ${index + 1}. ${issue}\n`;
+      });
+    }
+    
+    if (compliance.recommendations.length > 0) {
+      text += "\nREGULATORY RECOMMENDATIONS:\n";
+      compliance.recommendations.forEach((rec, index) => {
+        text += `  ${index + 1}. ${rec}\n`;
+      });
+    }
+    
+    // Enhanced filing statistics with business context
+    text += "\nFILING PATTERN ANALYSIS:\n";
+    text += `Total Documents Available: ${compliance.filingStats.pdfDocumentCount} PDF documents\n`;
+    
+    // Safe calculation of filing frequency
+    const filingFrequency = filing && filing.dateRange?.earliest ? 
+      (filing.totalFilings / Math.max(1, Math.floor((Date.now() - dateToTime(filing.dateRange.earliest)) / (365.25 * 24 * 60 * 60 * 1000)))).toFixed(1) : 
+      'N/A';
+    text += `Filing Frequency: ${filingFrequency} filings per year average\n`;
+    
+    text += "\nFiling Types Distribution:\n";
+    compliance.filingStats.filingsByType
+      .sort((a, b) => b.count - a.count)
+      .forEach((typeData, index) => {
+        // Safe calculation of percentage with null check
+        const totalFilings = filing?.totalFilings || 1; // Use 1 as fallback to avoid division by zero
+        const percentage = ((typeData.count / totalFilings) * 100).toFixed(1);
+        text += `  ${index + 1}. ${typeData.type}: ${typeData.count} filings (${percentage}%) - Most recent: ${typeData.mostRecent}\n`;
+      });
+    
+    text += "\nFiling Activity by Year:\n";
+    compliance.filingStats.filingsByYear.slice(0, 10).forEach((yearData, index) => {
+      const trend = index > 0 ? 
+        (yearData.count > compliance.filingStats.filingsByYear[index - 1]?.count ? '↗ Increasing' : 
+         yearData.count < compliance.filingStats.filingsByYear[index - 1]?.count ? '↘ Decreasing' : '→ Stable') : '';
+      text += `  ${yearData.year}: ${yearData.count} filings ${trend}\n`;
+    });
+    
+    // Critical recent filings analysis
+    const filingTime = (filing: any) => recordDateToTime(filing, 'date', filing.date);
+    const recentFilings = filing.filings
+      .filter(filing => !isNaN(filingTime(filing)))
+      .sort((a, b) => filingTime(b) - filingTime(a))
+      .slice(0, 15);
+    
+    text += "\nRECENT CRITICAL FILINGS (Last 15):\n";
+    recentFilings.forEach((filing, index) => {
+      const daysAgo = Math.floor((Date.now() - filingTime(filing)) / (24 * 60 * 60 * 1000));
+      text += `  ${index + 1}. ${filing.date} (${daysAgo} days ago) - ${filing.type}\n`;
+      text += `     Description: ${filing.description}\n`;
+      if (filing.documentLinks.length > 0) {
+        text += `     Available Documents: ${filing.documentLinks.map(link => `${link.linkType}${link.pageCount ? ` (${link.pageCount} pages)` : ''}`).join(', ')}\n`;
+      }
+    });
+    text += "\n";
+  }
+
+  return text;
+}
+
+export const filingPlugin: SectionPlugin<ScrapingResult['filing']> = {
+  name: 'filing history',
+  resultKey: 'filing',
+  navigation: { tab: 'Filing history', path: '/filing-history' },
+  schema: z.object({
+    filings: z.array(z.object({
+      date: z.string(),
+      description: z.string(),
+      type: z.string(),
+      documentLinks: z.array(z.object({ url: z.string(), linkType: z.string() }).passthrough())
+    }).passthrough()),
+    totalFilings: z.number(),
+    pagesScraped: z.number()
+  }).passthrough(),
+  async extract({ scraper, result, options, maxFilingPages }) {
+    const filing = await scraper.extractFilingHistory(maxFilingPages, options.filingCategories, options.previousFiling, options.reconcileFilings);
+    if (filing?.incremental && !filing.incremental.reachedKnownFiling) {
+      result.dataIssues.push(`Incremental refresh did not reach a previously stored filing within ${filing.pagesScraped} pages - the merged history may have a gap`);
+    }
+    if (filing?.reconciliation?.conflicts) {
+      result.dataIssues.push(`${filing.reconciliation.conflicts} filing(s) read differently by the DOM and LLM strategies - see reconciliation.conflicts on those filings`);
+    }
+    return filing;
+  },
+  scoreQuality: scoreFiling,
+  assessQuality: assessFiling,
+  summarize: summarizeFiling,
+  summaryOrder: 20
+};
+
+// People / officers
+
+function scorePeople(people: PeopleData | null | undefined, tally: QualityTally): void {
+  // People scoring (15 points)
+  if (people && people.officers && people.officers.length > 0) {
+    tally.score += 15;
+  } else {
+    tally.issues.push("No officer information extracted");
+  }
+}
+
+function assessPeople(people: PeopleData | null | undefined, assessment: QualityAssessment, status?: SectionStatus): void {
+  // People/Officers assessment (20 points)
+  if (!people || !people.officers || people.officers.length === 0) {
+    assessment.score -= 20;
+    if (status?.status === 'empty') {
+      assessment.issues.push("No officers listed on the register");
+      assessment.recommendations.push("Company lists no officers - check whether it has been dissolved or struck off");
+    } else if (sectionFailed(status)) {
+      assessment.issues.push(`Officer extraction failed${describeSectionFailure(status)}`);
+      assessment.recommendations.push("Officer information could not be read - re-run the report before relying on it");
+    } else {
+      assessment.issues.push("No officer information extracted");
+      assessment.recommendations.push("Officer information may be restricted or extraction failed");
+    }
+  } else {
+    if (people.officers.length > 5) {
+      assessment.score += 2; // Bonus for detailed officer info
+    }
+
+    // Serial directors of dissolved or insolvent companies are a red flag, not a data quality problem
+    const seenProfiles = new Set<string>();
+    people.officers.forEach(officer => {
+      const history = officer.appointmentHistory;
+      if (!history || seenProfiles.has(history.profileUrl)) return;
+      seenProfiles.add(history.profileUrl);
+      if (history.dissolvedCompanies >= 3 || history.insolventCompanies > 0) {
+        assessment.recommendations.push(`RED FLAG: ${officer.name} has held appointments at ${history.dissolvedCompanies} dissolved and ${history.insolventCompanies} insolvent companies - review their appointment history`);
+      }
+    });
+  }
+}
+
+function summarizePeople(people: PeopleData | null | undefined): string {
+  let text = '';
+
+  // Enhanced People/Officers Analysis with governance insights
+  if (people && people.officers && people.officers.length > 0) {
+    text += "=== GOVERNANCE STRUCTURE & LEADERSHIP ANALYSIS ===\n";
+    text += `Total Officers Identified: ${people.totalOfficers || people.officers.length}\n`;
+    text += `Active Officers: ${people.activeOfficers || people.officers.filter(o => !o.resignationDate).length}\n`;
+    text += `Resigned Officers: ${people.resignedOfficers || people.officers.filter(o => o.resignationDate).length}\n`;
+    
+    if (people.pagesScraped) {
+      text += `Officer Data Coverage: ${people.pagesScraped} pages analyzed\n`;
+    }
+    
+    // Officer role analysis
+    const roleDistribution = people.officers.reduce((acc: Record<string, number>, officer) => {
+      acc[officer.role] = (acc[officer.role] || 0) + 1;
+      return acc;
+    }, {});
+    
+    text += "\nLEADERSHIP STRUCTURE:\n";
+    Object.entries(roleDistribution)
+      .sort(([,a], [,b]) => (b as number) - (a as number))
+      .forEach(([role, count], index) => {
+        text += `  ${index + 1}. ${role}: ${count} ${count === 1 ? 'person' : 'people'}\n`;
+      });
+    
+    // Recent officer changes (governance stability)
+    const oneYearAgo = new Date();
+    oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
+    const appointedAt = (officer: any) => recordDateToTime(officer, 'appointmentDate', officer.appointmentDate);
+    const resignedAt = (officer: any) => recordDateToTime(officer, 'resignationDate', officer.resignationDate);
+    // Latest known change; NaN (unparseable or missing) never counts as recent
+    const lastChangeAt = (officer: any) => officer.resignationDate ? resignedAt(officer) : appointedAt(officer);
+
+    const recentChanges = people.officers
+      .filter(officer => appointedAt(officer) > oneYearAgo.getTime() || resignedAt(officer) > oneYearAgo.getTime())
+      .sort((a, b) => (lastChangeAt(b) || 0) - (lastChangeAt(a) || 0));
+    
+    if (recentChanges.length > 0) {
+      text += "\nRECENT GOVERNANCE CHANGES (Last 12 months):\n";
+      recentChanges.slice(0, 10).forEach((officer, index) => {
+        const changeType = officer.resignationDate ? 'RESIGNED' : 'APPOINTED';
+        const changeDate = officer.resignationDate || officer.appointmentDate;
+        text += `  ${index + 1}. ${changeType}: ${officer.name} (${officer.role}) - ${changeDate}\n`;
+      });
+    }
+    
+    // Detailed officer profiles
+    text += "\nKEY PERSONNEL PROFILES:\n";
+    people.officers
+      .filter(officer => !officer.resignationDate) // Active officers only
+      .slice(0, 10) // Top 10 officers
+      .forEach((officer, index) => {
+        text += `\n  ${index + 1}. ${officer.name}\n`;
+        text += `     Role: ${officer.role}\n`;
+        text += `     Appointed: ${officer.appointmentDate || 'Date not specified'}\n`;
+        
+        if (officer.nationality) text += `     Nationality: ${officer.nationality}\n`;
+        if (officer.occupation) text += `     Occupation: ${officer.occupation}\n`;
+        if (officer.address) text += `     Address: ${officer.address}\n`;
+        if (officer.dateOfBirth) text += `     Date of Birth: ${officer.dateOfBirth}\n`;
+        
+        // Other appointments held by this officer (serial directorships of dissolved companies are a red flag)
+        if (officer.appointmentHistory) {
+          const history = officer.appointmentHistory;
+          text += `     Other Appointments: ${history.appointments.length} (${history.activeAppointments} active, ${history.dissolvedCompanies} at dissolved companies, ${history.insolventCompanies} at insolvent companies)\n`;
+          history.appointments.slice(0, 10).forEach((appointment, appointmentIndex) => {
+            const period = appointment.resignedOn
+              ? `${appointment.appointedOn || '?'} to ${appointment.resignedOn}`
+              : `since ${appointment.appointedOn || '?'}`;
+            text += `       ${appointmentIndex + 1}. ${appointment.companyName} (${appointment.companyNumber}) - ${appointment.role || 'Role not specified'}, ${period}, company ${appointment.companyStatus || 'status unknown'}\n`;
+          });
+          if (history.appointments.length > 10) {
+            text += `       ... and ${history.appointments.length - 10} more\n`;
+          }
+        }
+        
+        // Enhanced: Include profile links if available
+        if (officer.links && officer.links.length > 0) {
+          text += `     Profile Links Available: ${officer.links.length} link(s)\n`;
+          officer.links.forEach((link, linkIndex) => {
+            text += `       ${linkIndex + 1}. ${link.linkType}: ${link.linkText} (${link.url})\n`;
+          });
+        }
+      });
+    text += "\n";
+  }
+
+  return text;
+}
+
+export const peoplePlugin: SectionPlugin<PeopleData> = {
+  name: 'people',
+  resultKey: 'people',
+  navigation: { tab: 'People', path: '/officers' },
+  schema: z.object({
+    officers: z.array(z.object({ name: z.string(), role: z.string() }).passthrough()),
+    totalOfficers: z.number(),
+    pagesScraped: z.number()
+  }).passthrough(),
+  extract: ({ scraper, maxPeoplePages }) => scraper.extractPeople(maxPeoplePages),
+  scoreQuality: scorePeople,
+  assessQuality: assessPeople,
+  summarize: summarizePeople,
+  summaryOrder: 30
+};
+
+// Persons with significant control - individuals, corporate entities, legal persons and PSC statements
+
+interface PSCReading {
+  persons: PSCData[];
+  statements: PSCStatement[];
+}
+
+async function readPSCWithDirectDOM(page: any): Promise<PSCReading> {
+  console.log("Extracting PSC data using direct DOM manipulation...");
+
+  // No named helper functions in here: the body is serialized into the browser,
+  // and tsx wraps named functions in a __name() helper that does not exist there
+  return await page.evaluate(() => {
+    const persons: any[] = [];
+    const statements: any[] = [];
+    const labelKeys: Array<[string, string]> = [
+      ['notified on', 'notifiedOn'],
+      ['ceased on', 'ceasedOn'],
+      ['withdrawn on', 'withdrawnOn'],
+      ['date of birth', 'dateOfBirth'],
+      ['nationality', 'nationality'],
+      ['country of residence', 'countryOfResidence'],
+      ['correspondence address', 'address'],
+      ['registered office address', 'address'],
+      ['address', 'address'],
+      ['legal form', 'legalForm'],
+      ['governing law', 'governingLaw'],
+      ['place registered', 'placeRegistered'],
+      ['registration number', 'registrationNumber'],
+      ['nature of control', 'naturesOfControl'],
+      ['natures of control', 'naturesOfControl']
+    ];
+
+    // Each PSC or statement is rendered in its own "appointment-N" block
+    const blocks = Array.from(document.querySelectorAll('[class^="appointment-"], [class*=" appointment-"]'));
+
+    for (const block of blocks) {
+      // Collect dt/dd pairs; a dt can be followed by several dd elements (e.g. natures of control)
+      const fields: Record<string, string[]> = {};
+      let currentKey = '';
+      block.querySelectorAll('dt, dd').forEach(element => {
+        const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+        if (element.tagName.toLowerCase() === 'dt') {
+          const label = text.toLowerCase();
+          const match = labelKeys.find(([prefix]) => label.startsWith(prefix));
+          currentKey = match ? match[1] : '';
+          if (currentKey) fields[currentKey] = fields[currentKey] || [];
+        } else if (currentKey) {
+          const listItems = Array.from(element.querySelectorAll('li'));
+          if (listItems.length > 0) {
+            listItems.forEach(item => fields[currentKey].push((item.textContent || '').replace(/\s+/g, ' ').trim()));
+          } else if (text) {
+            fields[currentKey].push(text);
+          }
+        }
+      });
+
+      const details: Record<string, string | undefined> = {};
+      Object.keys(fields).forEach(key => {
+        details[key] = fields[key].filter(Boolean).join(', ') || undefined;
+      });
+
+      const heading = (block.querySelector('h2, h3')?.textContent || '').replace(/\s+/g, ' ').trim();
+      const blockText = (block.textContent || '').replace(/\s+/g, ' ').trim();
+
+      // PSC statements have no named person, just a statement about registrable persons
+      const isStatement = /registrable (person|relevant legal entity)|psc statement|statement/i.test(heading) ||
+        (!fields.naturesOfControl && /registrable (person|relevant legal entity)/i.test(blockText));
+
+      if (isStatement) {
+        const statementText = (block.querySelector('.statement, p')?.textContent || '').replace(/\s+/g, ' ').trim() || heading;
+        statements.push({
+          statement: statementText,
+          notifiedOn: details.notifiedOn,
+          withdrawnOn: details.withdrawnOn || details.ceasedOn
+        });
+        continue;
+      }
+
+      if (!heading) continue;
+
+      let naturesOfControl = (fields.naturesOfControl || []).filter(Boolean);
+      if (naturesOfControl.length === 0) {
+        naturesOfControl = Array.from(block.querySelectorAll('[id*="nature-of-control"], [id*="natures-of-control"] li'))
+          .map(element => (element.textContent || '').replace(/\s+/g, ' ').trim())
+          .filter(Boolean);
+      }
+
+      let kind = 'unknown';
+      if (/super secure/i.test(blockText)) {
+        kind = 'super-secure';
+      } else if (details.dateOfBirth || details.nationality) {
+        kind = 'individual';
+      } else if (details.registrationNumber || details.placeRegistered) {
+        kind = 'corporate-entity';
+      } else if (details.legalForm || details.governingLaw) {
+        kind = 'legal-person';
+      }
+
+      persons.push({
+        kind,
+        name: heading,
+        naturesOfControl,
+        notifiedOn: details.notifiedOn,
+        ceasedOn: details.ceasedOn,
+        dateOfBirth: details.dateOfBirth,
+        nationality: details.nationality,
+        countryOfResidence: details.countryOfResidence,
+        address: details.address,
+        legalForm: details.legalForm,
+        governingLaw: details.governingLaw,
+        placeRegistered: details.placeRegistered,
+        registrationNumber: details.registrationNumber
+      });
+    }
+
+    return { persons, statements };
+  });
+}
+
+async function readPSCWithLLM(page: any): Promise<PSCReading> {
+  console.log("Extracting PSC data using LLM...");
+
+  try {
+    const result = await page.extract({
+      instruction: `Extract all persons with significant control (PSCs) and any PSC statements from this Companies House page.
+      For each PSC, extract:
+      1. Name
+      2. Kind: 'individual', 'corporate-entity' (has a registration number), 'legal-person' (legal form and governing law but no register) or 'super-secure'
+      3. Every nature of control statement (e.g. "Ownership of shares – 75% or more")
+      4. Notified on date and ceased on date (if ceased)
+      5. Date of birth, nationality, country of residence and correspondence address for individuals
+      6. Legal form, governing law, place registered and registration number for entities
+      
+      Also extract any PSC statements such as "The company knows or has reasonable cause to believe that there is no registrable person",
+      with their notified and withdrawn dates.`,
+      schema: z.object({
+        persons: z.array(z.object({
+          kind: z.enum(['individual', 'corporate-entity', 'legal-person', 'super-secure', 'unknown']),
+          name: z.string(),
+          naturesOfControl: z.array(z.string()),
+          notifiedOn: z.string().optional(),
+          ceasedOn: z.string().optional(),
+          dateOfBirth: z.string().optional(),
+          nationality: z.string().optional(),
+          countryOfResidence: z.string().optional(),
+          address: z.string().optional(),
+          legalForm: z.string().optional(),
+          governingLaw: z.string().optional(),
+          placeRegistered: z.string().optional(),
+          registrationNumber: z.string().optional()
+        })),
+        statements: z.array(z.object({
+          statement: z.string(),
+          notifiedOn: z.string().optional(),
+          withdrawnOn: z.string().optional()
+        }))
+      })
+    });
+
+    console.log(`LLM extraction found ${result.persons.length} PSCs and ${result.statements.length} statements`);
+    return result;
+  } catch (error) {
+    console.log("LLM PSC extraction failed:", error.message);
+    return { persons: [], statements: [] };
+  }
+}
+
+const hasPSCEntries = (psc: PSCReading | null | undefined) =>
+  !!psc && ((psc.persons?.length ?? 0) > 0 || (psc.statements?.length ?? 0) > 0);
+
+function scorePSC(psc: PSCSection | null | undefined, tally: QualityTally): void {
+  // PSC scoring (10 points) - a PSC statement counts, it is the company's declared position
+  if (hasPSCEntries(psc)) {
+    tally.score += 10;
+  } else {
+    tally.issues.push("No persons with significant control information extracted");
+  }
+}
+
+function assessPSC(psc: PSCSection | null | undefined, assessment: QualityAssessment, status?: SectionStatus): void {
+  // PSC assessment (5 points) - ownership is the first KYC question
+  if (!psc || !hasPSCEntries(psc)) {
+    assessment.issues.push(status?.status === 'empty'
+      ? "PSC register lists no persons with significant control or statements"
+      : `No persons with significant control information extracted${describeSectionFailure(status)}`);
+    assessment.score -= 5;
+    assessment.recommendations.push("Verify ownership manually on the Companies House PSC register");
+  } else {
+    const hasActivePSC = (psc.activePersons ?? 0) > 0;
+    const hasActiveStatement = (psc.statements || []).some(statement => !statement.withdrawnOn);
+    if (!hasActivePSC && hasActiveStatement) {
+      assessment.recommendations.push("No active registrable PSC - review the PSC statements and obtain ownership details directly");
+    } else if (!hasActivePSC) {
+      assessment.issues.push("No active persons with significant control on record");
+      assessment.recommendations.push("All PSCs have ceased - confirm the current ownership structure");
+    }
+  }
+}
+
+function summarizePSC(psc: PSCSection | null | undefined): string {
+  let text = '';
+
+  // Enhanced PSC (Persons with Significant Control) Analysis
+  if (psc && hasPSCEntries(psc)) {
+    const persons = psc.persons || [];
+    const statements = psc.statements || [];
+
+    text += "=== OWNERSHIP & CONTROL STRUCTURE ===\n";
+    text += `Persons with Significant Control: ${persons.length} (${persons.filter(p => !p.ceasedOn).length} active, ${persons.filter(p => p.ceasedOn).length} ceased)\n`;
+    
+    persons.forEach((person, index) => {
+      const kindLabel = person.kind === 'corporate-entity' ? 'Corporate entity'
+        : person.kind === 'legal-person' ? 'Legal person'
+        : person.kind === 'super-secure' ? 'Super secure person'
+        : 'Individual';
+      text += `\n  ${index + 1}. ${person.name || 'Name not specified'} (${kindLabel})${person.ceasedOn ? ' - CEASED' : ''}\n`;
+      if (person.notifiedOn) text += `     Notified: ${person.notifiedOn}\n`;
+      if (person.ceasedOn) text += `     Ceased: ${person.ceasedOn}\n`;
+      if (person.nationality) text += `     Nationality: ${person.nationality}\n`;
+      if (person.countryOfResidence) text += `     Country of Residence: ${person.countryOfResidence}\n`;
+      if (person.dateOfBirth) text += `     Date of Birth: ${person.dateOfBirth}\n`;
+      if (person.address) text += `     Address: ${person.address}\n`;
+      if (person.legalForm) text += `     Legal Form: ${person.legalForm}\n`;
+      if (person.governingLaw) text += `     Governing Law: ${person.governingLaw}\n`;
+      if (person.placeRegistered) text += `     Place Registered: ${person.placeRegistered}\n`;
+      if (person.registrationNumber) text += `     Registration Number: ${person.registrationNumber}\n`;
+      if (person.naturesOfControl && person.naturesOfControl.length > 0) {
+        text += `     Nature of Control:\n`;
+        person.naturesOfControl.forEach(control => {
+          text += `       - ${control}\n`;
+        });
+      }
+    });
+
+    if (statements.length > 0) {
+      text += "\nPSC STATEMENTS:\n";
+      statements.forEach((statement, index) => {
+        text += `  ${index + 1}. ${statement.statement}\n`;
+        if (statement.notifiedOn) text += `     Notified: ${statement.notifiedOn}\n`;
+        if (statement.withdrawnOn) text += `     Withdrawn: ${statement.withdrawnOn}\n`;
+      });
+    }
+    text += "\n";
+  }
+
+  return text;
+}
+
+export const pscPlugin: SectionPlugin<PSCSection> = {
+  name: 'persons with significant control',
+  resultKey: 'psc',
+  navigation: { tab: 'Persons with significant control', path: '/persons-with-significant-control' },
+  strategies: [
+    { name: 'Direct DOM', run: readPSCWithDirectDOM },
+    { name: 'LLM', run: readPSCWithLLM }
+  ],
+  schema: z.object({
+    persons: z.array(z.object({
+      kind: z.enum(['individual', 'corporate-entity', 'legal-person', 'super-secure', 'unknown']),
+      name: z.string(),
+      naturesOfControl: z.array(z.string())
+    }).passthrough()),
+    statements: z.array(z.object({ statement: z.string() }).passthrough()),
+    totalPersons: z.number()
+  }).passthrough(),
+  async extract({ scraper }) {
+    console.log("Extracting persons with significant control...");
+    await scraper.navigateToSection(pscPlugin.navigation!.tab);
+    await scraper.archivePage(pscPlugin.name);
+
+    const found = await scraper.runStrategies<PSCReading>(pscPlugin.name, pscPlugin.strategies!, hasPSCEntries);
+    if (!found) {
+      console.log("No PSCs or PSC statements found");
+      return null;
+    }
+
+    const { persons, statements } = found.value;
+    const source = pageSource(scraper.page, found.strategy);
+    attachProvenance(persons, source);
+    attachProvenance(statements, source);
+
+    const psc: PSCSection = {
+      persons,
+      statements,
+      totalPersons: persons.length,
+      activePersons: persons.filter(person => !person.ceasedOn).length,
+      ceasedPersons: persons.filter(person => person.ceasedOn).length
+    };
+    console.log(`Successfully extracted ${psc.totalPersons} PSCs (${psc.activePersons} active) and ${statements.length} PSC statements`);
+    return psc;
+  },
+  scoreQuality: scorePSC,
+  assessQuality: assessPSC,
+  summarize: summarizePSC,
+  summaryOrder: 80
+};
+
+// Charges
+
+function scoreCharges(chargesSection: ChargesSection | null | undefined, tally: QualityTally): void {
+  // Charges scoring (15 points)
+  if (chargesSection) {
+    tally.score += 15;
+  } else {
+    tally.issues.push("No charges information extracted");
+  }
+}
+
+function assessCharges(chargesSection: ChargesSection | null | undefined, assessment: QualityAssessment, status?: SectionStatus): void {
+  // Charges assessment (10 points)
+  if (!chargesSection) {
+    assessment.issues.push(`Charges section not accessible${describeSectionFailure(status)}`);
+    assessment.score -= 10;
+  } else if (chargesSection.charges && chargesSection.charges.length > 0) {
+    // Company has charges - note but don't penalize
+    const outstanding = chargesSection.outstanding ?? 0;
+    assessment.recommendations.push(outstanding > 0
+      ? `Company has ${outstanding} outstanding charge(s) - review persons entitled and MR01 documents for risk assessment`
+      : "Company has registered charges, all satisfied - review for risk assessment");
+
+    const unknownStatus = chargesSection.charges.filter(charge => charge.status === 'unknown').length;
+    if (unknownStatus > 0) {
+      assessment.issues.push(`${unknownStatus} charge(s) have an unrecognised status`);
+      assessment.score -= 3;
+    }
+  }
+}
+
+function summarizeCharges(chargesSection: ChargesSection | null | undefined): string {
+  let text = '';
+
+  // Enhanced Charges Analysis
+  const charges = chargesSection?.charges || [];
+  if (charges.length > 0) {
+    text += "=== FINANCIAL SECURITY & CHARGES ANALYSIS ===\n";
+    text += `Total Charges Registered: ${charges.length}\n`;
+    
+    // Unknown-status charges are listed with the active ones but not counted as outstanding
+    const activeCharges = charges.filter(charge => charge.status === 'outstanding' || charge.status === 'part-satisfied' || charge.status === 'unknown');
+    const satisfiedCharges = charges.filter(charge => charge.status === 'satisfied');
+    const countOf = (status: ChargeData['status']) => charges.filter(charge => charge.status === status).length;
+    
+    text += `Outstanding Charges: ${countOf('outstanding')}\n`;
+    if (countOf('part-satisfied') > 0) text += `Part Satisfied Charges: ${countOf('part-satisfied')}\n`;
+    text += `Satisfied Charges: ${satisfiedCharges.length}\n`;
+    if (countOf('unknown') > 0) text += `Charges With Unrecognised Status: ${countOf('unknown')} (treat as possibly outstanding)\n`;
+    
+    const describeFlags = (charge) => [
+      charge.containsFixedCharge ? 'fixed charge' : null,
+      charge.containsFloatingCharge ? `floating charge${charge.floatingChargeCoversAll ? ' (covers all property)' : ''}` : null,
+      charge.containsNegativePledge ? 'negative pledge' : null
+    ].filter(Boolean).join(', ');
+
+    if (activeCharges.length > 0) {
+      text += "\nOUTSTANDING FINANCIAL OBLIGATIONS:\n";
+      activeCharges.slice(0, 10).forEach((charge, index) => {
+        text += `  ${index + 1}. ${charge.title || 'Charge description not available'}${charge.chargeCode ? ` [${charge.chargeCode}]` : ''} - ${charge.statusText || charge.status}\n`;
+        if (charge.createdOn) text += `     Created: ${charge.createdOn}${charge.deliveredOn ? `, delivered ${charge.deliveredOn}` : ''}\n`;
+        if (charge.personsEntitled?.length > 0) text += `     Persons Entitled: ${charge.personsEntitled.join('; ')}\n`;
+        if (describeFlags(charge)) text += `     Security: ${describeFlags(charge)}\n`;
+        if (charge.shortParticulars) text += `     Particulars: ${charge.shortParticulars}\n`;
+        const mr01 = (charge.documents || []).find(doc => doc.filingType === 'MR01');
+        if (mr01) text += `     MR01 Document: ${mr01.url}\n`;
+      });
+    }
+    
+    if (satisfiedCharges.length > 0) {
+      text += "\nSATISFIED CHARGES:\n";
+      satisfiedCharges.slice(0, 5).forEach((charge, index) => {
+        text += `  ${index + 1}. ${charge.title || 'Charge description not available'} - SATISFIED\n`;
+        if (charge.satisfiedOn) text += `     Satisfied: ${charge.satisfiedOn}\n`;
+        if (charge.personsEntitled?.length > 0) text += `     Persons Entitled: ${charge.personsEntitled.join('; ')}\n`;
+      });
+    }
+    text += "\n";
+  }
+
+  return text;
+}
+
+export const chargesPlugin: SectionPlugin<ChargesSection> = {
+  name: 'charges',
+  resultKey: 'charges',
+  navigation: { tab: 'Charges', path: '/charges' },
+  schema: z.object({
+    charges: z.array(z.object({
+      title: z.string(),
+      status: z.enum(['outstanding', 'satisfied', 'part-satisfied', 'unknown']),
+      personsEntitled: z.array(z.string())
+    }).passthrough()),
+    totalCharges: z.number(),
+    outstanding: z.number()
+  }).passthrough(),
+  extract: ({ scraper }) => scraper.extractCharges(),
+  // Companies without charges still have a charges page - an empty register is a valid result
+  isEmpty: charges => charges.totalCharges === 0,
+  scoreQuality: scoreCharges,
+  assessQuality: assessCharges,
+  summarize: summarizeCharges,
+  summaryOrder: 50
+};
+
+// Insolvency - read only when the company page has an Insolvency tab
+
+function scoreInsolvency(insolvency: InsolvencySection | null | undefined, tally: QualityTally): void {
+  // Insolvency adds no points, but an unchecked insolvency register must never pass silently
+  if (!insolvency) {
+    tally.issues.push("Insolvency information could not be extracted");
+  } else if (insolvency.insolvencyFlag && !insolvency.hasInsolvencyHistory) {
+    tally.issues.push("Company status indicates insolvency but no insolvency cases were extracted");
+  }
+}
+
+function assessInsolvency(insolvency: InsolvencySection | null | undefined, assessment: QualityAssessment, status?: SectionStatus): void {
+  // Insolvency assessment (10 points) - a missed administration or liquidation is the costliest error
+  if (!insolvency) {
+    assessment.issues.push(`Insolvency register could not be checked${describeSectionFailure(status)}`);
+    assessment.score -= 10;
+    assessment.recommendations.push("Check the Companies House insolvency tab manually before relying on this report");
+  } else if (insolvency.hasInsolvencyHistory) {
+    const caseTypes = (insolvency.caseTypes || []).join(', ') || 'unspecified case type';
+    assessment.recommendations.unshift(`INSOLVENCY: company has ${insolvency.totalCases} insolvency case(s) (${caseTypes}) - treat as high credit risk`);
+  } else if (insolvency.insolvencyFlag) {
+    assessment.issues.push("Company status indicates insolvency but no insolvency cases were extracted");
+    assessment.score -= 5;
+    assessment.recommendations.unshift("INSOLVENCY: company status indicates insolvency proceedings - verify case details manually");
+  }
+}
+
+function summarizeInsolvency(insolvency: InsolvencySection | null | undefined): string {
+  let text = '';
+
+  // Insolvency proceedings - always stated explicitly, including when none exist
+  if (insolvency) {
+    text += "=== INSOLVENCY PROCEEDINGS ===\n";
+    if (insolvency.hasInsolvencyHistory) {
+      text += `INSOLVENCY FLAG: YES - ${insolvency.totalCases} case(s) on record\n`;
+      (insolvency.cases || []).forEach((insolvencyCase, index) => {
+        text += `\n  ${index + 1}. ${insolvencyCase.caseType || 'Case type not specified'}${insolvencyCase.caseNumber ? ` (Case number ${insolvencyCase.caseNumber})` : ''}\n`;
+        (insolvencyCase.dates || []).forEach(caseDate => {
+          text += `     ${caseDate.label}: ${caseDate.date}\n`;
+        });
+        (insolvencyCase.practitioners || []).forEach(practitioner => {
+          text += `     Practitioner: ${practitioner.name}${practitioner.role ? ` (${practitioner.role})` : ''}\n`;
+          if (practitioner.address) text += `       Address: ${practitioner.address}\n`;
+          if (practitioner.appointedOn) text += `       Appointed: ${practitioner.appointedOn}\n`;
+          if (practitioner.ceasedToActOn) text += `       Ceased to act: ${practitioner.ceasedToActOn}\n`;
+        });
+      });
+    } else if (insolvency.insolvencyFlag) {
+      text += "INSOLVENCY FLAG: YES - company status indicates insolvency, but no case details were available\n";
+    } else {
+      text += "INSOLVENCY FLAG: NO - no insolvency cases on the Companies House register\n";
+    }
+    text += "\n";
+  } else {
+    text += "=== INSOLVENCY PROCEEDINGS ===\nINSOLVENCY REGISTER NOT CHECKED - extraction failed, treat insolvency status as unknown\n\n";
+  }
+
+  return text;
+}
+
+export const insolvencyPlugin: SectionPlugin<InsolvencySection> = {
+  name: 'insolvency',
+  resultKey: 'insolvency',
+  navigation: { tab: 'Insolvency', path: '/insolvency' },
+  schema: z.object({
+    hasInsolvencyHistory: z.boolean(),
+    insolvencyFlag: z.boolean(),
+    cases: z.array(z.object({
+      caseType: z.string(),
+      dates: z.array(z.object({ label: z.string(), date: z.string() }).passthrough()),
+      practitioners: z.array(z.object({ name: z.string() }).passthrough())
+    }).passthrough()),
+    totalCases: z.number()
+  }).passthrough(),
+  extract: ({ scraper, result }) => scraper.extractInsolvency(result.overview?.status),
+  // No Insolvency tab is a definite "no history", not a failure
+  isEmpty: insolvency => !insolvency.hasInsolvencyHistory,
+  scoreQuality: scoreInsolvency,
+  assessQuality: assessInsolvency,
+  summarize: summarizeInsolvency,
+  summaryOrder: 40
+};
+
+registerSectionPlugin(overviewPlugin);
+registerSectionPlugin(filingPlugin);
+registerSectionPlugin(peoplePlugin);
+registerSectionPlugin(pscPlugin);
+registerSectionPlugin(chargesPlugin);
+registerSectionPlugin(insolvencyPlugin);
@@ -0,0 +1,137 @@
+import { DeadlineExceededError, SCRAPE_TIMEOUT } from './deadline.js';
+import { CompaniesHouseThrottleError } from './rate-limit.js';
+import { StrategyRun } from './telemetry.js';
+
+// Per-section outcome of a scrape. A missing section on ScrapingResult only says "no data"; the
+// status says whether the section was read and genuinely empty, failed, or never attempted, with
+// a machine-readable code so callers do not have to parse log messages or data issue strings.
+
+export type SectionState = 'ok' | 'empty' | 'failed' | 'skipped';
+
+export type SectionErrorCode =
+  | 'COMPANY_NOT_FOUND'
+  // The company page itself could not be reached, so no section was attempted
+  | 'COMPANY_NOT_REACHED'
+  | 'NAVIGATION_FAILED'
+  | 'EXTRACTION_FAILED'
+  | 'RATE_LIMITED'
+  | typeof SCRAPE_TIMEOUT
+  | 'API_ERROR'
+  | 'NOT_REQUESTED'
+  // The data source cannot provide the section, e.g. appointment histories from the API
+  | 'NOT_SUPPORTED'
+  // Depends on a section that returned nothing, e.g. appointment histories without an officers list
+  | 'PREREQUISITE_MISSING';
+
+export interface SectionStatus {
+  status: SectionState;
+  // Set for failed and skipped sections, and for ok sections cut short by the time budget
+  code?: SectionErrorCode;
+  message?: string;
+}
+
+export type SectionStatuses = Record<string, SectionStatus>;
+
+export class SectionNavigationError extends Error {
+  section: string;
+
+  constructor(section: string, message: string = `Failed to navigate to ${section} section`) {
+    super(message);
+    this.name = 'SectionNavigationError';
+    this.section = section;
+  }
+}
+
+export class CompanyNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CompanyNotFoundError';
+  }
+}
+
+// Maps an error to a code by its class; retryOperation keeps the last attempt's error as the cause
+export function classifySectionError(error: unknown, fallback: SectionErrorCode = 'EXTRACTION_FAILED'): SectionErrorCode {
+  for (let current: any = error; current; current = current.cause) {
+    if (current instanceof DeadlineExceededError) return SCRAPE_TIMEOUT;
+    if (current instanceof CompaniesHouseThrottleError) return 'RATE_LIMITED';
+    if (current instanceof CompanyNotFoundError) return 'COMPANY_NOT_FOUND';
+    if (current instanceof SectionNavigationError) return 'NAVIGATION_FAILED';
+  }
+  return fallback;
+}
+
+// A section that returned nothing without throwing: failed if some strategy run ended in errors or
+// rejected results, otherwise every strategy found nothing and the section is genuinely empty
+export function statusFromRuns(runs: StrategyRun[]): SectionStatus {
+  const failedRun = [...runs].reverse().find(run =>
+    !run.winner && run.attempts.some(attempt => attempt.outcome === 'error' || attempt.outcome === 'rejected')
+  );
+  if (!failedRun) return { status: 'empty' };
+
+  const reasons = failedRun.attempts
+    .filter(attempt => attempt.outcome !== 'empty')
+    .map(attempt => `${attempt.strategy}: ${attempt.reason || attempt.outcome}`);
+  return {
+    status: 'failed',
+    code: failedRun.operation === 'navigation' ? 'NAVIGATION_FAILED' : 'EXTRACTION_FAILED',
+    message: `All ${failedRun.section} ${failedRun.operation} strategies failed (${reasons.join('; ')})`
+  };
+}
+
+export class SectionTracker {
+  private statuses: SectionStatuses = {};
+
+  has(section: string): boolean {
+    return section in this.statuses;
+  }
+
+  record(section: string, status: SectionStatus): void {
+    this.statuses[section] = status;
+  }
+
+  fail(section: string, error: unknown, fallback?: SectionErrorCode): void {
+    this.record(section, {
+      status: 'failed',
+      code: classifySectionError(error, fallback),
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  skip(section: string, code: SectionErrorCode, message: string): void {
+    this.record(section, { status: 'skipped', code, message });
+  }
+
+  // Every listed section without a status yet, e.g. after the company page could not be reached
+  skipRemaining(sections: string[], code: SectionErrorCode, message: string): void {
+    sections.filter(section => !this.has(section)).forEach(section => this.skip(section, code, message));
+  }
+
+  summary(): SectionStatuses {
+    return { ...this.statuses };
+  }
+}
+
+// True when at least one section was read, even if it was empty
+export function hasUsableSection(statuses: SectionStatuses): boolean {
+  return Object.values(statuses).some(section => section.status === 'ok' || section.status === 'empty');
+}
+
+// The first failure, for reports where no section could be read
+export function firstFailure(statuses: SectionStatuses): SectionStatus | null {
+  const incidental: Array<SectionErrorCode | undefined> = ['NOT_REQUESTED', 'NOT_SUPPORTED', 'PREREQUISITE_MISSING'];
+  return Object.values(statuses).find(section =>
+    section.status === 'failed' || (section.status === 'skipped' && !incidental.includes(section.code))
+  ) || null;
+}
+
+// Failed, or never attempted - as opposed to read and empty
+export function sectionFailed(section?: SectionStatus): boolean {
+  return section?.status === 'failed' || section?.status === 'skipped';
+}
+
+// " (CODE: message)" for a failed or skipped section; timeouts are reported once, separately
+export function describeSectionFailure(section?: SectionStatus): string {
+  if (!section || section.status === 'ok' || section.status === 'empty' || !section.code) return '';
+  if (section.code === SCRAPE_TIMEOUT) return ' (time budget ran out)';
+  return ` (${section.code}${section.message ? `: ${section.message}` : ''})`;
+}
@@ -1,8 +1,17 @@
 import 'dotenv/config';
 import express from 'express';
-import { runEnhancedCompaniesScraper, testPDFExtraction } from './scraper.js';
+import { runEnhancedCompaniesScraper, testPDFExtraction, searchCompanyCandidates, AmbiguousCompanyError, resolveFilingCategories, FILING_HISTORY_CATEGORIES, PreviousFilingHistory } from './scraper.js';
 import { getEnhancedAnthropicSummary } from './summarizer.js';
-import { databaseService, SaveReportRequest, GetReportsRequest } from './database.js';
+import { databaseService, SaveReportRequest, GetReportsRequest, CompanyIndexQuery } from './database.js';
+import { normalizeCompanyNumber, companyNumberFromName } from './company-number.js';
+import { documentStore, DocumentSelection } from './documents.js';
+import { companiesHouseRateLimiter } from './rate-limit.js';
+import { searchFilingText } from './pdf-text.js';
+import { aggregateStrategyTelemetry } from './telemetry.js';
+import { SectionStatuses, SectionErrorCode, classifySectionError, hasUsableSection, firstFailure } from './sections.js';
+import { QualityAssessment, getSectionPlugins } from './section-plugins.js';
+import { CompaniesHouseApiError } from './companies-house-api.js';
+import { ScrapingConfig, ConfigError, getConfig, getConfigSources, resolveConfig, redactConfig, REQUEST_OVERRIDABLE } from './config.js';
 
 const app = express();
 app.use(express.json());
@@ -74,6 +83,20 @@ class Validator {
     return { valid: true };
   }
 
+  static validateCompanyNumber(companyNumber: any): { valid: boolean; value?: string; error?: string } {
+    if (typeof companyNumber !== 'string') {
+      return { valid: false, error: 'Company number must be a string' };
+    }
+
+    // Only the full form: padding "1" to "00000001" would look up an unrelated company on a typo
+    const fullNumber = companyNumberFromName(companyNumber);
+    if (!fullNumber) {
+      return { valid: false, error: 'Invalid company number (expected 8 digits or a SC, NI, OC, SO, FC or LP prefix followed by 6 digits, including leading zeros)' };
+    }
+
+    return { valid: true, value: fullNumber };
+  }
+
   static validateMaxPages(maxPages: any): { valid: boolean; value: number; error?: string } {
     if (maxPages === undefined || maxPages === null) {
       return { valid: true, value: 10 }; // Default value
@@ -95,138 +118,126 @@ class Validator {
     
     return { valid: true, value: parsedValue };
   }
+
+  // Accepts an array or a comma-separated string of category names
+  static validateFilingCategories(categories: any): { valid: boolean; value?: string[]; error?: string } {
+    if (categories === undefined || categories === null || categories === '') {
+      return { valid: true };
+    }
+
+    const list = typeof categories === 'string' ? categories.split(',') : categories;
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) {
+      return { valid: false, error: 'categories must be an array of strings or a comma-separated string' };
+    }
+
+    const { valid, invalid } = resolveFilingCategories(list.filter(item => item.trim()));
+    if (invalid.length > 0) {
+      return { valid: false, error: `Unknown filing categories: ${invalid.join(', ')}. Supported: ${Object.keys(FILING_HISTORY_CATEGORIES).join(', ')}` };
+    }
+
+    return { valid: true, value: valid.length > 0 ? valid : undefined };
+  }
+
+  // Per-request override of the end-to-end scrape budget, in milliseconds
+  static validateTimeout(timeoutMs: any): { valid: boolean; value?: number; error?: string } {
+    if (timeoutMs === undefined || timeoutMs === null || timeoutMs === '') {
+      return { valid: true };
+    }
+    const parsedValue = parseInt(timeoutMs);
+    if (isNaN(parsedValue) || parsedValue < 10000 || parsedValue > 1800000) {
+      return { valid: false, error: 'timeoutMs must be between 10000 (10 seconds) and 1800000 (30 minutes)' };
+    }
+    return { valid: true, value: parsedValue };
+  }
+
+  // Accepts `true` (default selection) or { linkTypes, filingTypes, maxDocuments }
+  static validateDocumentSelection(selection: any): { valid: boolean; value?: DocumentSelection; error?: string } {
+    if (selection === undefined || selection === null || selection === false || selection === 'false') {
+      return { valid: true };
+    }
+    if (selection === true || selection === 'true') {
+      return { valid: true, value: {} };
+    }
+    if (typeof selection !== 'object' || Array.isArray(selection)) {
+      return { valid: false, error: 'downloadDocuments must be a boolean or an object' };
+    }
+
+    const { linkTypes, filingTypes, maxDocuments } = selection;
+    for (const [field, list] of [['linkTypes', linkTypes], ['filingTypes', filingTypes]] as const) {
+      if (list !== undefined && (!Array.isArray(list) || list.some(item => typeof item !== 'string'))) {
+        return { valid: false, error: `downloadDocuments.${field} must be an array of strings` };
+      }
+    }
+
+    let max: number | undefined;
+    if (maxDocuments !== undefined) {
+      max = parseInt(maxDocuments);
+      if (isNaN(max) || max < 1 || max > 200) {
+        return { valid: false, error: 'downloadDocuments.maxDocuments must be between 1 and 200' };
+      }
+    }
+
+    return { valid: true, value: { linkTypes, filingTypes, maxDocuments: max } };
+  }
 }
 
 // Data quality assessment
 class QualityAssessor {
   static assessDataQuality(data: any): { score: number; issues: string[]; recommendations: string[] } {
-    const issues: string[] = [];
-    const recommendations: string[] = [];
-    let score = 100;
-
-    // Overview assessment (30 points)
-    if (!data.overview) {
-      issues.push("No company overview data extracted");
-      score -= 30;
-      recommendations.push("Verify company name spelling and try again");
-    } else {
-      if (!data.overview.companyName) {
-        issues.push("Company name not extracted");
-        score -= 10;
-      }
-      if (!data.overview.companyNumber) {
-        issues.push("Company number not extracted");
-        score -= 10;
-      }
-      if (!data.overview.status) {
-        issues.push("Company status not extracted");
-        score -= 5;
-      }
-      if (!data.overview.incorporationDate) {
-        issues.push("Incorporation date not extracted");
-        score -= 5;
-      }
-    }
+    const assessment: QualityAssessment = { score: 100, issues: [], recommendations: [] };
+    const { issues, recommendations } = assessment;
 
-    // Filing history assessment (40 points) - enhanced for PDF extraction
-    if (!data.filing || !data.filing.filings || data.filing.filings.length === 0) {
-      issues.push("No filing history extracted");
-      score -= 40;
-      recommendations.push("Company may have limited filing history or extraction failed");
-    } else {
-      const filingData = data.filing;
-      
-      // Check filing count
-      if (filingData.totalFilings < 3) {
-        issues.push("Very limited filing history");
-        score -= 10;
-      } else if (filingData.totalFilings > 50) {
-        score += 5; // Bonus for extensive history
-      }
+    // Reports stored before section statuses existed only have the null checks to go on
+    const sections: SectionStatuses = data.sections || {};
 
-      // Enhanced PDF document extraction assessment
-      const docSuccessRate = filingData.statistics?.documentSuccessRate ?? 0;
-      if (docSuccessRate === 0) {
-        issues.push("No PDF document links extracted");
-        score -= 20;
-        recommendations.push("PDF extraction may have failed - check network connectivity to Companies House");
-      } else if (docSuccessRate < 30) {
-        issues.push(`Low PDF extraction rate: ${docSuccessRate}%`);
-        score -= 10;
-        recommendations.push("Try using enhanced extraction strategies or verify document availability");
-      } else if (docSuccessRate > 80) {
-        score += 5; // Bonus for high success rate
-      }
+    getSectionPlugins().forEach(plugin => plugin.assessQuality(data[plugin.resultKey], assessment, sections[plugin.name]));
 
-      // Check PDF links validity
-      const invalidPDFLinks = filingData.filings.filter(f => 
-        f.documentLinks && f.documentLinks.length > 0 && 
-        f.documentLinks.some(link => !link.url || !link.url.includes('document?format='))
-      ).length;
-      
-      if (invalidPDFLinks > 0) {
-        issues.push(`${invalidPDFLinks} filings have potentially invalid PDF links`);
-        score -= 5;
-        recommendations.push("PDF link format may be incorrect, verify URL structure");
-      }
+    // Throttling explains every section it hit, so one recommendation covers them all
+    const throttled = Object.keys(sections).filter(name => sections[name].code === 'RATE_LIMITED');
+    if (throttled.length > 0) {
+      recommendations.unshift(`Companies House throttled the scrape (${throttled.join(', ')}) - retry later or lower CH_RATE_LIMIT_RPS`);
+    }
 
-      // Check for recent filings
-      if (filingData.dateRange) {
-        const latestDate = new Date(filingData.dateRange.latest);
-        const oneYearAgo = new Date();
-        oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-        
-        if (latestDate < oneYearAgo) {
-          issues.push("No recent filings in the last year");
-          score -= 5;
-          recommendations.push("Check if company is still active");
-        }
-      }
-      
-      // Add bonus for multiple pages scraped
-      if (filingData.pagesScraped > 1) {
-        const multiPageBonus = Math.min(5, filingData.pagesScraped);
-        score += multiPageBonus;
-        // Make sure score doesn't exceed 100
-        score = Math.min(100, score);
-      }
+    if (data.timeout) {
+      const missing = [data.timeout.interruptedSection, ...(data.timeout.skippedSections || [])].filter(Boolean);
+      issues.unshift(`Scrape stopped after ${Math.round(data.timeout.budgetMs / 1000)}s time budget - ${missing.join(', ') || 'some data'} incomplete`);
+      recommendations.unshift("Re-run with a larger timeoutMs or fewer pages to get the sections the time budget cut off");
     }
 
-    // People/Officers assessment (20 points)
-    if (!data.people || !data.people.officers || data.people.officers.length === 0) {
-      issues.push("No officer information extracted");
-      score -= 20;
-      recommendations.push("Officer information may be restricted or extraction failed");
-    } else {
-      if (data.people.officers.length > 5) {
-        score += 2; // Bonus for detailed officer info
-      }
+    // A layout change explains low scores better than any single missing section
+    if (data.layout?.drift?.length > 0) {
+      issues.unshift(`Companies House page layout changed (${data.layout.drift.length} selector drift findings)`);
+      recommendations.unshift("Companies House page structure changed - update the DOM extractor selectors (see data.layout.drift)");
+    }
+
+    const llmSections = (data.provenance?.sections || []).filter((section: any) => section.llmRecords > 0);
+    if (llmSections.length > 0) {
+      const sectionList = llmSections.map((section: any) => `${section.section} (${section.llmRecords})`).join(', ');
+      recommendations.push(`Values in ${sectionList} were extracted by the LLM - double-check them against the source pages in their provenance`);
     }
 
-    // Charges assessment (10 points)
-    if (!data.charges) {
-      issues.push("Charges section not accessible");
-      score -= 10;
-    } else if (data.charges.charges && data.charges.charges.length > 0) {
-      // Company has charges - note but don't penalize
-      recommendations.push("Company has registered charges - review for risk assessment");
+    // Financials are opt-in, so only comment on what was actually read
+    const latestPeriod = data.financials?.periods?.[0];
+    if (latestPeriod && latestPeriod.netAssets !== undefined && latestPeriod.netAssets < 0) {
+      const amount = `${Math.abs(latestPeriod.netAssets).toLocaleString('en-GB')}${data.financials.currency ? ` ${data.financials.currency}` : ''}`;
+      recommendations.unshift(`Net liabilities of ${amount} at ${latestPeriod.periodEnd} - review going concern position`);
     }
 
     return {
-      score: Math.max(0, Math.min(100, score)),
+      score: Math.max(0, Math.min(100, assessment.score)),
       issues,
       recommendations
     };
   }
 
-  static generateQualityReport(assessment: any): string {
+  static generateQualityReport(assessment: any, quality: ScrapingConfig['quality'] = getConfig().quality): string {
     let report = `Data Quality Score: ${assessment.score}/100\n\n`;
     
     if (assessment.score >= 80) {
       report += "✅ Excellent data quality - comprehensive extraction successful\n\n";
-    } else if (assessment.score >= 60) {
+    } else if (assessment.score >= quality.warningThreshold) {
       report += "⚠️ Good data quality - minor issues detected\n\n";
-    } else if (assessment.score >= 40) {
+    } else if (assessment.score >= quality.minimumScoreForSummary) {
       report += "🔶 Fair data quality - some significant issues\n\n";
     } else {
       report += "❌ Poor data quality - major extraction issues\n\n";
@@ -284,8 +295,20 @@ class StatsCalculator {
       hasFilings: !!(data.filing && data.filing.filings && data.filing.filings.length > 0),
       hasOfficers: !!(data.people && data.people.officers && data.people.officers.length > 0),
       hasCharges: !!(data.charges && data.charges.charges && data.charges.charges.length > 0),
+      hasPSC: !!(data.psc && (data.psc.persons?.length > 0 || data.psc.statements?.length > 0)),
+      hasInsolvency: !!data.insolvency?.insolvencyFlag,
+      insolvencyChecked: !!data.insolvency,
       officerCount: data.people?.officers?.length || 0,
+      pscCount: data.psc?.persons?.length || 0,
+      insolvencyCaseCount: data.insolvency?.totalCases || 0,
       chargeCount: data.charges?.charges?.length || 0,
+      outstandingChargeCount: data.charges?.outstanding || 0,
+      hasFinancials: !!(data.financials && data.financials.periods?.length > 0),
+      layoutChanged: (data.layout?.drift?.length || 0) > 0,
+      llmExtractedRecords: data.provenance?.llmRecords || 0,
+      timedOut: !!data.timeout,
+      failedSections: Object.keys(data.sections || {}).filter(name => data.sections[name].status === 'failed'),
+      financialPeriodCount: data.financials?.periods?.length || 0,
       pagesScraped: data.filing?.pagesScraped || 1,
       extractionTimestamp: data.extractionTimestamp || new Date().toISOString()
     };
@@ -295,6 +318,15 @@ class StatsCalculator {
 // Error handler
 class ErrorHandler {
   static handleScrapingError(error: Error, company: string): { statusCode: number; errorCode: string; userMessage: string } {
+    // Errors the scraper raises by class need no message matching
+    if (error instanceof CompaniesHouseApiError) {
+      return this.fromSectionCode('API_ERROR', company);
+    }
+    const sectionCode = classifySectionError(error, 'EXTRACTION_FAILED');
+    if (sectionCode !== 'EXTRACTION_FAILED') {
+      return this.fromSectionCode(sectionCode, company);
+    }
+
     let statusCode = 500;
     let errorCode = 'INTERNAL_ERROR';
     let userMessage = 'An internal error occurred while processing your request';
@@ -329,6 +361,31 @@ class ErrorHandler {
 
     return { statusCode, errorCode, userMessage };
   }
+
+  // A scrape that returned without any readable section is reported as an error, not as an empty report
+  static handleSectionFailures(sections: SectionStatuses | undefined, company: string): { statusCode: number; errorCode: string; userMessage: string } | null {
+    if (!sections || Object.keys(sections).length === 0 || hasUsableSection(sections)) return null;
+    const failure = firstFailure(sections);
+    return this.fromSectionCode(failure?.code || 'EXTRACTION_FAILED', company);
+  }
+
+  static fromSectionCode(code: SectionErrorCode, company: string): { statusCode: number; errorCode: string; userMessage: string } {
+    switch (code) {
+      case 'COMPANY_NOT_FOUND':
+        return { statusCode: 404, errorCode: 'COMPANY_NOT_FOUND', userMessage: `No company found with the name "${company}". Please check the spelling and try again.` };
+      case 'SCRAPE_TIMEOUT':
+        return { statusCode: 504, errorCode: 'SCRAPE_TIMEOUT', userMessage: 'The time budget ran out before any company data was read. Retry with a larger timeoutMs.' };
+      case 'RATE_LIMITED':
+        return { statusCode: 429, errorCode: 'RATE_LIMIT', userMessage: 'Companies House is throttling requests. Please wait a moment and try again.' };
+      case 'API_ERROR':
+        return { statusCode: 502, errorCode: 'API_ERROR', userMessage: 'The Companies House API request failed. Please try again later.' };
+      case 'COMPANY_NOT_REACHED':
+      case 'NAVIGATION_FAILED':
+        return { statusCode: 502, errorCode: 'NETWORK_ERROR', userMessage: 'Unable to reach the company on Companies House. Please try again later.' };
+      default:
+        return { statusCode: 502, errorCode: 'EXTRACTION_ERROR', userMessage: 'Data extraction failed. The website may be temporarily unavailable.' };
+    }
+  }
 }
 
 // Main API endpoints
@@ -336,7 +393,8 @@ class ErrorHandler {
 // Enhanced report endpoint - Updated to support maxPages parameter
 app.post('/api/enhanced-report', async (req, res) => {
   const startTime = Date.now();
-  const { company, maxPages, maxPeoplePages } = req.body;
+  const { maxPages, maxPeoplePages, companyNumber, failOnAmbiguous, includeOfficerAppointments, downloadDocuments, includeFinancials, extractDocumentText, archiveSnapshots, categories, incremental, reconcileFilings, dataSource, timeoutMs, config } = req.body;
+  let { company } = req.body;
   
   // Validate maxPages parameter
   const maxPagesValidation = Validator.validateMaxPages(maxPages);
@@ -357,10 +415,29 @@ app.post('/api/enhanced-report', async (req, res) => {
   
   Logger.info(`Enhanced report request received`, { 
     company, 
+    companyNumber,
+    categories,
     maxPages: validatedMaxPages, 
     maxPeoplePages: validatedMaxPeoplePages 
   });
   
+  // Validate company number if supplied - it lets the scraper skip the search step
+  let validatedCompanyNumber: string | undefined;
+  if (companyNumber !== undefined && companyNumber !== null && companyNumber !== '') {
+    const numberValidation = Validator.validateCompanyNumber(companyNumber);
+    if (!numberValidation.valid) {
+      Logger.warn(`Validation failed: ${numberValidation.error}`);
+      return res.status(400).json({ 
+        success: false,
+        error: numberValidation.error,
+        code: 'VALIDATION_ERROR',
+        timestamp: new Date().toISOString()
+      });
+    }
+    validatedCompanyNumber = numberValidation.value;
+    company = company || validatedCompanyNumber;
+  }
+
   // Validate input
   const validation = Validator.validateCompanyName(company);
   if (!validation.valid) {
@@ -373,15 +450,129 @@ app.post('/api/enhanced-report', async (req, res) => {
     });
   }
 
+  if (dataSource !== undefined && dataSource !== 'website' && dataSource !== 'api') {
+    return res.status(400).json({ 
+      success: false,
+      error: "dataSource must be 'website' or 'api'",
+      code: 'VALIDATION_ERROR',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const categoryValidation = Validator.validateFilingCategories(categories);
+  if (!categoryValidation.valid) {
+    Logger.warn(`Validation failed: ${categoryValidation.error}`);
+    return res.status(400).json({ 
+      success: false,
+      error: categoryValidation.error,
+      code: 'VALIDATION_ERROR',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const documentSelection = Validator.validateDocumentSelection(downloadDocuments);
+  if (!documentSelection.valid) {
+    Logger.warn(`Validation failed: ${documentSelection.error}`);
+    return res.status(400).json({ 
+      success: false,
+      error: documentSelection.error,
+      code: 'VALIDATION_ERROR',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const timeoutValidation = Validator.validateTimeout(timeoutMs);
+  if (!timeoutValidation.valid) {
+    Logger.warn(`Validation failed: ${timeoutValidation.error}`);
+    return res.status(400).json({ 
+      success: false,
+      error: timeoutValidation.error,
+      code: 'VALIDATION_ERROR',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Per-request overrides on top of the server config; timeoutMs is shorthand for config.extraction.timeoutMs
+  let scrapeConfig: ScrapingConfig;
+  try {
+    const overrides = config ?? {};
+    scrapeConfig = resolveConfig(timeoutValidation.value === undefined || typeof overrides !== 'object' ? overrides : {
+      ...overrides,
+      extraction: { ...overrides?.extraction, timeoutMs: timeoutValidation.value }
+    });
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    Logger.warn(`Config override validation failed`, { errors: error.errors });
+    return res.status(400).json({
+      success: false,
+      error: error.errors.join('; '),
+      code: 'VALIDATION_ERROR',
+      timestamp: new Date().toISOString()
+    });
+  }
+
   try {
     Logger.info(`Starting enhanced company scraping for: ${company} (max pages: ${validatedMaxPages}, max people pages: ${validatedMaxPeoplePages})`);
+
+    // Incremental refresh: reuse the filing history of the latest stored report for this company
+    let previousFiling: PreviousFilingHistory | undefined;
+    if (incremental === true || incremental === 'true') {
+      const previousReport = await databaseService.checkExistingReport(validatedCompanyNumber || company.trim());
+      // A name lookup is a partial match - only trust it when the stored name is the same company name
+      const sameCompany = !!previousReport && (!!validatedCompanyNumber || previousReport.company_name?.trim().toLowerCase() === company.trim().toLowerCase());
+      if (sameCompany && previousReport?.raw_data?.filing?.filings?.length > 0) {
+        previousFiling = {
+          reportId: previousReport.id,
+          extractionTimestamp: previousReport.extraction_timestamp,
+          filings: previousReport.raw_data.filing.filings,
+          categories: previousReport.raw_data.filing.categories
+        };
+        validatedCompanyNumber = validatedCompanyNumber || normalizeCompanyNumber(previousReport.company_number) || undefined;
+        Logger.info(`Incremental refresh based on stored report`, { reportId: previousReport.id, filings: previousFiling.filings.length });
+      } else {
+        Logger.info(`No stored filing history found for incremental refresh - running a full scrape`, { company });
+      }
+    }
     
     // Run the enhanced scraper with better PDF extraction and multi-page support
-    const rawData = await runEnhancedCompaniesScraper(company.trim(), validatedMaxPages, validatedMaxPeoplePages);
+    const rawData = await runEnhancedCompaniesScraper(company.trim(), validatedMaxPages, validatedMaxPeoplePages, {
+      companyNumber: validatedCompanyNumber,
+      dataSource,
+      previousFiling,
+      filingCategories: categoryValidation.value,
+      reconcileFilings: reconcileFilings === true || reconcileFilings === 'true',
+      config: scrapeConfig,
+      failOnAmbiguous: failOnAmbiguous === true || failOnAmbiguous === 'true',
+      enrichOfficerAppointments: includeOfficerAppointments === true || includeOfficerAppointments === 'true',
+      downloadDocuments: documentSelection.value,
+      extractFinancials: includeFinancials === true || includeFinancials === 'true',
+      extractDocumentText: extractDocumentText === true || extractDocumentText === 'true',
+      archiveSnapshots: archiveSnapshots && typeof archiveSnapshots === 'object'
+        ? { screenshots: archiveSnapshots.screenshots === true }
+        : archiveSnapshots !== false && archiveSnapshots !== 'false'
+    });
     
+    const sectionFailure = ErrorHandler.handleSectionFailures(rawData.sections, company.trim());
+    if (sectionFailure) {
+      const processingTime = Date.now() - startTime;
+      Logger.error(`Enhanced report generation failed - no section could be read`, { company, sections: rawData.sections });
+      return res.status(sectionFailure.statusCode).json({
+        success: false,
+        error: sectionFailure.userMessage,
+        code: sectionFailure.errorCode,
+        company: company.trim(),
+        sections: rawData.sections,
+        dataIssues: rawData.dataIssues,
+        metadata: {
+          processingTime: `${processingTime}ms`,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+
     // Assess data quality
     const qualityAssessment = QualityAssessor.assessDataQuality(rawData);
-    const qualityReport = QualityAssessor.generateQualityReport(qualityAssessment);
+    const qualityReport = QualityAssessor.generateQualityReport(qualityAssessment, scrapeConfig.quality);
     
     Logger.info(`Data extraction completed`, {
       qualityScore: qualityAssessment.score,
@@ -404,12 +595,27 @@ app.post('/api/enhanced-report', async (req, res) => {
       });
     }
 
+    if (rawData.layout?.drift?.length > 0) {
+      Logger.warn(`LAYOUT_CHANGED: Companies House page structure differs from the known-good signatures`, {
+        company,
+        drift: rawData.layout.drift.map(entry => `${entry.pageType}: ${entry.anchor} ${entry.problem} - ${entry.detail}`)
+      });
+    }
+
+    if (rawData.telemetry) {
+      Logger.info(`Strategy telemetry`, {
+        totalLlmCalls: rawData.telemetry.totalLlmCalls,
+        sections: rawData.telemetry.sections.map(section => `${section.operation} ${section.section}: ${Object.entries(section.winners).map(([strategy, wins]) => `${strategy} x${wins}`).join(', ') || 'no winner'}`)
+      });
+    }
+
     // Generate AI summary if quality is sufficient
     let llmSummary = '';
-    if (qualityAssessment.score >= 40) {
+    const summaryGenerated = qualityAssessment.score >= scrapeConfig.quality.minimumScoreForSummary;
+    if (summaryGenerated) {
       Logger.info('Generating enhanced AI summary...');
       try {
-        llmSummary = await getEnhancedAnthropicSummary(company, rawData);
+        llmSummary = await getEnhancedAnthropicSummary(company, rawData, scrapeConfig.llm);
         Logger.info('AI summary generated successfully');
       } catch (summaryError) {
         Logger.warn('AI summary generation failed', { error: summaryError.message });
@@ -436,7 +642,7 @@ app.post('/api/enhanced-report', async (req, res) => {
         );
         
         const saveRequest: SaveReportRequest = {
-          companyNumber: rawData.overview?.companyNumber || company.trim(),
+          companyNumber: rawData.overview?.companyNumber || validatedCompanyNumber || company.trim(),
           companyName: rawData.overview?.companyName || company.trim(),
           sessionId,
           extractionConfig: {
@@ -476,7 +682,7 @@ app.post('/api/enhanced-report', async (req, res) => {
         filingStatistics: filingStats,
         performance: {
           scrapingTime: processingTime,
-          aiSummaryGenerated: qualityAssessment.score >= 40,
+          aiSummaryGenerated: summaryGenerated,
           cacheEnabled: true,
           pdfExtractionSuccess: (filingStats?.pdfSuccessRate ?? 0) > 0,
           pagesRequested: validatedMaxPages,
@@ -492,6 +698,23 @@ app.post('/api/enhanced-report', async (req, res) => {
     
   } catch (error) {
     const processingTime = Date.now() - startTime;
+
+    // Let the caller pick the right company rather than reporting on a guess
+    if (error instanceof AmbiguousCompanyError) {
+      Logger.warn(`Ambiguous company search`, { company, candidateCount: error.candidates.length });
+      return res.status(409).json({
+        success: false,
+        error: `Several companies match "${company.trim()}". Please choose one and retry with its companyNumber.`,
+        code: 'AMBIGUOUS_COMPANY',
+        company: company.trim(),
+        candidates: error.candidates,
+        metadata: {
+          processingTime: `${processingTime}ms`,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+
     const errorInfo = ErrorHandler.handleScrapingError(error as Error, company);
     
     Logger.error(`Enhanced report generation failed`, {
@@ -520,6 +743,207 @@ app.post('/api/enhanced-report', async (req, res) => {
   }
 });
 
+// Search-only endpoint - returns ranked candidate companies without scraping any of them
+app.get('/api/companies/search/:query', async (req, res) => {
+  const { query } = req.params;
+  const { limit } = req.query;
+
+  const validation = Validator.validateCompanyName(query);
+  if (!validation.valid) {
+    return res.status(400).json({
+      success: false,
+      error: validation.error,
+      code: 'VALIDATION_ERROR',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const limitValue = Math.min(50, Math.max(1, limit ? parseInt(limit as string) || 20 : 20));
+  Logger.info(`Company search requested`, { query, limit: limitValue });
+
+  try {
+    const candidates = await searchCompanyCandidates(query.trim(), limitValue);
+
+    res.json({
+      success: true,
+      query: query.trim(),
+      candidates,
+      count: candidates.length,
+      ambiguous: candidates.length > 1 && candidates.filter(candidate => candidate.exactMatch).length !== 1
+    });
+  } catch (error) {
+    const errorInfo = ErrorHandler.handleScrapingError(error as Error, query);
+    Logger.error('Company search failed', { query, error: error.message });
+    res.status(errorInfo.statusCode).json({
+      success: false,
+      error: errorInfo.userMessage,
+      code: errorInfo.errorCode,
+      query
+    });
+  }
+});
+
+// Bulk company index lookups - no browser; the index is loaded with `npm run ingest-company-data`
+app.get('/api/company-index', async (req, res) => {
+  if (!databaseService.isAvailable()) {
+    return res.status(503).json({
+      success: false,
+      error: 'Database service not available',
+      code: 'DATABASE_UNAVAILABLE'
+    });
+  }
+
+  const { name, status, sic, postcode, postTown, accountsDueBefore, accountsDueAfter, limit, offset } = req.query;
+
+  for (const [field, value] of Object.entries({ accountsDueBefore, accountsDueAfter })) {
+    if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value as string)) {
+      return res.status(400).json({
+        success: false,
+        error: `${field} must be a date in YYYY-MM-DD format`,
+        code: 'VALIDATION_ERROR'
+      });
+    }
+  }
+
+  if (sic !== undefined && !/^\d{4,5}$/.test(sic as string)) {
+    return res.status(400).json({
+      success: false,
+      error: 'sic must be a 4 or 5 digit SIC code',
+      code: 'VALIDATION_ERROR'
+    });
+  }
+
+  if (!name && !status && !sic && !postcode && !postTown && !accountsDueBefore && !accountsDueAfter) {
+    return res.status(400).json({
+      success: false,
+      error: 'At least one filter is required (name, status, sic, postcode, postTown, accountsDueBefore, accountsDueAfter)',
+      code: 'VALIDATION_ERROR'
+    });
+  }
+
+  const query: CompanyIndexQuery = {
+    name: name as string,
+    status: status as string,
+    sicCode: sic ? (sic as string).padStart(5, '0') : undefined,
+    postcode: postcode as string,
+    postTown: postTown as string,
+    accountsDueBefore: accountsDueBefore as string,
+    accountsDueAfter: accountsDueAfter as string,
+    limit: Math.min(500, Math.max(1, limit ? parseInt(limit as string) || 50 : 50)),
+    offset: Math.max(0, offset ? parseInt(offset as string) || 0 : 0)
+  };
+
+  try {
+    const companies = await databaseService.searchCompanyIndex(query);
+
+    res.json({
+      success: true,
+      companies,
+      count: companies.length,
+      pagination: {
+        limit: query.limit,
+        offset: query.offset
+      }
+    });
+  } catch (error) {
+    Logger.error('Error searching company index', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search company index',
+      code: 'DATABASE_ERROR'
+    });
+  }
+});
+
+app.get('/api/company-index/:companyNumber', async (req, res) => {
+  if (!databaseService.isAvailable()) {
+    return res.status(503).json({
+      success: false,
+      error: 'Database service not available',
+      code: 'DATABASE_UNAVAILABLE'
+    });
+  }
+
+  const validation = Validator.validateCompanyNumber(req.params.companyNumber);
+  if (!validation.valid) {
+    return res.status(400).json({
+      success: false,
+      error: validation.error,
+      code: 'VALIDATION_ERROR'
+    });
+  }
+  const companyNumber = validation.value!;
+
+  try {
+    const company = await databaseService.getIndexedCompany(companyNumber);
+    if (!company) {
+      return res.status(404).json({
+        success: false,
+        error: 'Company not found in the company index',
+        code: 'COMPANY_NOT_INDEXED'
+      });
+    }
+
+    res.json({
+      success: true,
+      company
+    });
+  } catch (error) {
+    Logger.error('Error fetching indexed company', { companyNumber, error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch indexed company',
+      code: 'DATABASE_ERROR'
+    });
+  }
+});
+
+// Stored filing document by content hash - the frozen copy referenced from DocumentLink.sha256
+// Stored HTML (page snapshots, iXBRL accounts) is evidence - never let it run scripts or load
+// resources in the browser on this origin
+const STORED_CONTENT_CSP = "default-src 'none'; style-src 'unsafe-inline'; img-src data:";
+
+app.get('/api/documents/:sha256', async (req, res) => {
+  const sha256 = req.params.sha256.toLowerCase();
+
+  if (!/^[a-f0-9]{64}$/.test(sha256)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid document hash (expected 64 hex characters)',
+      code: 'VALIDATION_ERROR'
+    });
+  }
+
+  try {
+    const blob = await documentStore.get(sha256);
+    if (!blob) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found',
+        code: 'DOCUMENT_NOT_FOUND'
+      });
+    }
+
+    res.setHeader('Content-Type', blob.mimeType);
+    res.setHeader('Content-Length', blob.sizeBytes.toString());
+    res.setHeader('ETag', `"${sha256}"`);
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+    // Only PDFs are served as they are: snapshots share this store with filing documents
+    if (blob.mimeType !== 'application/pdf') {
+      res.setHeader('Content-Security-Policy', STORED_CONTENT_CSP);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+    }
+    res.send(blob.data);
+  } catch (error) {
+    Logger.error('Error retrieving stored document', { sha256, error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve document',
+      code: 'DOCUMENT_STORE_ERROR'
+    });
+  }
+});
+
 // Legacy report endpoint (for backward compatibility)
 app.post('/api/report', async (req, res) => {
   // Redirect to enhanced endpoint
@@ -540,7 +964,8 @@ app.get('/api/test-pdf-extraction/:companyNumber', async (req, res) => {
     Logger.info(`PDF extraction test completed`, {
       directDOMCount: results.results.directDOM.pdfLinks,
       llmCount: results.results.llm.pdfLinks,
-      hybridCount: results.results.hybrid.pdfLinks
+      hybridCount: results.results.hybrid.pdfLinks,
+      reconciledCount: results.results.reconciled.pdfLinks
     });
     
     res.json({
@@ -722,6 +1147,45 @@ app.get('/api/reports/check/:companyIdentifier', async (req, res) => {
   }
 });
 
+// Strategy telemetry aggregated across saved reports - which strategies win per section and what they cost
+app.get('/api/telemetry/strategies', async (req, res) => {
+  if (!databaseService.isAvailable()) {
+    return res.status(503).json({
+      success: false,
+      error: 'Database service not available',
+      code: 'DATABASE_UNAVAILABLE'
+    });
+  }
+
+  try {
+    const { dateFrom, dateTo, limit } = req.query;
+    const limitValue = Math.min(1000, Math.max(1, limit ? parseInt(limit as string) || 200 : 200));
+
+    const reports = await databaseService.getStrategyTelemetry({
+      dateFrom: dateFrom as string,
+      dateTo: dateTo as string,
+      limit: limitValue
+    });
+
+    res.json({
+      success: true,
+      ...aggregateStrategyTelemetry(reports),
+      filters: {
+        dateFrom: dateFrom || null,
+        dateTo: dateTo || null,
+        limit: limitValue
+      }
+    });
+  } catch (error) {
+    Logger.error('Error aggregating strategy telemetry', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to aggregate strategy telemetry',
+      code: 'DATABASE_ERROR'
+    });
+  }
+});
+
 // Get saved reports for a session
 app.get('/api/reports', async (req, res) => {
   if (!databaseService.isAvailable()) {
@@ -805,6 +1269,167 @@ app.get('/api/reports/:reportId', async (req, res) => {
   }
 });
 
+// Full-text search over the PDF text stored with a report
+app.get('/api/reports/:reportId/search', async (req, res) => {
+  if (!databaseService.isAvailable()) {
+    return res.status(503).json({
+      success: false,
+      error: 'Database service not available',
+      code: 'DATABASE_UNAVAILABLE'
+    });
+  }
+
+  const { reportId } = req.params;
+  const { q, limit } = req.query;
+
+  if (!q || typeof q !== 'string' || q.trim().length < 2) {
+    return res.status(400).json({
+      success: false,
+      error: 'Search query (q) must be at least 2 characters',
+      code: 'VALIDATION_ERROR'
+    });
+  }
+
+  try {
+    const report = await databaseService.getReportById(reportId);
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: 'Report not found',
+        code: 'REPORT_NOT_FOUND'
+      });
+    }
+
+    const limitValue = Math.min(200, Math.max(1, limit ? parseInt(limit as string) || 50 : 50));
+    const matches = searchFilingText(report.raw_data?.filing?.filings || [], q, limitValue);
+
+    res.json({
+      success: true,
+      reportId,
+      query: q.trim(),
+      textAvailable: !!report.raw_data?.documentText,
+      matches,
+      count: matches.length
+    });
+  } catch (error) {
+    Logger.error('Error searching report document text', { reportId, error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search report documents',
+      code: 'DATABASE_ERROR'
+    });
+  }
+});
+
+// Archived page snapshots of a report (see ScrapeOptions.archiveSnapshots)
+app.get('/api/reports/:reportId/snapshots', async (req, res) => {
+  if (!databaseService.isAvailable()) {
+    return res.status(503).json({
+      success: false,
+      error: 'Database service not available',
+      code: 'DATABASE_UNAVAILABLE'
+    });
+  }
+
+  const { reportId } = req.params;
+
+  try {
+    const report = await databaseService.getReportById(reportId);
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: 'Report not found',
+        code: 'REPORT_NOT_FOUND'
+      });
+    }
+
+    const archive = report.raw_data?.snapshots;
+    res.json({
+      success: true,
+      reportId,
+      archived: !!archive,
+      store: archive?.store,
+      screenshots: archive?.screenshots || false,
+      snapshots: archive?.snapshots || [],
+      count: archive?.snapshots?.length || 0
+    });
+  } catch (error) {
+    Logger.error('Error retrieving report snapshots', { reportId, error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve report snapshots',
+      code: 'DATABASE_ERROR'
+    });
+  }
+});
+
+app.get('/api/reports/:reportId/snapshots/:snapshotId', async (req, res) => {
+  if (!databaseService.isAvailable()) {
+    return res.status(503).json({
+      success: false,
+      error: 'Database service not available',
+      code: 'DATABASE_UNAVAILABLE'
+    });
+  }
+
+  const { reportId, snapshotId } = req.params;
+  const format = (req.query.format as string) || 'html';
+
+  if (format !== 'html' && format !== 'screenshot') {
+    return res.status(400).json({
+      success: false,
+      error: "format must be 'html' or 'screenshot'",
+      code: 'VALIDATION_ERROR'
+    });
+  }
+
+  try {
+    const report = await databaseService.getReportById(reportId);
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: 'Report not found',
+        code: 'REPORT_NOT_FOUND'
+      });
+    }
+
+    const snapshot = (report.raw_data?.snapshots?.snapshots || []).find((entry: any) => String(entry.id) === snapshotId);
+    const sha256 = format === 'screenshot' ? snapshot?.screenshotSha256 : snapshot?.htmlSha256;
+    if (!sha256) {
+      return res.status(404).json({
+        success: false,
+        error: snapshot ? `Snapshot has no ${format}` : 'Snapshot not found',
+        code: 'SNAPSHOT_NOT_FOUND'
+      });
+    }
+
+    const blob = await documentStore.get(sha256);
+    if (!blob) {
+      return res.status(404).json({
+        success: false,
+        error: 'Snapshot content missing from the document store',
+        code: 'DOCUMENT_NOT_FOUND'
+      });
+    }
+
+    res.setHeader('Content-Type', format === 'html' ? 'text/html; charset=utf-8' : blob.mimeType);
+    res.setHeader('Content-Length', blob.sizeBytes.toString());
+    res.setHeader('ETag', `"${sha256}"`);
+    res.setHeader('X-Snapshot-Url', snapshot.url);
+    res.setHeader('X-Snapshot-Captured-At', snapshot.capturedAt);
+    res.setHeader('Content-Security-Policy', STORED_CONTENT_CSP);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.send(blob.data);
+  } catch (error) {
+    Logger.error('Error retrieving report snapshot', { reportId, snapshotId, error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve snapshot',
+      code: 'DOCUMENT_STORE_ERROR'
+    });
+  }
+});
+
 // Delete a report
 app.delete('/api/reports/:reportId', async (req, res) => {
   if (!databaseService.isAvailable()) {
@@ -941,13 +1566,35 @@ app.get('/api/health', (req, res) => {
       anthropic: !!process.env.ANTHROPIC_API_KEY,
       stagehand: true,
       browserbase: !!process.env.BROWSERBASE_API_KEY,
+      companiesHouseApi: !!process.env.COMPANIES_HOUSE_API_KEY,
       supabase: databaseService.isAvailable()
-    }
+    },
+    // Shared Companies House politeness limiter - a growing queue means scrapes are waiting on each other
+    rateLimiter: companiesHouseRateLimiter.status()
   };
 
   res.json(healthStatus);
 });
 
+// Effective server config (defaults, config file, environment) - credentials only show whether they are set
+app.get('/api/config', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      config: redactConfig(getConfig()),
+      sources: getConfigSources(),
+      requestOverridable: REQUEST_OVERRIDABLE
+    });
+  } catch (error) {
+    Logger.error('Config could not be loaded', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      code: 'CONFIG_ERROR'
+    });
+  }
+});
+
 // API documentation endpoint
 app.get('/api/info', (req, res) => {
   res.json({
@@ -961,7 +1608,13 @@ app.get('/api/info', (req, res) => {
         'Multi-page filing history extraction',
         'Comprehensive filing history with document links',
         'Officer and people information',
-        'Charges and security interests',
+        'Persons with significant control (PSC) and PSC statements',
+        'Charges with persons entitled, charge flags and MR01/MR04 documents',
+        'Insolvency cases and appointed practitioners',
+        'Multi-year financials from iXBRL accounts',
+        'Offline company lookups from the Companies House bulk data index',
+        'Per-record provenance: source URL, page number, strategy (DOM/LLM/hybrid/API) and extraction time',
+        'Archived HTML snapshots of every visited page',
         'Company overview and status'
       ],
       intelligence: [
@@ -982,10 +1635,70 @@ app.get('/api/info', (req, res) => {
       'POST /api/enhanced-report': {
         description: 'Generate comprehensive company report with enhanced PDF extraction',
         body: { 
-          company: 'string (company name)',
-          maxPages: 'number (optional, default: 10, max: 50)'
+          company: 'string (company name or company number)',
+          companyNumber: 'string (optional, the full 8-character number, e.g. 01234567 or SC123456 - skips the search step)',
+          maxPages: 'number (optional, default: 10, max: 50)',
+          categories: 'string[] or comma-separated string (optional) - only scrape these filing history categories, e.g. ["accounts", "charges"]',
+          incremental: 'boolean (optional) - stop at the first filing already in the latest stored report and merge new filings into it',
+          reconcileFilings: 'boolean (optional) - read each filing history page with both Direct DOM and the LLM (while the time budget allows), fill gaps from either and flag disagreements per filing in reconciliation; the Hybrid Approach is the fallback when neither finds filings with document links',
+          dataSource: "'website' (default) or 'api' - use the Companies House public data API, falling back to the website scraper if it fails",
+          failOnAmbiguous: 'boolean (optional) - return 409 with candidate companies instead of picking the first search result',
+          includeOfficerAppointments: 'boolean (optional) - follow each officer profile and record their other appointments',
+          downloadDocuments: 'boolean or { linkTypes, filingTypes, maxDocuments } (optional) - store filing PDFs/iXBRL by SHA-256 and record hash, size and MIME type on each document link',
+          includeFinancials: 'boolean (optional) - download recent iXBRL accounts and extract turnover, profit/loss, net assets, cash, creditors and employees per year',
+          extractDocumentText: 'boolean (optional) - extract page-level text from downloaded PDFs; scanned image-only PDFs are marked',
+          archiveSnapshots: 'boolean or { screenshots: boolean } (optional, default: true) - store the HTML (and a full-page PNG) of every page visited with the report; false turns archiving off',
+          timeoutMs: 'number (optional, 10000-1800000, default: 300000) - end-to-end time budget; sections not finished in time are reported in data.timeout',
+          config: 'object (optional) - per-request config overrides, e.g. { llm: { maxTokens: 4000 }, quality: { minimumScoreForSummary: 50 } }; see GET /api/config for the settings that may be overridden'
         },
-        response: 'Complete company analysis with AI summary'
+        response: 'Complete company analysis with AI summary; data.sections gives each section a status (ok, empty, failed, skipped) with an error code. When no section could be read the request fails with that code instead'
+      },
+      'GET /api/companies/search/:query': {
+        description: 'Search Companies House and return ranked candidate companies (name, number, status, incorporation date, address)',
+        query: { limit: 'number (optional, default: 20, max: 50)' },
+        response: 'Candidate list with an ambiguity flag'
+      },
+      'GET /api/company-index': {
+        description: 'Screen the bulk company data index without a browser (load it with npm run ingest-company-data)',
+        query: {
+          name: 'string (optional) - name contains',
+          status: 'string (optional, e.g. Active)',
+          sic: 'string (optional) - SIC code, e.g. 62012',
+          postcode: 'string (optional) - postcode prefix, e.g. EC1',
+          postTown: 'string (optional)',
+          accountsDueBefore: 'YYYY-MM-DD (optional)',
+          accountsDueAfter: 'YYYY-MM-DD (optional)',
+          limit: 'number (optional, default: 50, max: 500)',
+          offset: 'number (optional)'
+        },
+        response: 'Indexed companies with status, SIC codes, registered address and accounts due dates'
+      },
+      'GET /api/company-index/:companyNumber': {
+        description: 'Look up one company in the bulk company data index',
+        response: 'Indexed company record'
+      },
+      'GET /api/telemetry/strategies': {
+        description: 'Aggregate strategy telemetry across saved reports: winning strategy per section, attempt durations, LLM calls and failure reasons',
+        query: { dateFrom: 'ISO date (optional)', dateTo: 'ISO date (optional)', limit: 'number of recent reports (optional, default: 200, max: 1000)' },
+        response: 'Per-section strategy statistics and daily winners'
+      },
+      'GET /api/documents/:sha256': {
+        description: 'Download a stored filing document by its SHA-256 content hash',
+        response: 'Original document bytes with their MIME type; anything but a PDF is served with a script-blocking Content-Security-Policy'
+      },
+      'GET /api/reports/:reportId/search': {
+        description: 'Search the PDF text stored with a saved report',
+        query: { q: 'string (min 2 characters)', limit: 'number (optional, default: 50, max: 200)' },
+        response: 'Matching filings with page numbers and snippets'
+      },
+      'GET /api/reports/:reportId/snapshots': {
+        description: 'List the archived page snapshots of a saved report (none when scraped with archiveSnapshots: false)',
+        response: 'Snapshots with page type, URL, capture time and content hashes'
+      },
+      'GET /api/reports/:reportId/snapshots/:snapshotId': {
+        description: 'Serve one archived page as captured',
+        query: { format: "'html' (default) or 'screenshot'" },
+        response: 'Archived HTML or PNG screenshot'
       },
       'POST /api/report': {
         description: 'Legacy endpoint (redirects to enhanced-report)',
@@ -1009,6 +1722,9 @@ app.get('/api/info', (req, res) => {
       },
       'GET /api/info': {
         description: 'API documentation and capabilities'
+      },
+      'GET /api/config': {
+        description: 'Effective configuration (defaults, config file, environment) with credentials hidden, and which settings a request may override'
       }
     },
 
@@ -1023,7 +1739,8 @@ app.get('/api/info', (req, res) => {
         'Automated quality scoring (0-100)',
         'Issue detection and recommendations',
         'Performance monitoring and optimization',
-        'Comprehensive error categorization'
+        'Comprehensive error categorization',
+        'Per-section status (ok, empty, failed, skipped) with error codes'
       ]
     },
 
@@ -1037,7 +1754,7 @@ app.get('/api/info', (req, res) => {
         }
       },
       rateLimit: 'Intelligent rate limiting to prevent blocking',
-      timeout: '60 seconds maximum per request',
+      timeout: '5 minutes per scrape by default (timeoutMs) - finished sections are returned when it runs out',
       caching: 'Enabled for improved performance'
     }
   });
@@ -1060,6 +1777,14 @@ app.use((error: Error, req: express.Request, res: express.Response, next: expres
   });
 });
 
+// Fail at startup rather than on the first report when the config file or environment is invalid
+try {
+  getConfig();
+} catch (error) {
+  Logger.error('Invalid configuration', { errors: error instanceof ConfigError ? error.errors : [error.message] });
+  process.exit(1);
+}
+
 // Start server
 const PORT = parseInt(process.env.PORT || '3000', 10);
 const HOST = process.env.HOST || '0.0.0.0'; // Railway-friendly host binding
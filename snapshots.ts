@@ -0,0 +1,105 @@
+import { createHash } from 'crypto';
+import { BlobStore } from './documents.js';
+
+// HTML snapshots of every page the scraper visits, stored in the content-addressed blob store
+// so a report can be checked against exactly what Companies House showed at the time.
+
+export interface PageSnapshot {
+  id: number;
+  pageType: string;
+  url: string;
+  capturedAt: string;
+  title?: string;
+  htmlSha256?: string;
+  htmlBytes?: number;
+  screenshotSha256?: string;
+  screenshotBytes?: number;
+  error?: string;
+}
+
+export interface SnapshotOptions {
+  // Full-page PNG next to the HTML; several hundred KB per page
+  screenshots?: boolean;
+}
+
+export interface SnapshotArchive {
+  store: string;
+  screenshots: boolean;
+  captured: number;
+  failed: number;
+  totalBytes: number;
+  snapshots: PageSnapshot[];
+}
+
+const sha256Of = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+export class PageArchiver {
+  private snapshots: PageSnapshot[] = [];
+
+  constructor(private store: BlobStore, private options: SnapshotOptions = {}) {}
+
+  // Archives the current page; a failed capture is recorded on the snapshot and never stops the scrape
+  async capture(page: any, pageType: string): Promise<PageSnapshot> {
+    const snapshot: PageSnapshot = {
+      id: this.snapshots.length + 1,
+      pageType,
+      url: page.url(),
+      capturedAt: new Date().toISOString()
+    };
+    this.snapshots.push(snapshot);
+
+    try {
+      const { html, title }: { html: string; title: string } = await page.evaluate(() => ({
+        html: '<!DOCTYPE html>\n' + document.documentElement.outerHTML,
+        title: document.title
+      }));
+      const data = Buffer.from(html, 'utf-8');
+      snapshot.title = title.trim() || undefined;
+      snapshot.htmlSha256 = await this.put(data, 'text/html', snapshot);
+      snapshot.htmlBytes = data.length;
+    } catch (error) {
+      snapshot.error = `HTML capture failed: ${error.message}`;
+      console.warn(`Snapshot of ${snapshot.url} failed:`, error.message);
+      return snapshot;
+    }
+
+    if (this.options.screenshots && typeof page.screenshot === 'function') {
+      try {
+        const image: Buffer = await page.screenshot({ fullPage: true, type: 'png' });
+        snapshot.screenshotSha256 = await this.put(image, 'image/png', snapshot);
+        snapshot.screenshotBytes = image.length;
+      } catch (error) {
+        snapshot.error = `Screenshot failed: ${error.message}`;
+        console.warn(`Screenshot of ${snapshot.url} failed:`, error.message);
+      }
+    }
+
+    return snapshot;
+  }
+
+  private async put(data: Buffer, mimeType: string, snapshot: PageSnapshot): Promise<string> {
+    const sha256 = sha256Of(data);
+    // Unchanged pages (e.g. revisiting the overview) share one blob
+    if (!(await this.store.has(sha256))) {
+      await this.store.put(sha256, data, {
+        sha256,
+        mimeType,
+        sizeBytes: data.length,
+        storedAt: snapshot.capturedAt,
+        sourceUrl: snapshot.url
+      });
+    }
+    return sha256;
+  }
+
+  summary(): SnapshotArchive {
+    return {
+      store: this.store.name,
+      screenshots: !!this.options.screenshots,
+      captured: this.snapshots.filter(snapshot => snapshot.htmlSha256).length,
+      failed: this.snapshots.filter(snapshot => !snapshot.htmlSha256).length,
+      totalBytes: this.snapshots.reduce((sum, snapshot) => sum + (snapshot.htmlBytes || 0) + (snapshot.screenshotBytes || 0), 0),
+      snapshots: this.snapshots
+    };
+  }
+}
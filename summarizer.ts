@@ -1,4 +1,6 @@
 import 'dotenv/config';
+import { getSectionPlugins } from './section-plugins.js';
+import { ScrapingConfig, getConfig } from './config.js';
 
 interface EnhancedCompanyData {
   query: string;
@@ -14,7 +16,10 @@ interface EnhancedCompanyData {
         linkType: string;
         url: string;
         pageCount?: string;
+        sha256?: string;
+        textExtraction?: any;
       }>;
+      normalizedDates?: any;
     }>;
     totalFilings: number;
     pagesScraped: number;
@@ -22,355 +27,86 @@ interface EnhancedCompanyData {
       earliest: string;
       latest: string;
     };
+    categories?: string[];
   };
   people?: any;
   charges?: any;
   psc?: any;
+  insolvency?: any;
+  financials?: any;
   additional?: any;
 }
 
-// Enhanced filing analysis
-function analyzeFilingCompliance(filings: any[]): {
-  complianceStatus: string;
-  issues: string[];
-  recommendations: string[];
-  filingStats: any;
-} {
-  const issues: string[] = [];
-  const recommendations: string[] = [];
-  const currentYear = new Date().getFullYear();
-  const currentDate = new Date();
-  
-  // Group filings by type and year
-  const filingsByType = {};
-  const filingsByYear = {};
-  
-  filings.forEach(filing => {
-    const filingDate = new Date(filing.date);
-    const year = filingDate.getFullYear();
-    
-    // Group by type
-    if (!filingsByType[filing.type]) {
-      filingsByType[filing.type] = [];
-    }
-    filingsByType[filing.type].push(filing);
-    
-    // Group by year
-    if (!filingsByYear[year]) {
-      filingsByYear[year] = [];
-    }
-    filingsByYear[year].push(filing);
-  });
-
-  // Check for required annual filings
-  const recentYears = [currentYear - 1, currentYear - 2, currentYear - 3];
-  
-  recentYears.forEach(year => {
-    const yearFilings = filingsByYear[year] || [];
-    const hasAccounts = yearFilings.some(f => f.type === 'Accounts');
-    const hasConfirmationStatement = yearFilings.some(f => f.type === 'Confirmation Statement' || f.type === 'Annual Return');
-    
-    if (!hasAccounts && year < currentYear) {
-      issues.push(`Missing annual accounts for ${year}`);
-    }
-    
-    if (!hasConfirmationStatement && year < currentYear) {
-      issues.push(`Missing confirmation statement/annual return for ${year}`);
-    }
-  });
-
-  // Check for recent filings
-  const sixMonthsAgo = new Date();
-  sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-  
-  const recentFilings = filings.filter(f => new Date(f.date) > sixMonthsAgo);
-  if (recentFilings.length === 0) {
-    issues.push("No filings in the last 6 months");
-    recommendations.push("Check if company is still trading and up to date with filing requirements");
-  }
-
-  // Check for overdue filings
-  const oneYearAgo = new Date();
-  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-  
-  const lastAccounts = filings
-    .filter(f => f.type === 'Accounts')
-    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
-  
-  if (lastAccounts && new Date(lastAccounts.date) < oneYearAgo) {
-    issues.push("Annual accounts may be overdue");
-    recommendations.push("Verify current filing status and deadlines");
-  }
-
-  // Determine compliance status
-  let complianceStatus = "Good";
-  if (issues.length > 0) {
-    complianceStatus = issues.length > 2 ? "Poor" : "Warning";
+function summarizeFinancials(data: EnhancedCompanyData): string {
+  let text = '';
+
+  // Reported financials from iXBRL accounts
+  if (data.financials && data.financials.periods?.length > 0) {
+    const currency = data.financials.currency ? `${data.financials.currency} ` : '';
+    const formatAmount = (value) => value === undefined ? 'not reported' : `${value < 0 ? '-' : ''}${currency}${Math.abs(value).toLocaleString('en-GB')}`;
+
+    text += "=== REPORTED FINANCIALS (iXBRL ACCOUNTS) ===\n";
+    text += `Periods Available: ${data.financials.periods.length} (latest period end ${data.financials.latestPeriodEnd})\n`;
+
+    data.financials.periods.forEach(period => {
+      text += `\nPeriod ending ${period.periodEnd}${period.periodStart ? ` (from ${period.periodStart})` : ''}${period.reportedIn === 'comparatives' ? ' - taken from a later filing\'s comparatives' : ''}:\n`;
+      text += `  Turnover: ${formatAmount(period.turnover)}\n`;
+      text += `  Profit/(Loss): ${formatAmount(period.profitLoss)}\n`;
+      text += `  Net Assets/(Liabilities): ${formatAmount(period.netAssets)}\n`;
+      text += `  Cash: ${formatAmount(period.cash)}\n`;
+      text += `  Creditors due within one year: ${formatAmount(period.creditorsDueWithinOneYear)}\n`;
+      if (period.creditorsDueAfterOneYear !== undefined) text += `  Creditors due after one year: ${formatAmount(period.creditorsDueAfterOneYear)}\n`;
+      if (period.employees !== undefined) text += `  Average Employees: ${period.employees}\n`;
+    });
+    text += "\n";
   }
 
-  const filingStats = {
-    totalFilings: filings.length,
-    filingsByType: Object.keys(filingsByType).map(type => ({
-      type,
-      count: filingsByType[type].length,
-      mostRecent: filingsByType[type].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0]?.date
-    })),
-    filingsByYear: Object.keys(filingsByYear).map(year => ({
-      year: parseInt(year),
-      count: filingsByYear[year].length
-    })).sort((a, b) => b.year - a.year),
-    documentTypes: filings.flatMap(f => f.documentLinks.map(l => l.linkType))
-      .reduce((acc, type) => {
-        acc[type] = (acc[type] || 0) + 1;
-        return acc;
-      }, {}),
-    pdfDocumentCount: filings.flatMap(f => f.documentLinks.filter(l => l.linkType === 'PDF')).length
-  };
-
-  return {
-    complianceStatus,
-    issues,
-    recommendations,
-    filingStats
-  };
+  return text;
 }
 
-// Enhanced data processing for comprehensive analysis
-function processEnhancedCompanyData(data: EnhancedCompanyData): string {
-  let processedText = `COMPREHENSIVE COMPANY INTELLIGENCE ANALYSIS FOR: ${data.query}\n\n`;
-
-  // Process Company Overview with enhanced business context
-  if (data.overview) {
-    processedText += "=== COMPANY PROFILE & BUSINESS CONTEXT ===\n";
-    processedText += `Company Name: ${data.overview.companyName || 'Not specified'}\n`;
-    processedText += `Company Number: ${data.overview.companyNumber || 'Not specified'}\n`;
-    processedText += `Legal Status: ${data.overview.status || 'Not specified'}\n`;
-    processedText += `Incorporation Date: ${data.overview.incorporationDate || 'Not specified'}\n`;
-    processedText += `Company Type: ${data.overview.companyType || 'Not specified'}\n`;
-    
-    // Calculate company age for business maturity assessment
-    if (data.overview.incorporationDate) {
-      const incDate = new Date(data.overview.incorporationDate);
-      const ageYears = Math.floor((Date.now() - incDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
-      processedText += `Company Age: ${ageYears} years (${ageYears < 2 ? 'Start-up' : ageYears < 7 ? 'Established' : 'Mature'} business)\n`;
-    }
-    
-    if (data.overview.registeredAddress) {
-      const addr = data.overview.registeredAddress;
-      processedText += `Registered Address: ${[addr.addressLine1, addr.addressLine2, addr.city, addr.postcode, addr.country].filter(Boolean).join(', ')}\n`;
+function summarizeDocumentText(data: EnhancedCompanyData): string {
+  let text = '';
+
+  // Text extracted from downloaded PDF filings - excerpts only, the full text stays in raw_data
+  const documentsWithText = (data.filing?.filings || []).flatMap(filing =>
+    (filing.documentLinks || [])
+      .filter(link => link.textExtraction && link.textExtraction.status !== 'failed')
+      .map(link => ({ filing, link }))
+  );
+  if (documentsWithText.length > 0) {
+    text += "=== FILING DOCUMENT TEXT ===\n";
+    const scanned = documentsWithText.filter(({ link }) => link.textExtraction.status === 'image-only');
+    if (scanned.length > 0) {
+      text += `Scanned image-only documents (no text available): ${scanned.map(({ filing }) => `${filing.date} ${filing.description}`).join('; ')}\n`;
     }
-    
-    if (data.overview.sicCodes && data.overview.sicCodes.length > 0) {
-      processedText += "\nBUSINESS ACTIVITIES (SIC Codes):\n";
-      data.overview.sicCodes.forEach((sic, index) => {
-        processedText += `  ${index + 1}. ${sic.code}: ${sic.description}\n`;
-      });
-      processedText += `Primary Industry: ${data.overview.sicCodes[0]?.description || 'Not specified'}\n`;
-    }
-    processedText += "\n";
-  }
 
-  // Process Enhanced Filing History with business intelligence context
-  if (data.filing && data.filing.filings && data.filing.filings.length > 0) {
-    processedText += "=== REGULATORY COMPLIANCE & FILING INTELLIGENCE ===\n";
-    processedText += `Total Filings Extracted: ${data.filing.totalFilings}\n`;
-    processedText += `Pages Analyzed: ${data.filing.pagesScraped}\n`;
-    processedText += `Data Completeness: ${data.filing.pagesScraped >= 10 ? 'Comprehensive' : data.filing.pagesScraped >= 5 ? 'Good' : 'Limited'} filing history coverage\n`;
-    
-    if (data.filing.dateRange) {
-      processedText += `Filing Period Analyzed: ${data.filing.dateRange.earliest} to ${data.filing.dateRange.latest}\n`;
-      const periodYears = Math.floor((new Date(data.filing.dateRange.latest).getTime() - new Date(data.filing.dateRange.earliest).getTime()) / (365.25 * 24 * 60 * 60 * 1000));
-      processedText += `Historical Coverage: ${periodYears} years of filing data\n`;
-    }
-    
-    // Enhanced compliance analysis
-    const compliance = analyzeFilingCompliance(data.filing.filings);
-    processedText += `\nCOMPLIANCE ASSESSMENT: ${compliance.complianceStatus}\n`;
-    
-    if (compliance.issues.length > 0) {
-      processedText += "\nCOMPLIANCE CONCERNS IDENTIFIED:\n";
-      compliance.issues.forEach((issue, index) => {
-        processedText += `  ${index + 1}. ${issue}\n`;
-      });
-    }
-    
-    if (compliance.recommendations.length > 0) {
-      processedText += "\nREGULATORY RECOMMENDATIONS:\n";
-      compliance.recommendations.forEach((rec, index) => {
-        processedText += `  ${index + 1}. ${rec}\n`;
+    documentsWithText
+      .filter(({ link }) => link.textExtraction.status !== 'image-only')
+      .slice(0, 8)
+      .forEach(({ filing, link }) => {
+        const documentText = link.textExtraction.pages.map(page => page.text).join('\n').replace(/\s+/g, ' ').trim();
+        text += `\n[${filing.date}] ${filing.description} (${link.textExtraction.pageCount} pages${link.textExtraction.status === 'partial' ? ', some pages scanned' : ''}):\n`;
+        text += `  ${documentText.substring(0, 1500)}${documentText.length > 1500 ? '...' : ''}\n`;
       });
-    }
-    
-    // Enhanced filing statistics with business context
-    processedText += "\nFILING PATTERN ANALYSIS:\n";
-    processedText += `Total Documents Available: ${compliance.filingStats.pdfDocumentCount} PDF documents\n`;
-    
-    // Safe calculation of filing frequency
-    const filingFrequency = data.filing && data.filing.dateRange?.earliest ? 
-      (data.filing.totalFilings / Math.max(1, Math.floor((Date.now() - new Date(data.filing.dateRange.earliest).getTime()) / (365.25 * 24 * 60 * 60 * 1000)))).toFixed(1) : 
-      'N/A';
-    processedText += `Filing Frequency: ${filingFrequency} filings per year average\n`;
-    
-    processedText += "\nFiling Types Distribution:\n";
-    compliance.filingStats.filingsByType
-      .sort((a, b) => b.count - a.count)
-      .forEach((typeData, index) => {
-        // Safe calculation of percentage with null check
-        const totalFilings = data.filing?.totalFilings || 1; // Use 1 as fallback to avoid division by zero
-        const percentage = ((typeData.count / totalFilings) * 100).toFixed(1);
-        processedText += `  ${index + 1}. ${typeData.type}: ${typeData.count} filings (${percentage}%) - Most recent: ${typeData.mostRecent}\n`;
-      });
-    
-    processedText += "\nFiling Activity by Year:\n";
-    compliance.filingStats.filingsByYear.slice(0, 10).forEach((yearData, index) => {
-      const trend = index > 0 ? 
-        (yearData.count > compliance.filingStats.filingsByYear[index - 1]?.count ? '↗ Increasing' : 
-         yearData.count < compliance.filingStats.filingsByYear[index - 1]?.count ? '↘ Decreasing' : '→ Stable') : '';
-      processedText += `  ${yearData.year}: ${yearData.count} filings ${trend}\n`;
-    });
-    
-    // Critical recent filings analysis
-    const recentFilings = data.filing.filings
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, 15);
-    
-    processedText += "\nRECENT CRITICAL FILINGS (Last 15):\n";
-    recentFilings.forEach((filing, index) => {
-      const daysAgo = Math.floor((Date.now() - new Date(filing.date).getTime()) / (24 * 60 * 60 * 1000));
-      processedText += `  ${index + 1}. ${filing.date} (${daysAgo} days ago) - ${filing.type}\n`;
-      processedText += `     Description: ${filing.description}\n`;
-      if (filing.documentLinks.length > 0) {
-        processedText += `     Available Documents: ${filing.documentLinks.map(link => `${link.linkType}${link.pageCount ? ` (${link.pageCount} pages)` : ''}`).join(', ')}\n`;
-      }
-    });
-    processedText += "\n";
+    text += "\n";
   }
 
-  // Enhanced People/Officers Analysis with governance insights
-  if (data.people && data.people.officers && data.people.officers.length > 0) {
-    processedText += "=== GOVERNANCE STRUCTURE & LEADERSHIP ANALYSIS ===\n";
-    processedText += `Total Officers Identified: ${data.people.totalOfficers || data.people.officers.length}\n`;
-    processedText += `Active Officers: ${data.people.activeOfficers || data.people.officers.filter(o => !o.resignationDate).length}\n`;
-    processedText += `Resigned Officers: ${data.people.resignedOfficers || data.people.officers.filter(o => o.resignationDate).length}\n`;
-    
-    if (data.people.pagesScraped) {
-      processedText += `Officer Data Coverage: ${data.people.pagesScraped} pages analyzed\n`;
-    }
-    
-    // Officer role analysis
-    const roleDistribution = data.people.officers.reduce((acc: Record<string, number>, officer) => {
-      acc[officer.role] = (acc[officer.role] || 0) + 1;
-      return acc;
-    }, {});
-    
-    processedText += "\nLEADERSHIP STRUCTURE:\n";
-    Object.entries(roleDistribution)
-      .sort(([,a], [,b]) => (b as number) - (a as number))
-      .forEach(([role, count], index) => {
-        processedText += `  ${index + 1}. ${role}: ${count} ${count === 1 ? 'person' : 'people'}\n`;
-      });
-    
-    // Recent officer changes (governance stability)
-    const recentChanges = data.people.officers
-      .filter(officer => {
-        const appointDate = officer.appointmentDate ? new Date(officer.appointmentDate) : null;
-        const resignDate = officer.resignationDate ? new Date(officer.resignationDate) : null;
-        const oneYearAgo = new Date();
-        oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-        
-        return (appointDate && appointDate > oneYearAgo) || (resignDate && resignDate > oneYearAgo);
-      })
-      .sort((a, b) => {
-        const dateA = new Date(a.resignationDate || a.appointmentDate || 0);
-        const dateB = new Date(b.resignationDate || b.appointmentDate || 0);
-        return dateB.getTime() - dateA.getTime();
-      });
-    
-    if (recentChanges.length > 0) {
-      processedText += "\nRECENT GOVERNANCE CHANGES (Last 12 months):\n";
-      recentChanges.slice(0, 10).forEach((officer, index) => {
-        const changeType = officer.resignationDate ? 'RESIGNED' : 'APPOINTED';
-        const changeDate = officer.resignationDate || officer.appointmentDate;
-        processedText += `  ${index + 1}. ${changeType}: ${officer.name} (${officer.role}) - ${changeDate}\n`;
-      });
-    }
-    
-    // Detailed officer profiles
-    processedText += "\nKEY PERSONNEL PROFILES:\n";
-    data.people.officers
-      .filter(officer => !officer.resignationDate) // Active officers only
-      .slice(0, 10) // Top 10 officers
-      .forEach((officer, index) => {
-        processedText += `\n  ${index + 1}. ${officer.name}\n`;
-        processedText += `     Role: ${officer.role}\n`;
-        processedText += `     Appointed: ${officer.appointmentDate || 'Date not specified'}\n`;
-        
-        if (officer.nationality) processedText += `     Nationality: ${officer.nationality}\n`;
-        if (officer.occupation) processedText += `     Occupation: ${officer.occupation}\n`;
-        if (officer.address) processedText += `     Address: ${officer.address}\n`;
-        if (officer.dateOfBirth) processedText += `     Date of Birth: ${officer.dateOfBirth}\n`;
-        
-        // Enhanced: Include profile links if available
-        if (officer.links && officer.links.length > 0) {
-          processedText += `     Profile Links Available: ${officer.links.length} link(s)\n`;
-          officer.links.forEach((link, linkIndex) => {
-            processedText += `       ${linkIndex + 1}. ${link.linkType}: ${link.linkText} (${link.url})\n`;
-          });
-        }
-      });
-    processedText += "\n";
-  }
+  return text;
+}
 
-  // Enhanced Charges Analysis
-  if (data.charges && Array.isArray(data.charges) && data.charges.length > 0) {
-    processedText += "=== FINANCIAL SECURITY & CHARGES ANALYSIS ===\n";
-    processedText += `Total Charges Registered: ${data.charges.length}\n`;
-    
-    const activeCharges = data.charges.filter(charge => !charge.status || charge.status.toLowerCase() !== 'satisfied');
-    const satisfiedCharges = data.charges.filter(charge => charge.status && charge.status.toLowerCase() === 'satisfied');
-    
-    processedText += `Active Charges: ${activeCharges.length}\n`;
-    processedText += `Satisfied Charges: ${satisfiedCharges.length}\n`;
-    
-    if (activeCharges.length > 0) {
-      processedText += "\nACTIVE FINANCIAL OBLIGATIONS:\n";
-      activeCharges.slice(0, 10).forEach((charge, index) => {
-        processedText += `  ${index + 1}. ${charge.description || 'Charge description not available'}\n`;
-        if (charge.amount) processedText += `     Amount: ${charge.amount}\n`;
-        if (charge.date) processedText += `     Date Created: ${charge.date}\n`;
-        if (charge.chargee) processedText += `     Secured Party: ${charge.chargee}\n`;
-      });
-    }
-    
-    if (satisfiedCharges.length > 0) {
-      processedText += "\nRECENTLY SATISFIED CHARGES:\n";
-      satisfiedCharges.slice(0, 5).forEach((charge, index) => {
-        processedText += `  ${index + 1}. ${charge.description || 'Charge description not available'} - SATISFIED\n`;
-        if (charge.dateSatisfied) processedText += `     Satisfied: ${charge.dateSatisfied}\n`;
-      });
-    }
-    processedText += "\n";
-  }
+// Enhanced data processing for comprehensive analysis
+function processEnhancedCompanyData(data: EnhancedCompanyData): string {
+  let processedText = `COMPREHENSIVE COMPANY INTELLIGENCE ANALYSIS FOR: ${data.query}\n\n`;
 
-  // Enhanced PSC (Persons with Significant Control) Analysis
-  if (data.psc && Array.isArray(data.psc) && data.psc.length > 0) {
-    processedText += "=== OWNERSHIP & CONTROL STRUCTURE ===\n";
-    processedText += `Persons with Significant Control: ${data.psc.length}\n`;
-    
-    data.psc.forEach((person, index) => {
-      processedText += `\n  ${index + 1}. ${person.name || 'Name not specified'}\n`;
-      if (person.nationality) processedText += `     Nationality: ${person.nationality}\n`;
-      if (person.dateOfBirth) processedText += `     Date of Birth: ${person.dateOfBirth}\n`;
-      if (person.address) processedText += `     Address: ${person.address}\n`;
-      if (person.naturesOfControl && person.naturesOfControl.length > 0) {
-        processedText += `     Nature of Control:\n`;
-        person.naturesOfControl.forEach(control => {
-          processedText += `       - ${control}\n`;
-        });
-      }
-    });
-    processedText += "\n";
-  }
+  // Section plugin blocks and the document-derived blocks in summaryOrder
+  const blocks = [
+    ...getSectionPlugins().map(plugin => ({ order: plugin.summaryOrder, text: plugin.summarize((data as any)[plugin.resultKey]) })),
+    { order: 60, text: summarizeFinancials(data) },
+    { order: 70, text: summarizeDocumentText(data) }
+  ];
+  blocks.sort((a, b) => a.order - b.order).forEach(block => {
+    processedText += block.text;
+  });
 
   // Additional data sections
   if (data.additional) {
@@ -382,7 +118,7 @@ function processEnhancedCompanyData(data: EnhancedCompanyData): string {
   return processedText;
 }
 
-export async function getEnhancedAnthropicSummary(company: string, rawData: EnhancedCompanyData) {
+export async function getEnhancedAnthropicSummary(company: string, rawData: EnhancedCompanyData, llm: ScrapingConfig['llm'] = getConfig().llm) {
   try {
     const processedData = processEnhancedCompanyData(rawData);
     
@@ -392,7 +128,15 @@ export async function getEnhancedAnthropicSummary(company: string, rawData: Enha
     const pdfCount = rawData.filing?.filings?.flatMap(f => f.documentLinks?.filter(l => l.linkType === 'PDF') || []).length || 0;
     const totalOfficers = rawData.people?.totalOfficers || rawData.people?.officers?.length || 0;
     const activeOfficers = rawData.people?.activeOfficers || rawData.people?.officers?.filter(o => !o.resignationDate).length || 0;
-    const totalCharges = Array.isArray(rawData.charges) ? rawData.charges.length : 0;
+    const totalCharges = rawData.charges?.charges?.length || 0;
+    const outstandingCharges = rawData.charges?.outstanding ?? 0;
+    const insolvencyStatus = !rawData.insolvency
+      ? 'insolvency register could not be checked - state this explicitly'
+      : rawData.insolvency.insolvencyFlag
+        ? `INSOLVENCY FLAGGED - ${rawData.insolvency.totalCases || 0} case(s) on record`
+        : 'no insolvency cases on record';
+    const activePSCs = rawData.psc?.activePersons ?? rawData.psc?.persons?.filter(p => !p.ceasedOn).length ?? 0;
+    const financialPeriods = rawData.financials?.periods?.length || 0;
     
     const prompt = `You are a senior UK business intelligence analyst with 15+ years of experience in corporate due diligence, risk assessment, and regulatory compliance analysis. You specialize in Companies House data interpretation, financial risk evaluation, and corporate governance assessment.
 
@@ -448,15 +192,20 @@ Apply your expertise in:
 - Officer tenure analysis and management continuity
 - Board composition and expertise evaluation
 - Recent governance changes and their implications
-- Control structure analysis and ownership transparency
+- Control structure analysis and ownership transparency (${activePSCs} active persons with significant control)
+- Ultimate ownership: individual vs. corporate PSCs, ownership chains and any "no registrable person" statements
 - Key person risk assessment
+- Directors' other appointments, especially serial directorships of dissolved or insolvent companies (where appointment histories were collected)
 
 ## 💰 FINANCIAL SECURITY & OBLIGATIONS
-**Financial risk and security analysis (${totalCharges} charges identified):**
+**Financial risk and security analysis (${totalCharges} charges identified, ${outstandingCharges} outstanding):**
 - Active financial obligations and security interests
 - Debt structure and secured lending analysis
 - Financial leverage and liquidity indicators
 - Credit risk assessment based on charges data
+- ${financialPeriods > 0
+  ? `Cite the reported figures from REPORTED FINANCIALS (${financialPeriods} period(s)): turnover, profit/loss, net assets, cash, creditors and employees with their period end dates, and the year-on-year trend`
+  : 'No structured accounts figures were extracted - say so, and do not present inferred figures as reported ones'}
 - Historical financial obligation patterns
 - Secured vs. unsecured debt analysis
 
@@ -466,6 +215,7 @@ Apply your expertise in:
 - Critical missing documents identification
 - Information transparency and disclosure quality
 - Audit trail completeness and reliability
+- Relevant content quoted from the FILING DOCUMENT TEXT excerpts (e.g. charge instruments, accounts notes), noting any scanned documents that could not be read
 - Public record integrity assessment
 
 ## ⚠️ COMPREHENSIVE RISK ASSESSMENT
@@ -477,6 +227,7 @@ Apply your expertise in:
 - Future compliance obligations and deadlines
 
 ### Financial Risk (High/Medium/Low)
+- Insolvency status (${insolvencyStatus}) - any administration, liquidation or receivership case makes this High
 - Credit risk based on charges and financial obligations
 - Liquidity and solvency indicators from available data
 - Financial distress signals or warning indicators
@@ -541,15 +292,16 @@ Generate a comprehensive, professional business intelligence report that demonst
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "x-api-key": process.env.ANTHROPIC_API_KEY!,
+        "x-api-key": llm.apiKey,
         "anthropic-version": "2023-06-01"
       },
       body: JSON.stringify({
-        model: "claude-3-5-sonnet-20241022",
+        model: llm.model,
         messages: [{ role: "user", content: prompt }],
-        max_tokens: 8000, // Significantly increased for comprehensive business intelligence reports
-        temperature: 0.1 // Very low temperature for maximum factual accuracy and consistency
-      })
+        max_tokens: llm.maxTokens,
+        temperature: llm.temperature
+      }),
+      signal: AbortSignal.timeout(llm.timeout)
     });
 
     if (!response.ok) {
@@ -0,0 +1,255 @@
+// Strategy telemetry: which extraction/navigation strategy won for each section, how long every
+// attempt took, how many Stagehand LLM calls (act/extract/observe) it used and why the losers failed.
+// Stored on ScrapingResult.telemetry so it is persisted with the report's raw_data.
+
+export type StrategyOutcome = 'success' | 'empty' | 'rejected' | 'error';
+
+export interface StrategyAttempt {
+  strategy: string;
+  outcome: StrategyOutcome;
+  durationMs: number;
+  llmCalls: number;
+  resultCount?: number;
+  // Why the attempt did not win (empty result, failed validation or the error message)
+  reason?: string;
+}
+
+export interface StrategyRun {
+  section: string;
+  operation: 'extraction' | 'navigation';
+  startedAt: string;
+  winner: string | null;
+  durationMs: number;
+  llmCalls: number;
+  attempts: StrategyAttempt[];
+}
+
+export interface StrategyStats {
+  strategy: string;
+  attempts: number;
+  wins: number;
+  winRate: number;
+  averageDurationMs: number;
+  llmCalls: number;
+  failureReasons: Record<string, number>;
+}
+
+export interface SectionStrategySummary {
+  section: string;
+  operation: 'extraction' | 'navigation';
+  runs: number;
+  failedRuns: number;
+  llmCalls: number;
+  durationMs: number;
+  winners: Record<string, number>;
+  strategies: StrategyStats[];
+}
+
+export interface ScrapeTelemetry {
+  runs: StrategyRun[];
+  sections: SectionStrategySummary[];
+  // Includes LLM calls made outside strategy runs (search, pagination clicks)
+  totalLlmCalls: number;
+}
+
+const LLM_METHODS = ['act', 'extract', 'observe'];
+
+export class StrategyAttemptRecorder {
+  private startTime = Date.now();
+  private startLlmCalls: number;
+
+  constructor(private telemetry: StrategyTelemetry, private run: StrategyRun, private strategy: string) {
+    this.startLlmCalls = telemetry.llmCallCount;
+  }
+
+  succeed(resultCount?: number): void {
+    this.record('success', resultCount);
+    this.run.winner = this.strategy;
+  }
+
+  fail(outcome: Exclude<StrategyOutcome, 'success'>, reason: string, resultCount?: number): void {
+    this.record(outcome, resultCount, reason);
+  }
+
+  private record(outcome: StrategyOutcome, resultCount?: number, reason?: string): void {
+    const attempt: StrategyAttempt = {
+      strategy: this.strategy,
+      outcome,
+      durationMs: Date.now() - this.startTime,
+      llmCalls: this.telemetry.llmCallCount - this.startLlmCalls
+    };
+    if (resultCount !== undefined) attempt.resultCount = resultCount;
+    if (reason) attempt.reason = reason.slice(0, 200);
+
+    this.run.attempts.push(attempt);
+    this.run.durationMs += attempt.durationMs;
+    this.run.llmCalls += attempt.llmCalls;
+  }
+}
+
+export class StrategyRunRecorder {
+  constructor(private telemetry: StrategyTelemetry, private run: StrategyRun) {}
+
+  attempt(strategy: string): StrategyAttemptRecorder {
+    return new StrategyAttemptRecorder(this.telemetry, this.run, strategy);
+  }
+
+  // For runs that combine several successful attempts instead of taking the first
+  declareWinner(winner: string): void {
+    this.run.winner = winner;
+  }
+}
+
+export class StrategyTelemetry {
+  private llmCalls = 0;
+  private runs: StrategyRun[] = [];
+
+  get llmCallCount(): number {
+    return this.llmCalls;
+  }
+
+  // Stagehand's page is itself a proxy that resolves act/extract/observe on every access,
+  // so wrap it rather than patching the methods
+  instrumentPage<T extends object>(page: T): T {
+    return new Proxy(page, {
+      get: (target, prop) => {
+        const value = (target as any)[prop];
+        if (typeof prop === 'string' && LLM_METHODS.includes(prop) && typeof value === 'function') {
+          return (...args: any[]) => {
+            this.llmCalls++;
+            return value(...args);
+          };
+        }
+        return value;
+      }
+    });
+  }
+
+  get runCount(): number {
+    return this.runs.length;
+  }
+
+  // Runs recorded after runCount had the given value
+  runsSince(count: number): StrategyRun[] {
+    return this.runs.slice(count);
+  }
+
+  startRun(section: string, operation: StrategyRun['operation']): StrategyRunRecorder {
+    const run: StrategyRun = {
+      section,
+      operation,
+      startedAt: new Date().toISOString(),
+      winner: null,
+      durationMs: 0,
+      llmCalls: 0,
+      attempts: []
+    };
+    this.runs.push(run);
+    return new StrategyRunRecorder(this, run);
+  }
+
+  snapshot(): ScrapeTelemetry {
+    return {
+      runs: this.runs,
+      sections: StrategyTelemetry.summarize(this.runs),
+      totalLlmCalls: this.llmCalls
+    };
+  }
+
+  // Per section and operation: how often each strategy was tried, how often it won, and why it failed
+  static summarize(runs: StrategyRun[]): SectionStrategySummary[] {
+    const summaries = new Map<string, SectionStrategySummary>();
+    const durations = new Map<string, number>();
+
+    runs.forEach(run => {
+      const key = `${run.operation}:${run.section}`;
+      let summary = summaries.get(key);
+      if (!summary) {
+        summary = { section: run.section, operation: run.operation, runs: 0, failedRuns: 0, llmCalls: 0, durationMs: 0, winners: {}, strategies: [] };
+        summaries.set(key, summary);
+      }
+
+      summary.runs++;
+      summary.llmCalls += run.llmCalls;
+      summary.durationMs += run.durationMs;
+      if (run.winner) {
+        summary.winners[run.winner] = (summary.winners[run.winner] || 0) + 1;
+      } else {
+        summary.failedRuns++;
+      }
+
+      run.attempts.forEach(attempt => {
+        let stats = summary!.strategies.find(entry => entry.strategy === attempt.strategy);
+        if (!stats) {
+          stats = { strategy: attempt.strategy, attempts: 0, wins: 0, winRate: 0, averageDurationMs: 0, llmCalls: 0, failureReasons: {} };
+          summary!.strategies.push(stats);
+        }
+
+        const durationKey = `${key}:${attempt.strategy}`;
+        durations.set(durationKey, (durations.get(durationKey) || 0) + attempt.durationMs);
+
+        stats.attempts++;
+        stats.llmCalls += attempt.llmCalls;
+        if (attempt.outcome === 'success') {
+          stats.wins++;
+        } else {
+          const reason = attempt.reason || attempt.outcome;
+          stats.failureReasons[reason] = (stats.failureReasons[reason] || 0) + 1;
+        }
+        stats.winRate = Math.round((stats.wins / stats.attempts) * 100);
+        stats.averageDurationMs = Math.round(durations.get(durationKey)! / stats.attempts);
+      });
+    });
+
+    return Array.from(summaries.values());
+  }
+}
+
+export interface StrategyTelemetryReport {
+  extraction_timestamp?: string;
+  telemetry?: ScrapeTelemetry | null;
+}
+
+export interface DailyStrategyWinners {
+  date: string;
+  section: string;
+  operation: 'extraction' | 'navigation';
+  runs: number;
+  winners: Record<string, number>;
+}
+
+export interface StrategyTelemetryAggregate {
+  reportsAnalyzed: number;
+  reportsWithTelemetry: number;
+  totalLlmCalls: number;
+  sections: SectionStrategySummary[];
+  // Winners per day, so a shift from Direct DOM to the LLM fallback shows up as a trend
+  daily: DailyStrategyWinners[];
+}
+
+export function aggregateStrategyTelemetry(reports: StrategyTelemetryReport[]): StrategyTelemetryAggregate {
+  const withTelemetry = reports.filter(report => report.telemetry?.runs);
+  const runs = withTelemetry.flatMap(report => report.telemetry!.runs);
+
+  const daily = new Map<string, DailyStrategyWinners>();
+  runs.forEach(run => {
+    const date = run.startedAt.slice(0, 10);
+    const key = `${date}:${run.operation}:${run.section}`;
+    let entry = daily.get(key);
+    if (!entry) {
+      entry = { date, section: run.section, operation: run.operation, runs: 0, winners: {} };
+      daily.set(key, entry);
+    }
+    entry.runs++;
+    const winner = run.winner || 'none';
+    entry.winners[winner] = (entry.winners[winner] || 0) + 1;
+  });
+
+  return {
+    reportsAnalyzed: reports.length,
+    reportsWithTelemetry: withTelemetry.length,
+    totalLlmCalls: withTelemetry.reduce((sum, report) => sum + (report.telemetry!.totalLlmCalls || 0), 0),
+    sections: StrategyTelemetry.summarize(runs),
+    daily: Array.from(daily.values()).sort((a, b) => b.date.localeCompare(a.date) || a.section.localeCompare(b.section))
+  };
+}